@@ -1,73 +1,265 @@
 "use server"
 
+import type { Session } from "next-auth"
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
-import { BOOKINGS_COLLECTION } from "@/models/assistance"
-import type { Booking } from "@/models/assistance"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import { blocksAssistanceType, findOverlappingBlackouts } from "@/lib/blackouts"
+import { CAPACITY_STATUSES, getSlotCapacity, holdsSlots } from "@/lib/booking-capacity"
+import {
+  BOOKING_STATUSES,
+  BOOKING_STATUS_LABELS,
+  canTransition,
+  describeRejectedTransition,
+} from "@/lib/booking-status"
+import {
+  assignBookings,
+  bookingQuerySchema,
+  calendarQuerySchema,
+  deleteBookingsByIds,
+  findAssigneeWorkload,
+  findBookingById,
+  findCalendarBookings,
+  findBookingsByIds,
+  queryBookings,
+  updateBookingStatus,
+  type AssigneeWorkload,
+  type BookingPage,
+  type BookingQuery,
+  type CalendarQuery,
+} from "@/lib/repositories/bookings"
+import { findAssistanceTypeById } from "@/lib/repositories/assistance-types"
+import { findBlackouts } from "@/lib/repositories/blackouts"
+import { releaseScheduleSlots, reserveScheduleSlots } from "@/lib/repositories/schedule-slots"
+import { firstIssueMessage, isDuplicateKeyError, isObjectIdString } from "@/lib/repositories/shared"
+import { getServerSchedule } from "@/lib/schedule-time-zone"
+import { EDITOR_ROLES, STAFF_ROLES } from "@/lib/staff-roles"
+import { findStaffUserByEmail, findStaffUserById } from "@/lib/staff-users"
+import { promoteAfterRelease } from "@/lib/waitlist"
+import { type Booking, type BookingStatus, ACTIVE_BOOKING_INDEX, MY_QUEUE_FILTER } from "@/models/assistance"
+import type { Blackout } from "@/models/blackout"
 
-// Get all assistance requests for admin
-export async function getAllAssistanceRequests(): Promise<Booking[]> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+// Reopening a cancelled request is rejected when the character has since made another one of the same type
+const ACTIVE_BOOKING_CONFLICT_MESSAGE = "The character already has another active request for this assistance type"
+
+// Replaces MY_QUEUE_FILTER with the signed-in staff member's id, the session id is not theirs for Google sign-ins
+async function resolveAssignee(session: Session, assignedTo: string | undefined): Promise<string | undefined> {
+  if (assignedTo !== MY_QUEUE_FILTER) return assignedTo
+
+  const staffUser = session.user.email ? await findStaffUserByEmail(session.user.email) : null
+  if (!staffUser?._id) {
+    throw new Error("Your staff account could not be found")
+  }
+  return staffUser._id.toString()
+}
+
+export interface AssistanceRequestPage extends BookingPage {
+  blackouts: Record<string, Blackout[]> // Upcoming blackouts each open request on the page runs into, by id
+}
 
-    const requests = await db.collection(BOOKINGS_COLLECTION).find({}).sort({ createdAt: -1 }).toArray()
+// Open requests whose upcoming occurrences fall in a blackout for their assistance type
+function findBlackoutsByBooking(bookings: Booking[], blackouts: Blackout[]): Record<string, Blackout[]> {
+  const flagged: Record<string, Blackout[]> = {}
+
+  for (const booking of bookings) {
+    if (booking.status !== "waitlisted" && !CAPACITY_STATUSES.includes(booking.status)) continue
+
+    const typeBlackouts = blackouts.filter((blackout) => blocksAssistanceType(blackout, booking.assistanceTypeId))
+    const overlapping = findOverlappingBlackouts(getServerSchedule(booking), typeBlackouts)
+    if (overlapping.length > 0) {
+      flagged[booking._id as string] = overlapping
+    }
+  }
+
+  return flagged
+}
 
-    // Convert to plain objects to ensure no ObjectId instances are returned
-    return JSON.parse(JSON.stringify(requests))
+/**
+ * One page of assistance requests for the admin list.
+ * @param query Filters, sort and the cursor from the previous page's nextCursor
+ */
+export async function queryAssistanceRequests(query: BookingQuery = {}): Promise<AssistanceRequestPage> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  const assignedTo = await resolveAssignee(auth.session, query.assignedTo)
+  const parsed = bookingQuerySchema.safeParse({ ...query, assignedTo })
+  if (!parsed.success) {
+    throw new Error(firstIssueMessage(parsed.error, "Invalid filters"))
+  }
+
+  try {
+    const page = await queryBookings(parsed.data)
+    const blackouts = await findBlackouts({ endingAfter: new Date() })
+    return { ...page, blackouts: findBlackoutsByBooking(page.bookings, blackouts) }
   } catch (error) {
-    console.error("Error fetching assistance requests:", error)
+    console.error("Error querying assistance requests:", error)
     throw new Error("Failed to fetch assistance requests")
   }
 }
 
+/**
+ * Scheduled assistance requests for the admin calendar.
+ * @param query Statuses (defaults to those holding slots), type, assignee and the end of the week being shown
+ */
+export async function getCalendarBookings(query: CalendarQuery = {}): Promise<Booking[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  const assignedTo = await resolveAssignee(auth.session, query.assignedTo)
+  const parsed = calendarQuerySchema.safeParse({ ...query, assignedTo })
+  if (!parsed.success) {
+    throw new Error(firstIssueMessage(parsed.error, "Invalid filters"))
+  }
+
+  try {
+    return await findCalendarBookings(parsed.data)
+  } catch (error) {
+    console.error("Error fetching calendar bookings:", error)
+    throw new Error("Failed to fetch scheduled requests")
+  }
+}
+
+// Open requests per assignee for the workload summary on the admin list
+export async function getRequestWorkload(): Promise<AssigneeWorkload[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  try {
+    return await findAssigneeWorkload()
+  } catch (error) {
+    console.error("Error fetching request workload:", error)
+    throw new Error("Failed to fetch workload")
+  }
+}
+
+export interface RejectedStatusUpdate {
+  id: string
+  requestNumber?: string
+  reason: string
+}
+
+type StatusUpdateOutcome = { updated: Booking } | { rejected: string }
+
+const STATUS_CHANGED_MESSAGE = "The request's status was changed by someone else, refresh and try again"
+
+const REOPENED_ON_WAITLIST_MESSAGE = "Request reopened on the waitlist, its days and time range are full"
+
+/**
+ * Applies one transition for the signed-in staff member, checking it against the transition table.
+ * A request moving into a status that holds slots claims them first, and one moving out hands them back.
+ * A reopened request has to fit like a new one and rejoins the waitlist when it doesn't,
+ * while moving a request off the waitlist by hand overrides capacity.
+ */
+async function applyStatusChange(
+  session: Session,
+  request: Booking,
+  status: BookingStatus,
+  reason?: string,
+): Promise<StatusUpdateOutcome> {
+  if (!canTransition(request.status, status)) {
+    return { rejected: describeRejectedTransition(request.status, status) }
+  }
+
+  let target = status
+  if (!holdsSlots(request.status) && holdsSlots(status)) {
+    const isReopening = request.status === "cancelled"
+    const assistanceType = isReopening ? await findAssistanceTypeById(request.assistanceTypeId) : null
+    if (!(await reserveScheduleSlots(request, assistanceType ? getSlotCapacity(assistanceType) : 0))) {
+      target = "waitlisted"
+    }
+  }
+  const claimsSlots = !holdsSlots(request.status) && holdsSlots(target)
+
+  let updated: Booking | null
+  try {
+    updated = await updateBookingStatus(request._id as string, {
+      from: request.status,
+      to: target,
+      actorType: "staff",
+      actor: session.user.email || "unknown",
+      reason: reason?.trim() || undefined,
+    })
+  } catch (error) {
+    if (claimsSlots) await releaseScheduleSlots(request)
+
+    if (isDuplicateKeyError(error, ACTIVE_BOOKING_INDEX)) {
+      return { rejected: ACTIVE_BOOKING_CONFLICT_MESSAGE }
+    }
+    throw error
+  }
+
+  if (!updated) {
+    if (claimsSlots) await releaseScheduleSlots(request)
+    return { rejected: STATUS_CHANGED_MESSAGE }
+  }
+
+  if (holdsSlots(request.status) && !holdsSlots(target)) {
+    await releaseScheduleSlots(request)
+  }
+
+  return { updated }
+}
+
 // Update request status
 export async function updateRequestStatus(
   id: string,
-  status: "pending" | "confirmed" | "completed" | "cancelled",
-): Promise<{ success: boolean; message: string }> {
+  status: BookingStatus,
+  reason?: string,
+): Promise<{ success: boolean; message: string; booking?: Booking; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
   try {
     if (!id || id.trim() === "") {
       return { success: false, message: "Invalid request ID" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
-      console.error("Invalid ObjectId:", error)
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid request ID format" }
     }
 
-    // Get the current request to check if it exists
-    const currentRequest = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    if (!BOOKING_STATUSES.includes(status)) {
+      return { success: false, message: "Invalid status" }
+    }
+
+    // Get the current request to check the transition from its status
+    const currentRequest = await findBookingById(id)
 
     if (!currentRequest) {
       return { success: false, message: "Request not found" }
     }
 
-    // Update the request status
-    const result = await db.collection(BOOKINGS_COLLECTION).updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          status,
-          updatedAt: new Date(),
-        },
-      },
-    )
+    const outcome = await applyStatusChange(auth.session, currentRequest, status, reason)
 
-    if (result.matchedCount === 0) {
-      return { success: false, message: "Request not found" }
+    if ("rejected" in outcome) {
+      return { success: false, message: outcome.rejected }
+    }
+
+    await recordAudit(auth.session, {
+      action: "booking.status_changed",
+      entity: "booking",
+      targetId: id,
+      before: currentRequest,
+      after: outcome.updated,
+    })
+    if (holdsSlots(currentRequest.status) && !holdsSlots(outcome.updated.status)) {
+      await promoteAfterRelease([outcome.updated])
     }
 
     return {
       success: true,
-      message: `Request status updated to ${status} successfully`,
+      message:
+        outcome.updated.status === status
+          ? `Request status updated to ${BOOKING_STATUS_LABELS[status]} successfully`
+          : REOPENED_ON_WAITLIST_MESSAGE,
+      booking: outcome.updated,
     }
   } catch (error) {
     console.error("Error updating request status:", error)
@@ -79,54 +271,85 @@ export async function updateRequestStatus(
   }
 }
 
-// Bulk update request status
+/**
+ * Moves several requests to the same status.
+ * Each request is checked against the transition table on its own, so one that can't move doesn't stop the rest.
+ * @returns The updated requests and the ids that were rejected, with the reason for each
+ */
 export async function bulkUpdateRequestStatus(
   ids: string[],
-  status: "pending" | "confirmed" | "completed" | "cancelled",
-): Promise<{ success: boolean; message: string; updatedCount: number }> {
+  status: BookingStatus,
+  reason?: string,
+): Promise<{
+  success: boolean
+  message: string
+  updatedCount: number
+  updated: Booking[]
+  rejected: RejectedStatusUpdate[]
+  code?: "forbidden"
+}> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return { ...auth.result, updatedCount: 0, updated: [], rejected: [] }
+
   try {
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
-      return { success: false, message: "No request IDs provided", updatedCount: 0 }
+      return { success: false, message: "No request IDs provided", updatedCount: 0, updated: [], rejected: [] }
     }
 
-    const client = await clientPromise
-    const db = client.db()
+    if (!BOOKING_STATUSES.includes(status)) {
+      return { success: false, message: "Invalid status", updatedCount: 0, updated: [], rejected: [] }
+    }
 
-    // Convert string IDs to ObjectIds, filtering out any invalid ones
-    const objectIds = ids
-      .map((id) => {
-        try {
-          return new ObjectId(id)
-        } catch (error) {
-          console.error(`Invalid ObjectId: ${id}`, error)
-          return null
-        }
-      })
-      .filter((id): id is ObjectId => id !== null)
+    const rejected: RejectedStatusUpdate[] = ids
+      .filter((id) => !isObjectIdString(id))
+      .map((id) => ({ id, reason: "Invalid request ID" }))
+    const validIds = ids.filter(isObjectIdString)
 
-    if (objectIds.length === 0) {
-      return { success: false, message: "No valid request IDs provided", updatedCount: 0 }
+    const currentRequests = await findBookingsByIds(validIds)
+    const foundIds = new Set(currentRequests.map((request) => request._id))
+    validIds
+      .filter((id) => !foundIds.has(id))
+      .forEach((id) => rejected.push({ id, reason: "Request not found" }))
+
+    const updated: Booking[] = []
+    for (const request of currentRequests) {
+      const outcome = await applyStatusChange(auth.session, request, status, reason)
+
+      if ("rejected" in outcome) {
+        rejected.push({ id: request._id as string, requestNumber: request.requestNumber, reason: outcome.rejected })
+      } else {
+        updated.push(outcome.updated)
+      }
     }
 
-    // Update the request status for all selected IDs
-    const result = await db.collection(BOOKINGS_COLLECTION).updateMany(
-      { _id: { $in: objectIds } },
-      {
-        $set: {
-          status,
-          updatedAt: new Date(),
-        },
-      },
+    const before = new Map(currentRequests.map((request) => [request._id, request]))
+    await recordAudit(
+      auth.session,
+      updated.map((request) => ({
+        action: "booking.status_changed",
+        entity: "booking" as const,
+        targetId: request._id as string,
+        before: before.get(request._id),
+        after: request,
+      })),
     )
+    const heldSlots = new Set(currentRequests.filter((request) => holdsSlots(request.status)).map(({ _id }) => _id))
+    await promoteAfterRelease(updated.filter((request) => heldSlots.has(request._id) && !holdsSlots(request.status)))
 
+    const label = BOOKING_STATUS_LABELS[status]
     return {
-      success: true,
-      message: `${result.modifiedCount} requests updated to ${status} successfully`,
-      updatedCount: result.modifiedCount,
+      success: updated.length > 0,
+      message:
+        rejected.length > 0
+          ? `${updated.length} requests updated to ${label}, ${rejected.length} could not be changed`
+          : `${updated.length} requests updated to ${label} successfully`,
+      updatedCount: updated.length,
+      updated,
+      rejected,
     }
   } catch (error) {
     console.error("Error bulk updating request status:", error)
-    return { success: false, message: "Failed to update request status", updatedCount: 0 }
+    return { success: false, message: "Failed to update request status", updatedCount: 0, updated: [], rejected: [] }
   } finally {
     revalidatePath("/admin/assistance-requests")
     revalidatePath("/request/[id]")
@@ -134,41 +357,105 @@ export async function bulkUpdateRequestStatus(
   }
 }
 
+/**
+ * Assigns requests to a staff member who can manage them, or returns them to the shared queue.
+ * @param staffId The staff user id, null to unassign
+ */
+export async function assignRequests(
+  ids: string[],
+  staffId: string | null,
+): Promise<{ success: boolean; message: string; updatedCount: number; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return { ...auth.result, updatedCount: 0 }
+
+  try {
+    const validIds = Array.isArray(ids) ? ids.filter(isObjectIdString) : []
+    if (validIds.length === 0) {
+      return { success: false, message: "No valid request IDs provided", updatedCount: 0 }
+    }
+
+    const assignee = staffId ? await findStaffUserById(staffId) : null
+    if (staffId && (!assignee || !EDITOR_ROLES.includes(assignee.role))) {
+      return { success: false, message: "Requests can only be assigned to staff who can manage them", updatedCount: 0 }
+    }
+
+    const currentRequests = await findBookingsByIds(validIds)
+    const updatedCount = await assignBookings(validIds, staffId)
+    const updated = new Map((await findBookingsByIds(validIds)).map((request) => [request._id, request]))
+
+    await recordAudit(
+      auth.session,
+      currentRequests
+        .filter((request) => request.assignedTo !== updated.get(request._id)?.assignedTo)
+        .map((request) => ({
+          action: staffId ? "booking.assigned" : "booking.unassigned",
+          entity: "booking" as const,
+          targetId: request._id as string,
+          before: request,
+          after: updated.get(request._id) ?? null,
+        })),
+    )
+
+    return {
+      success: true,
+      message: assignee
+        ? `${updatedCount} requests assigned to ${assignee.name || assignee.email}`
+        : `${updatedCount} requests unassigned`,
+      updatedCount,
+    }
+  } catch (error) {
+    console.error("Error assigning requests:", error)
+    return { success: false, message: "Failed to assign requests", updatedCount: 0 }
+  } finally {
+    revalidatePath("/admin/assistance-requests")
+    revalidatePath("/request/[id]")
+  }
+}
+
 // Bulk delete requests
 export async function bulkDeleteRequests(
   ids: string[],
-): Promise<{ success: boolean; message: string; deletedCount: number }> {
+): Promise<{ success: boolean; message: string; deletedCount: number; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return { ...auth.result, deletedCount: 0 }
+
   try {
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
       return { success: false, message: "No request IDs provided", deletedCount: 0 }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    // Convert string IDs to ObjectIds, filtering out any invalid ones
-    const objectIds = ids
-      .map((id) => {
-        try {
-          return new ObjectId(id)
-        } catch (error) {
-          console.error(`Invalid ObjectId: ${id}`, error)
-          return null
-        }
-      })
-      .filter((id): id is ObjectId => id !== null)
+    // Skip any invalid IDs
+    const validIds = ids.filter(isObjectIdString)
 
-    if (objectIds.length === 0) {
+    if (validIds.length === 0) {
       return { success: false, message: "No valid request IDs provided", deletedCount: 0 }
     }
 
-    // Delete the requests
-    const result = await db.collection(BOOKINGS_COLLECTION).deleteMany({ _id: { $in: objectIds } })
+    // The deleted requests are returned as they were, for the audit log and to hand back the slots they held
+    const deletedRequests = await deleteBookingsByIds(validIds)
+    const deletedCount = deletedRequests.length
+
+    const releasedRequests = deletedRequests.filter((request) => holdsSlots(request.status))
+    for (const request of releasedRequests) {
+      await releaseScheduleSlots(request)
+    }
+
+    await recordAudit(
+      auth.session,
+      deletedRequests.map((request) => ({
+        action: "booking.deleted",
+        entity: "booking" as const,
+        targetId: request._id as string,
+        before: request,
+        after: null,
+      })),
+    )
+    await promoteAfterRelease(releasedRequests)
 
     return {
       success: true,
-      message: `${result.deletedCount} requests deleted successfully`,
-      deletedCount: result.deletedCount,
+      message: `${deletedCount} requests deleted successfully`,
+      deletedCount,
     }
   } catch (error) {
     console.error("Error bulk deleting requests:", error)
@@ -1,25 +1,27 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
 import { uploadImageToBlob, deleteImageFromBlob } from "@/lib/blob-utils"
-import { type AssistanceTemplate, ASSISTANCE_TEMPLATES_COLLECTION } from "@/models/assistance-template"
-
-// Get all assistance templates
-export async function getAssistanceTemplates(activeOnly = false): Promise<AssistanceTemplate[]> {
+import {
+  assistanceTemplateInputSchema,
+  deleteAssistanceTemplateById,
+  findAssistanceTemplateById,
+  findAssistanceTemplates,
+  getNextTemplateListOrder,
+  insertAssistanceTemplate,
+  updateAssistanceTemplateById,
+} from "@/lib/repositories/assistance-templates"
+import { findAssistanceTypeById } from "@/lib/repositories/assistance-types"
+import { firstIssueMessage, isObjectIdString } from "@/lib/repositories/shared"
+import type { AssistanceTemplate } from "@/models/assistance-template"
+import { GAME_PAGE_ROUTE } from "@/models/game"
+
+// Get all assistance templates, optionally only the active ones or those for one game
+export async function getAssistanceTemplates(activeOnly = false, gameId?: string): Promise<AssistanceTemplate[]> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    let query = {}
-    if (activeOnly) {
-      query = { isActive: true }
-    }
-
-    const templates = await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).find(query).sort({ listOrder: 1 }).toArray()
-
-    return JSON.parse(JSON.stringify(templates))
+    return await findAssistanceTemplates({ activeOnly, gameId })
   } catch (error) {
     console.error("Error fetching assistance templates:", error)
     return []
@@ -29,12 +31,7 @@ export async function getAssistanceTemplates(activeOnly = false): Promise<Assist
 // Get a single assistance template by ID
 export async function getAssistanceTemplateById(id: string): Promise<AssistanceTemplate | null> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const template = await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).findOne({ _id: new ObjectId(id) })
-
-    return template ? JSON.parse(JSON.stringify(template)) : null
+    return await findAssistanceTemplateById(id)
   } catch (error) {
     console.error("Error fetching assistance template:", error)
     return null
@@ -44,22 +41,33 @@ export async function getAssistanceTemplateById(id: string): Promise<AssistanceT
 // Create or update an assistance template
 export async function saveAssistanceTemplate(
   formData: FormData,
-): Promise<{ success: boolean; message: string; template?: AssistanceTemplate }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; template?: AssistanceTemplate; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     const id = formData.get("id") as string
-    const title = formData.get("title") as string
-    const description = formData.get("description") as string
-    const assistanceTypeId = formData.get("assistanceTypeId") as string
-    const additionalInfo = formData.get("additionalInfo") as string
     const imageFile = formData.get("image") as File | null
-    const currentImageUrl = formData.get("currentImageUrl") as string
-    const isActive = formData.get("isActive") === "true"
+    const currentImageUrl = (formData.get("currentImageUrl") as string) || ""
+
+    const parsed = assistanceTemplateInputSchema.safeParse({
+      title: (formData.get("title") as string) || "",
+      description: (formData.get("description") as string) || "",
+      assistanceTypeId: (formData.get("assistanceTypeId") as string) || "",
+      additionalInfo: (formData.get("additionalInfo") as string) || "",
+      isActive: formData.get("isActive") === "true",
+    })
+
+    if (!parsed.success) {
+      return { success: false, message: firstIssueMessage(parsed.error) }
+    }
+
+    const { title, description, assistanceTypeId, additionalInfo, isActive } = parsed.data
 
-    if (!title || !assistanceTypeId || !additionalInfo) {
-      return { success: false, message: "Title, assistance type, and additional info are required" }
+    // Templates are shown on the page of the game their assistance type belongs to
+    const assistanceType = await findAssistanceTypeById(assistanceTypeId)
+    if (!assistanceType) {
+      return { success: false, message: "Assistance type not found" }
     }
 
     let imageUrl = currentImageUrl
@@ -67,7 +75,7 @@ export async function saveAssistanceTemplate(
     // If a new image was uploaded, process it
     if (imageFile && imageFile.size > 0) {
       // Upload the new image
-      imageUrl = await uploadImageToBlob(imageFile)
+      imageUrl = await uploadImageToBlob(imageFile, "templates")
 
       // If updating and there's an existing image, delete the old one
       if (id && currentImageUrl) {
@@ -83,10 +91,11 @@ export async function saveAssistanceTemplate(
     const now = new Date()
 
     // Prepare the template data
-    const templateData: Partial<AssistanceTemplate> = {
+    const templateData = {
       title,
       description,
-      assistanceTypeId: new ObjectId(assistanceTypeId),
+      assistanceTypeId,
+      gameId: assistanceType.gameId,
       additionalInfo,
       imageUrl,
       isActive,
@@ -96,34 +105,45 @@ export async function saveAssistanceTemplate(
     // Update or create the template
     if (id) {
       // Update existing template
-      await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).updateOne({ _id: new ObjectId(id) }, { $set: templateData })
+      const before = await updateAssistanceTemplateById(id, templateData)
+
+      if (!before) {
+        return { success: false, message: "Assistance template not found" }
+      }
+
+      await recordAudit(auth.session, {
+        action: "assistanceTemplate.updated",
+        entity: "assistanceTemplate",
+        targetId: id,
+        before,
+        after: { ...before, ...templateData },
+      })
 
       return {
         success: true,
         message: `${title} updated successfully`,
-        template: { ...templateData, _id: id } as AssistanceTemplate,
+        template: { ...before, ...templateData },
       }
     } else {
-      // Get the highest listOrder
-      const highestOrder = await db
-        .collection(ASSISTANCE_TEMPLATES_COLLECTION)
-        .find({})
-        .sort({ listOrder: -1 })
-        .limit(1)
-        .toArray()
-
-      const listOrder = highestOrder.length > 0 ? highestOrder[0].listOrder + 1 : 1
-
-      // Create new template
-      templateData.listOrder = listOrder
-      templateData.createdAt = now
-
-      const result = await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).insertOne(templateData as AssistanceTemplate)
+      // Create new template after the existing ones
+      const template = await insertAssistanceTemplate({
+        ...templateData,
+        listOrder: await getNextTemplateListOrder(),
+        createdAt: now,
+      })
+
+      await recordAudit(auth.session, {
+        action: "assistanceTemplate.created",
+        entity: "assistanceTemplate",
+        targetId: template._id as string,
+        before: null,
+        after: template,
+      })
 
       return {
         success: true,
         message: `${title} created successfully`,
-        template: { ...templateData, _id: result.insertedId } as AssistanceTemplate,
+        template,
       }
     }
   } catch (error) {
@@ -131,24 +151,26 @@ export async function saveAssistanceTemplate(
     return { success: false, message: "Failed to save assistance template" }
   } finally {
     revalidatePath("/admin/assistance-templates")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
 // Delete an assistance template
-export async function deleteAssistanceTemplate(id: string): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+export async function deleteAssistanceTemplate(
+  id: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Get the template to delete its image
-    const template = await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).findOne({ _id: new ObjectId(id) })
+    const template = await findAssistanceTemplateById(id)
 
     if (!template) {
       return { success: false, message: "Assistance template not found" }
     }
 
-    // Delete the image from Vercel Blob
+    // Delete the image from storage
     if (template.imageUrl) {
       try {
         await deleteImageFromBlob(template.imageUrl)
@@ -159,7 +181,15 @@ export async function deleteAssistanceTemplate(id: string): Promise<{ success: b
     }
 
     // Delete the template from the database
-    await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).deleteOne({ _id: new ObjectId(id) })
+    await deleteAssistanceTemplateById(id)
+
+    await recordAudit(auth.session, {
+      action: "assistanceTemplate.deleted",
+      entity: "assistanceTemplate",
+      targetId: id,
+      before: template,
+      after: null,
+    })
 
     return { success: true, message: "Assistance template deleted successfully" }
   } catch (error) {
@@ -167,7 +197,7 @@ export async function deleteAssistanceTemplate(id: string): Promise<{ success: b
     return { success: false, message: "Failed to delete assistance template" }
   } finally {
     revalidatePath("/admin/assistance-templates")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
@@ -175,21 +205,30 @@ export async function deleteAssistanceTemplate(id: string): Promise<{ success: b
 export async function toggleTemplateStatus(
   id: string,
   isActive: boolean,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Validate the ID
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid assistance template ID" }
     }
 
     // Update the template's isActive status
-    await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).updateOne({ _id: objectId }, { $set: { isActive } })
+    const before = await updateAssistanceTemplateById(id, { isActive })
+
+    if (!before) {
+      return { success: false, message: "Assistance template not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: isActive ? "assistanceTemplate.activated" : "assistanceTemplate.deactivated",
+      entity: "assistanceTemplate",
+      targetId: id,
+      before,
+      after: { ...before, isActive },
+    })
 
     return {
       success: true,
@@ -200,7 +239,7 @@ export async function toggleTemplateStatus(
     return { success: false, message: "Failed to toggle template status" }
   } finally {
     revalidatePath("/admin/assistance-templates")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
@@ -208,21 +247,30 @@ export async function toggleTemplateStatus(
 export async function updateTemplateOrder(
   id: string,
   newOrder: number,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Validate the ID
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid assistance template ID" }
     }
 
     // Update the template's listOrder
-    await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).updateOne({ _id: objectId }, { $set: { listOrder: newOrder } })
+    const before = await updateAssistanceTemplateById(id, { listOrder: newOrder })
+
+    if (!before) {
+      return { success: false, message: "Assistance template not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: "assistanceTemplate.reordered",
+      entity: "assistanceTemplate",
+      targetId: id,
+      before,
+      after: { ...before, listOrder: newOrder },
+    })
 
     return { success: true, message: "Template order updated successfully" }
   } catch (error) {
@@ -230,6 +278,6 @@ export async function updateTemplateOrder(
     return { success: false, message: "Failed to update template order" }
   } finally {
     revalidatePath("/admin/assistance-templates")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
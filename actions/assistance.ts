@@ -1,62 +1,70 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import { describeBlackoutConflicts, findBlackoutConflicts } from "@/lib/blackouts"
+import { getSlotCapacity, type ScheduleAvailability } from "@/lib/booking-capacity"
+import { generateEditToken } from "@/lib/booking-tokens"
+import { getCustomerSession } from "@/lib/customer-session"
+import { checkRateLimit } from "@/lib/rate-limit"
 import {
-  type AssistanceType,
-  type Booking,
-  ASSISTANCE_TYPES_COLLECTION,
-  BOOKINGS_COLLECTION,
-} from "@/models/assistance"
-
-// Helper function to generate a request number
-function generateRequestNumber(characterId: string): string {
-  const timestamp = Date.now().toString().slice(-6) // Last 6 digits of timestamp
-  const randomPart = Math.floor(Math.random() * 1000)
-    .toString()
-    .padStart(3, "0") // 3-digit random number
-  return `REQ-${characterId}-${timestamp}${randomPart}`
+  convertSchedule,
+  crossesMidnight,
+  describeCrossesMidnight,
+  getServerSchedule,
+  SERVER_TIME_ZONE,
+} from "@/lib/schedule-time-zone"
+import {
+  findAssistanceTypes,
+  findAssistanceTypeById,
+  updateAssistanceTypeById,
+} from "@/lib/repositories/assistance-types"
+import { updateTemplatesGameForType } from "@/lib/repositories/assistance-templates"
+import { findBlackouts } from "@/lib/repositories/blackouts"
+import {
+  bookingInputSchema,
+  findScheduleAvailability,
+  findWaitlistPosition,
+  hasActiveBooking,
+  insertBooking,
+} from "@/lib/repositories/bookings"
+import { nextSequence } from "@/lib/repositories/counters"
+import { findGameById } from "@/lib/repositories/games"
+import { releaseScheduleSlots, reserveScheduleSlots } from "@/lib/repositories/schedule-slots"
+import { firstIssueMessage, isDuplicateKeyError, isObjectIdString } from "@/lib/repositories/shared"
+import { type AssistanceType, type Booking, ACTIVE_BOOKING_INDEX } from "@/models/assistance"
+import { GAME_PAGE_ROUTE } from "@/models/game"
+
+const DUPLICATE_BOOKING_MESSAGE =
+  "You already have an active request for this assistance type. Please wait until it's completed or cancelled before requesting again."
+
+// Request numbers come from an atomic counter so concurrent bookings never share one
+async function generateRequestNumber(characterId: string): Promise<string> {
+  const sequence = await nextSequence("requestNumber")
+  return `REQ-${characterId}-${sequence.toString().padStart(6, "0")}`
 }
 
-// Get all active assistance types
-export async function getAssistanceTypes(): Promise<AssistanceType[]> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const assistanceTypes = await db
-      .collection(ASSISTANCE_TYPES_COLLECTION)
-      .find({ isActive: true })
-      .sort({ listOrder: 1 }) // Sort by listOrder instead of name
-      .toArray()
+// Photo URLs and selected days are posted as JSON strings
+function parseJsonField(formData: FormData, name: string): unknown {
+  const value = formData.get(name) as string
+  if (!value) return undefined
 
-    return JSON.parse(JSON.stringify(assistanceTypes))
+  try {
+    return JSON.parse(value)
   } catch (error) {
-    console.error("Error fetching assistance types:", error)
-    throw new Error("Failed to fetch assistance types")
+    console.error(`Error parsing ${name}:`, error)
+    return undefined
   }
 }
 
-// Check if a duplicate booking exists
-export async function checkDuplicateBooking(characterId: string, assistanceTypeId: string): Promise<boolean> {
+// Get all active assistance types, optionally only those for one game
+export async function getAssistanceTypes(gameId?: string): Promise<AssistanceType[]> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    // Find any active bookings (not cancelled) with the same character ID and assistance type
-    const existingBooking = await db.collection(BOOKINGS_COLLECTION).findOne({
-      characterId,
-      assistanceTypeId: new ObjectId(assistanceTypeId),
-      status: { $ne: "cancelled" }, // Not equal to cancelled
-    })
-
-    // Return true if a duplicate exists
-    return !!existingBooking
+    return await findAssistanceTypes({ activeOnly: true, gameId })
   } catch (error) {
-    console.error("Error checking for duplicate booking:", error)
-    // In case of error, assume no duplicate to avoid blocking legitimate requests
-    return false
+    console.error("Error fetching assistance types:", error)
+    throw new Error("Failed to fetch assistance types")
   }
 }
 
@@ -66,182 +74,155 @@ export async function createBooking(formData: FormData): Promise<{
   message: string
   booking?: Partial<Booking>
   requestNumber?: string
+  editToken?: string
   isDuplicate?: boolean
+  waitlistPosition?: number // Set when the schedule was full and the booking joined the waitlist
+  code?: "rate_limited"
+  retryAfter?: number
 }> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const characterId = formData.get("characterId") as string
-    const contactInfo = formData.get("contactInfo") as string
-    const assistanceTypeId = formData.get("assistanceTypeId") as string
-    const additionalInfo = formData.get("additionalInfo") as string
-
-    // These might be empty for assistance types with scheduling disabled
-    const startDateTime = formData.get("startDateTime") ? new Date(formData.get("startDateTime") as string) : new Date()
-    const endDateTime = formData.get("endDateTime")
-      ? new Date(formData.get("endDateTime") as string)
-      : new Date(Date.now() + 3600000)
-
-    // Get photo URLs from JSON string
-    const photoUrlsJson = formData.get("photoUrls") as string
-    let photoUrls = []
-    try {
-      if (photoUrlsJson) {
-        photoUrls = JSON.parse(photoUrlsJson)
-      }
-    } catch (error) {
-      console.error("Error parsing photo URLs:", error)
-      // Continue with empty array if parsing fails
-    }
+    const parsed = bookingInputSchema.safeParse({
+      characterId: (formData.get("characterId") as string) || "",
+      contactInfo: (formData.get("contactInfo") as string) || "",
+      assistanceTypeId: (formData.get("assistanceTypeId") as string) || "",
+      additionalInfo: (formData.get("additionalInfo") as string) || "",
+      photoUrls: parseJsonField(formData, "photoUrls"),
+      selectedDays: parseJsonField(formData, "selectedDays"),
+      timeRangePreset: (formData.get("timeRangePreset") as string) || undefined,
+      startTime: (formData.get("startTime") as string) || undefined,
+      endTime: (formData.get("endTime") as string) || undefined,
+      slots: Number.parseInt((formData.get("slots") as string) || "1", 10),
+      willingToDonate: formData.get("willingToDonate"),
+      timeZone: formData.get("timeZone"),
+    })
 
-    // Get new fields from the form
-    let selectedDays = []
-    try {
-      const selectedDaysJson = formData.get("selectedDays") as string
-      if (selectedDaysJson) {
-        selectedDays = JSON.parse(selectedDaysJson)
-      }
-    } catch (error) {
-      console.error("Error parsing selected days:", error)
-      // Continue with empty array if parsing fails
+    if (!parsed.success) {
+      return { success: false, message: firstIssueMessage(parsed.error, "All required fields must be provided") }
     }
 
-    const timeRangePreset = (formData.get("timeRangePreset") as "early" | "middle" | "late" | "custom") || "early"
-    const startTime = (formData.get("startTime") as string) || ""
-    const endTime = (formData.get("endTime") as string) || ""
-    const slots = Number.parseInt((formData.get("slots") as string) || "1", 10)
-    const willingToDonate = (formData.get("willingToDonate") as "yes" | "no") || "no"
-
-    // Validate required fields
-    // Check for empty strings as well as undefined/null values
-    if (!characterId?.trim() || !contactInfo?.trim() || !assistanceTypeId?.trim() || !additionalInfo?.trim()) {
-      console.log("Missing or empty fields:", {
-        characterId: !characterId?.trim(),
-        contactInfo: !contactInfo?.trim(),
-        assistanceTypeId: !assistanceTypeId?.trim(),
-        additionalInfo: !additionalInfo?.trim(),
-      })
-
-      // Provide more specific error message
-      if (!characterId?.trim()) return { success: false, message: "Character ID is required" }
-      if (!contactInfo?.trim()) return { success: false, message: "Contact information is required" }
-      if (!assistanceTypeId?.trim()) return { success: false, message: "Please select an assistance type" }
-      if (!additionalInfo?.trim()) return { success: false, message: "Additional information is required" }
-
-      return { success: false, message: "All required fields must be provided" }
-    }
+    const { characterId, contactInfo, assistanceTypeId, additionalInfo, photoUrls } = parsed.data
+    const { timeRangePreset, slots, willingToDonate, timeZone } = parsed.data
 
-    // Also ensure the assistanceTypeId is a valid ObjectId
-    try {
-      new ObjectId(assistanceTypeId)
-    } catch (error) {
+    const rateLimit = await checkRateLimit("createBooking", [characterId, contactInfo])
+    if (!rateLimit.allowed) return rateLimit.result
+
+    // Get assistance type name for reference
+    const assistanceType = await findAssistanceTypeById(assistanceTypeId)
+
+    if (!assistanceType) {
       return { success: false, message: "Invalid assistance type selected" }
     }
 
-    // Validate character ID is numeric
-    if (!/^\d+$/.test(characterId)) {
-      return { success: false, message: "Character ID must contain only numbers" }
-    }
+    // Check if scheduling is disabled for this assistance type
+    const isSchedulingDisabled = assistanceType.allowSchedule === false
 
-    // Check for duplicate booking
-    const isDuplicate = await checkDuplicateBooking(characterId, assistanceTypeId)
-    if (isDuplicate) {
-      return {
-        success: false,
-        message:
-          "You already have an active request for this assistance type. Please wait until it's completed or cancelled before requesting again.",
-        isDuplicate: true,
-      }
+    // The schedule was picked in the customer's zone, it's stored and counted against capacity in server time
+    const { selectedDays, startTime, endTime } = convertSchedule(parsed.data, timeZone, SERVER_TIME_ZONE)
+    if (!isSchedulingDisabled && crossesMidnight({ selectedDays, startTime, endTime })) {
+      return { success: false, message: describeCrossesMidnight() }
     }
 
-    // Get assistance type name for reference
-    const assistanceType = await db
-      .collection(ASSISTANCE_TYPES_COLLECTION)
-      .findOne({ _id: new ObjectId(assistanceTypeId) })
-
-    if (!assistanceType) {
-      return { success: false, message: "Invalid assistance type selected" }
+    // Nothing can be booked into a blackout, preset times are filled in so they are checked too
+    const blackouts = await findBlackouts({ endingAfter: new Date(), assistanceTypeId })
+    const serverSchedule = isSchedulingDisabled
+      ? { selectedDays: [] }
+      : getServerSchedule({ selectedDays, timeRangePreset, startTime, endTime })
+    const blackoutConflicts = findBlackoutConflicts(serverSchedule, blackouts)
+    if (blackoutConflicts.length > 0) {
+      return { success: false, message: describeBlackoutConflicts(blackoutConflicts, !isSchedulingDisabled) }
     }
 
-    const now = new Date()
+    // Use empty or default values if scheduling is disabled
+    const schedule = isSchedulingDisabled
+      ? { selectedDays: [], timeRangePreset: "early" as const, startTime: undefined, endTime: undefined, slots: 1 }
+      : { selectedDays, timeRangePreset, startTime: startTime || undefined, endTime: endTime || undefined, slots }
 
     // Generate a unique request number
-    const requestNumber = generateRequestNumber(characterId)
+    const requestNumber = await generateRequestNumber(characterId)
 
-    // Check if scheduling is disabled for this assistance type
-    const isSchedulingDisabled = assistanceType.allowSchedule === false
+    // The customer needs this token to edit, cancel or comment on the booking later
+    const editToken = generateEditToken()
+
+    // Link the booking to the customer's account when they booked while signed in
+    const customer = await getCustomerSession()
+
+    // The slots are claimed right before inserting, one conditional update per day and time range,
+    // so two bookings racing for the last slots can't both get them. Bookings that don't fit join the waitlist.
+    const slotHolder = { assistanceTypeId, ...schedule }
+    const isWaitlisted = !(await reserveScheduleSlots(slotHolder, getSlotCapacity(assistanceType)))
+    const status = isWaitlisted ? "waitlisted" : "pending"
 
-    // Replace the existing startDateTime and endDateTime in the booking object
-    const booking: Booking = {
+    const now = new Date()
+
+    const booking = await insertBooking({
       requestNumber,
       characterId,
       contactInfo,
-      // Store assistanceTypeId as a string instead of ObjectId to avoid serialization issues
-      assistanceTypeId: assistanceTypeId,
+      assistanceTypeId,
       assistanceTypeName: assistanceType.name,
       additionalInfo,
       photoUrls: photoUrls.length > 0 ? photoUrls : undefined,
-
-      // New fields - use empty or default values if scheduling is disabled
-      selectedDays: isSchedulingDisabled ? [] : selectedDays,
-      timeRangePreset: isSchedulingDisabled ? "early" : timeRangePreset,
-      startTime: isSchedulingDisabled ? undefined : startTime || undefined,
-      endTime: isSchedulingDisabled ? undefined : endTime || undefined,
-      slots: isSchedulingDisabled ? 1 : slots,
+      ...schedule,
       willingToDonate,
+      timeZone,
 
-      // Legacy fields
-      startDateTime: startDateTime || now,
-      endDateTime: endDateTime || new Date(now.getTime() + 3600000),
-
-      status: "pending",
+      status,
+      statusHistory: [{ to: status, actorType: "customer", actor: customer?.email ?? characterId, changedAt: now }],
+      editTokenHash: editToken.hash,
+      customerId: customer?.id,
       createdAt: now,
       updatedAt: now,
-    }
-
-    // For database insertion, convert the assistanceTypeId back to ObjectId
-    const dbBooking = {
-      ...booking,
-      assistanceTypeId: new ObjectId(assistanceTypeId),
-    }
+    }).catch(async (error) => {
+      // The booking never made it in, so the slots it claimed go back
+      if (!isWaitlisted) await releaseScheduleSlots(slotHolder)
 
-    // Insert booking into database
-    const result = await db.collection(BOOKINGS_COLLECTION).insertOne(dbBooking)
+      // The unique index rejects a second active booking for the same character and type, even under a race
+      if (isDuplicateKeyError(error, ACTIVE_BOOKING_INDEX)) return null
+      throw error
+    })
 
-    // Return a sanitized version of the booking object without any ObjectId instances
-    // Use a new object to avoid modifying the original
-    const sanitizedBooking = {
-      ...booking,
-      _id: result.insertedId.toString(),
+    if (!booking) {
+      return { success: false, message: DUPLICATE_BOOKING_MESSAGE, isDuplicate: true }
     }
 
+    const waitlistPosition = isWaitlisted ? await findWaitlistPosition(booking) : undefined
+
     return {
       success: true,
-      message: "Booking created successfully",
-      booking: sanitizedBooking,
+      message: waitlistPosition
+        ? `Booking added to the waitlist at position ${waitlistPosition}`
+        : "Booking created successfully",
+      booking,
       requestNumber,
+      editToken: editToken.token,
+      waitlistPosition,
     }
   } catch (error) {
     console.error("Error creating booking:", error)
     return { success: false, message: "Failed to create booking" }
   } finally {
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
-export async function getBookings(): Promise<Booking[]> {
+// Slots taken per day and time range for an assistance type, for the booking form's schedule step
+export async function getScheduleAvailability(assistanceTypeId: string): Promise<ScheduleAvailability> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const bookings = await db.collection(BOOKINGS_COLLECTION).find({}).sort({ createdAt: -1 }).toArray()
+    const assistanceType = await findAssistanceTypeById(assistanceTypeId)
+    return assistanceType ? await findScheduleAvailability(assistanceType) : { capacity: 0, usage: {} }
+  } catch (error) {
+    console.error("Error fetching schedule availability:", error)
+    return { capacity: 0, usage: {} }
+  }
+}
 
-    // Convert to plain objects to ensure no ObjectId instances are returned
-    return JSON.parse(JSON.stringify(bookings))
+// Lets the booking form warn about a duplicate before the donation step, createBooking still enforces it
+export async function hasActiveRequest(characterId: string, assistanceTypeId: string): Promise<boolean> {
+  try {
+    return await hasActiveBooking(characterId.trim(), assistanceTypeId)
   } catch (error) {
-    console.error("Error fetching bookings:", error)
-    throw new Error("Failed to fetch bookings")
+    console.error("Error checking for an active booking:", error)
+    return false
   }
 }
 
@@ -270,120 +251,34 @@ export async function addBookingToRecent(booking: Booking): Promise<void> {
   }
 }
 
-// Initialize default assistance types if none exist
-export async function initializeAssistanceTypes(): Promise<void> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
-
-    // Check if assistance types already exist
-    const count = await db.collection(ASSISTANCE_TYPES_COLLECTION).countDocuments()
-
-    if (count === 0) {
-      // Insert default assistance types with listOrder
-      const defaultTypes: AssistanceType[] = [
-        {
-          name: "Leveling Assistance",
-          description: "Help with power leveling your character",
-          isActive: true,
-          listOrder: 1,
-          allowPhotoUpload: false,
-          allowSchedule: true,
-        },
-        {
-          name: "Boss Hunting",
-          description: "Assistance with defeating MVP or mini-boss monsters",
-          isActive: true,
-          listOrder: 2,
-          allowPhotoUpload: true, // Enable photo uploads for boss hunting
-          allowSchedule: true,
-        },
-        {
-          name: "Quest Completion",
-          description: "Help completing difficult quests or missions",
-          isActive: true,
-          listOrder: 3,
-          allowPhotoUpload: true, // Enable photo uploads for quest completion
-          allowSchedule: true,
-        },
-        {
-          name: "Item Farming",
-          description: "Assistance with farming specific items or materials",
-          isActive: true,
-          listOrder: 4,
-          allowPhotoUpload: false,
-          allowSchedule: true,
-        },
-        {
-          name: "Build Consultation",
-          description: "Expert advice on character builds and skill allocation",
-          isActive: true,
-          listOrder: 5,
-          allowPhotoUpload: false,
-          allowSchedule: false, // Disable scheduling for consultation
-        },
-        {
-          name: "Equipment Enhancement",
-          description: "Help with upgrading and enhancing equipment",
-          isActive: true,
-          listOrder: 6,
-          allowPhotoUpload: true, // Enable photo uploads for equipment enhancement
-          allowSchedule: false, // Disable scheduling for enhancement
-        },
-      ]
-
-      await db.collection(ASSISTANCE_TYPES_COLLECTION).insertMany(defaultTypes)
-    } else {
-      // Update existing assistance types to add listOrder and allowPhotoUpload if they don't exist
-      const assistanceTypes = await db.collection(ASSISTANCE_TYPES_COLLECTION).find({}).toArray()
-
-      for (let i = 0; i < assistanceTypes.length; i++) {
-        const type = assistanceTypes[i]
-        const updates: Partial<AssistanceType> = {}
-
-        if (type.listOrder === undefined) {
-          updates.listOrder = i + 1
-        }
-
-        if (type.allowPhotoUpload === undefined) {
-          // Default to false for existing types
-          updates.allowPhotoUpload = false
-        }
-
-        if (type.allowSchedule === undefined) {
-          // Default to true for existing types
-          updates.allowSchedule = true
-        }
-
-        if (Object.keys(updates).length > 0) {
-          await db.collection(ASSISTANCE_TYPES_COLLECTION).updateOne({ _id: type._id }, { $set: updates })
-        }
-      }
-    }
-  } catch (error) {
-    console.error("Error initializing assistance types:", error)
-  }
-}
-
 // Add a function to update the listOrder of an assistance type
 export async function updateAssistanceTypeOrder(
   id: string,
   newOrder: number,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Validate the ID
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid assistance type ID" }
     }
 
     // Update the listOrder
-    await db.collection(ASSISTANCE_TYPES_COLLECTION).updateOne({ _id: objectId }, { $set: { listOrder: newOrder } })
+    const before = await updateAssistanceTypeById(id, { listOrder: newOrder })
+
+    if (!before) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: "assistanceType.reordered",
+      entity: "assistanceType",
+      targetId: id,
+      before,
+      after: { ...before, listOrder: newOrder },
+    })
 
     return { success: true, message: "Assistance type order updated successfully" }
   } catch (error) {
@@ -391,7 +286,7 @@ export async function updateAssistanceTypeOrder(
     return { success: false, message: "Failed to update assistance type order" }
   } finally {
     revalidatePath("/admin/assistance-types")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
@@ -399,21 +294,30 @@ export async function updateAssistanceTypeOrder(
 export async function toggleAssistanceTypePhotoUpload(
   id: string,
   allowPhotoUpload: boolean,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Validate the ID
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid assistance type ID" }
     }
 
     // Update the allowPhotoUpload flag
-    await db.collection(ASSISTANCE_TYPES_COLLECTION).updateOne({ _id: objectId }, { $set: { allowPhotoUpload } })
+    const before = await updateAssistanceTypeById(id, { allowPhotoUpload })
+
+    if (!before) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: allowPhotoUpload ? "assistanceType.photo_upload_enabled" : "assistanceType.photo_upload_disabled",
+      entity: "assistanceType",
+      targetId: id,
+      before,
+      after: { ...before, allowPhotoUpload },
+    })
 
     return {
       success: true,
@@ -424,7 +328,7 @@ export async function toggleAssistanceTypePhotoUpload(
     return { success: false, message: "Failed to update photo upload setting" }
   } finally {
     revalidatePath("/admin/assistance-types")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
@@ -432,21 +336,30 @@ export async function toggleAssistanceTypePhotoUpload(
 export async function toggleAssistanceTypeSchedule(
   id: string,
   allowSchedule: boolean,
-): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Validate the ID
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid assistance type ID" }
     }
 
     // Update the allowSchedule flag
-    await db.collection(ASSISTANCE_TYPES_COLLECTION).updateOne({ _id: objectId }, { $set: { allowSchedule } })
+    const before = await updateAssistanceTypeById(id, { allowSchedule })
+
+    if (!before) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: allowSchedule ? "assistanceType.schedule_enabled" : "assistanceType.schedule_disabled",
+      entity: "assistanceType",
+      targetId: id,
+      before,
+      after: { ...before, allowSchedule },
+    })
 
     return {
       success: true,
@@ -457,6 +370,97 @@ export async function toggleAssistanceTypeSchedule(
     return { success: false, message: "Failed to update schedule setting" }
   } finally {
     revalidatePath("/admin/assistance-types")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
+  }
+}
+
+// Move an assistance type, and its templates, to another game
+export async function updateAssistanceTypeGame(
+  id: string,
+  gameId: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
+  try {
+    if (!isObjectIdString(id)) {
+      return { success: false, message: "Invalid assistance type ID" }
+    }
+
+    const game = await findGameById(gameId)
+    if (!game) {
+      return { success: false, message: "Game not found" }
+    }
+
+    const before = await updateAssistanceTypeById(id, { gameId })
+
+    if (!before) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    await updateTemplatesGameForType(id, gameId)
+
+    await recordAudit(auth.session, {
+      action: "assistanceType.game_changed",
+      entity: "assistanceType",
+      targetId: id,
+      before,
+      after: { ...before, gameId },
+    })
+
+    return { success: true, message: `${before.name} moved to ${game.name}` }
+  } catch (error) {
+    console.error("Error updating assistance type game:", error)
+    return { success: false, message: "Failed to update assistance type game" }
+  } finally {
+    revalidatePath("/admin/assistance-types")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
+  }
+}
+
+// Set the most slots that can be booked for one day and time range, 0 removes the limit
+export async function updateAssistanceTypeCapacity(
+  id: string,
+  maxSlotsPerWindow: number,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
+  try {
+    if (!isObjectIdString(id)) {
+      return { success: false, message: "Invalid assistance type ID" }
+    }
+
+    if (!Number.isInteger(maxSlotsPerWindow) || maxSlotsPerWindow < 0) {
+      return { success: false, message: "Capacity must be a whole number, 0 for no limit" }
+    }
+
+    const before = await updateAssistanceTypeById(id, { maxSlotsPerWindow })
+
+    if (!before) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: "assistanceType.capacity_changed",
+      entity: "assistanceType",
+      targetId: id,
+      before,
+      after: { ...before, maxSlotsPerWindow },
+    })
+
+    return {
+      success: true,
+      message:
+        maxSlotsPerWindow > 0
+          ? `${before.name} now allows ${maxSlotsPerWindow} slots per day and time range`
+          : `${before.name} no longer limits slots`,
+    }
+  } catch (error) {
+    console.error("Error updating assistance type capacity:", error)
+    return { success: false, message: "Failed to update capacity" }
+  } finally {
+    revalidatePath("/admin/assistance-types")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
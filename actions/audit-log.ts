@@ -0,0 +1,76 @@
+"use server"
+
+import type { Filter } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { requireAdmin } from "@/lib/admin-guard"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import { type AuditEntity, type AuditLogEntry, AUDIT_LOG_COLLECTION } from "@/models/audit-log"
+
+const MAX_ENTRIES = 200
+
+export interface AuditLogFilters {
+  actorEmail?: string
+  entity?: AuditEntity
+  from?: string // yyyy-MM-dd, inclusive
+  to?: string // yyyy-MM-dd, inclusive
+}
+
+// Get the most recent audit log entries matching the filters
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  try {
+    const client = await clientPromise
+    const db = client.db()
+
+    const query: Filter<AuditLogEntry> = {}
+
+    if (filters.actorEmail) {
+      query.actorEmail = filters.actorEmail
+    }
+
+    if (filters.entity) {
+      query.entity = filters.entity
+    }
+
+    if (filters.from || filters.to) {
+      query.createdAt = {
+        ...(filters.from ? { $gte: new Date(`${filters.from}T00:00:00`) } : {}),
+        ...(filters.to ? { $lte: new Date(`${filters.to}T23:59:59.999`) } : {}),
+      }
+    }
+
+    const entries = await db
+      .collection<AuditLogEntry>(AUDIT_LOG_COLLECTION)
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(MAX_ENTRIES)
+      .toArray()
+
+    return JSON.parse(JSON.stringify(entries))
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    throw new Error("Failed to fetch audit log")
+  }
+}
+
+// Get every staff email that appears in the audit log, for the actor filter
+export async function getAuditActors(): Promise<string[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  try {
+    const client = await clientPromise
+    const actors = await client.db().collection<AuditLogEntry>(AUDIT_LOG_COLLECTION).distinct("actorEmail")
+
+    return actors.sort()
+  } catch (error) {
+    console.error("Error fetching audit log actors:", error)
+    throw new Error("Failed to fetch audit log actors")
+  }
+}
@@ -0,0 +1,139 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import {
+  blackoutInputSchema,
+  deleteBlackoutById,
+  findBlackouts,
+  insertBlackout,
+  updateBlackoutById,
+  type BlackoutInput,
+} from "@/lib/repositories/blackouts"
+import { findAssistanceTypeById } from "@/lib/repositories/assistance-types"
+import { firstIssueMessage, isObjectIdString } from "@/lib/repositories/shared"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import type { Blackout } from "@/models/blackout"
+
+// Get every blackout including past ones, for the admin console
+export async function getBlackouts(): Promise<Blackout[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  try {
+    return await findBlackouts()
+  } catch (error) {
+    console.error("Error fetching blackouts:", error)
+    throw new Error("Failed to fetch blackouts")
+  }
+}
+
+// Blackouts that haven't ended for an assistance type, for the booking form's schedule step
+export async function getUpcomingBlackouts(assistanceTypeId: string): Promise<Blackout[]> {
+  try {
+    if (!isObjectIdString(assistanceTypeId)) return []
+    return await findBlackouts({ endingAfter: new Date(), assistanceTypeId })
+  } catch (error) {
+    console.error("Error fetching upcoming blackouts:", error)
+    return []
+  }
+}
+
+// Create a blackout, or update it when an id is given
+export async function saveBlackout(
+  input: Partial<Record<keyof BlackoutInput, string>>,
+  id?: string,
+): Promise<{ success: boolean; message: string; blackout?: Blackout; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
+  const parsed = blackoutInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, message: firstIssueMessage(parsed.error) }
+  }
+
+  const { assistanceTypeId, startsAt, endsAt, reason } = parsed.data
+
+  try {
+    if (assistanceTypeId && !(await findAssistanceTypeById(assistanceTypeId))) {
+      return { success: false, message: "Assistance type not found" }
+    }
+
+    const changes = { assistanceTypeId: assistanceTypeId || undefined, startsAt, endsAt, reason, updatedAt: new Date() }
+
+    if (id) {
+      if (!isObjectIdString(id)) {
+        return { success: false, message: "Invalid blackout ID" }
+      }
+
+      const before = await updateBlackoutById(id, changes)
+      if (!before) {
+        return { success: false, message: "Blackout not found" }
+      }
+
+      const blackout = { ...before, ...changes }
+      await recordAudit(auth.session, {
+        action: "blackout.updated",
+        entity: "blackout",
+        targetId: id,
+        before,
+        after: blackout,
+      })
+
+      return { success: true, message: "Blackout updated successfully", blackout }
+    }
+
+    const blackout = await insertBlackout({
+      ...changes,
+      createdBy: auth.session.user.email || undefined,
+      createdAt: new Date(),
+    })
+
+    await recordAudit(auth.session, {
+      action: "blackout.created",
+      entity: "blackout",
+      targetId: blackout._id as string,
+      before: null,
+      after: blackout,
+    })
+
+    return { success: true, message: "Blackout added successfully", blackout }
+  } catch (error) {
+    console.error("Error saving blackout:", error)
+    return { success: false, message: "Failed to save blackout" }
+  } finally {
+    revalidatePath("/admin/blackouts")
+    revalidatePath("/admin/assistance-requests")
+  }
+}
+
+export async function deleteBlackout(id: string): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
+  try {
+    const blackout = await deleteBlackoutById(id)
+    if (!blackout) {
+      return { success: false, message: "Blackout not found" }
+    }
+
+    await recordAudit(auth.session, {
+      action: "blackout.deleted",
+      entity: "blackout",
+      targetId: id,
+      before: blackout,
+      after: null,
+    })
+
+    return { success: true, message: "Blackout removed successfully" }
+  } catch (error) {
+    console.error("Error deleting blackout:", error)
+    return { success: false, message: "Failed to remove blackout" }
+  } finally {
+    revalidatePath("/admin/blackouts")
+    revalidatePath("/admin/assistance-requests")
+  }
+}
@@ -1,45 +1,88 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
-import { COMMENTS_COLLECTION } from "@/models/comment"
-import type { Comment } from "@/models/comment"
+import { requireAdmin } from "@/lib/admin-guard"
+import { canManageBooking } from "@/lib/customer-session"
+import { checkRateLimit } from "@/lib/rate-limit"
+import { findBookingDocument } from "@/lib/repositories/bookings"
+import {
+  countUnreadComments,
+  findCommentsByRequest,
+  insertComment,
+  markCommentsRead,
+} from "@/lib/repositories/comments"
+import { isObjectIdString } from "@/lib/repositories/shared"
+import { findStaffUserById } from "@/lib/staff-users"
+import { type Comment, STAFF_AUTHOR_NAME } from "@/models/comment"
 
 // Add a comment to a request
+// Staff comment with their session, customers must supply the booking's edit token or own the booking
+// Staff replies are signed with the name of the staff member the request is assigned to, authorName is ignored
 export async function addComment(
   requestId: string,
   content: string,
   isAdmin: boolean,
   authorName?: string,
-): Promise<{ success: boolean; message: string; comment?: Comment }> {
+  editToken?: string | null,
+): Promise<{
+  success: boolean
+  message: string
+  comment?: Comment
+  code?: "forbidden" | "rate_limited"
+  retryAfter?: number
+}> {
   try {
     if (!requestId || !content.trim()) {
       return { success: false, message: "Request ID and comment content are required" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
+    if (!isObjectIdString(requestId)) {
+      return { success: false, message: "Request not found" }
+    }
+
+    if (isAdmin) {
+      const auth = await requireAdmin()
+      if (!auth.authorized) return auth.result
+
+      const booking = await findBookingDocument(requestId)
+
+      if (!booking) {
+        return { success: false, message: "Request not found" }
+      }
+
+      // Never fall back to the email, customers see this name
+      const assignee = booking.assignedTo ? await findStaffUserById(booking.assignedTo.toString()) : null
+      authorName = assignee?.name || STAFF_AUTHOR_NAME
+    } else {
+      const rateLimit = await checkRateLimit("addComment", [requestId])
+      if (!rateLimit.allowed) return rateLimit.result
+
+      const booking = await findBookingDocument(requestId)
 
-    // Create the comment object
-    const comment: Comment = {
-      requestId: new ObjectId(requestId),
+      if (!booking) {
+        return { success: false, message: "Request not found" }
+      }
+
+      if (!(await canManageBooking(booking, editToken))) {
+        return {
+          success: false,
+          message: "Comments can only be added from the request's private link or the account it belongs to",
+          code: "forbidden",
+        }
+      }
+    }
+
+    // Insert the comment
+    const comment = await insertComment({
+      requestId,
       content: content.trim(),
       createdAt: new Date(),
       isAdmin,
       authorName,
       isRead: false, // New comments are unread by default
-    }
-
-    // Insert the comment
-    const result = await db.collection(COMMENTS_COLLECTION).insertOne(comment)
+    })
 
-    // Return the comment with the generated ID
-    return {
-      success: true,
-      message: "Comment added successfully",
-      comment: { ...comment, _id: result.insertedId },
-    }
+    return { success: true, message: "Comment added successfully", comment }
   } catch (error) {
     console.error("Error adding comment:", error)
     return { success: false, message: "Failed to add comment" }
@@ -55,18 +98,8 @@ export async function getComments(requestId: string): Promise<Comment[]> {
       return []
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
     // Get comments for the request, sorted by creation date
-    const comments = await db
-      .collection(COMMENTS_COLLECTION)
-      .find({ requestId: new ObjectId(requestId) })
-      .sort({ createdAt: 1 })
-      .toArray()
-
-    // Convert to plain objects to ensure no ObjectId instances are returned
-    return JSON.parse(JSON.stringify(comments))
+    return await findCommentsByRequest(requestId)
   } catch (error) {
     console.error("Error getting comments:", error)
     return []
@@ -83,19 +116,9 @@ export async function markCommentsAsRead(
       return { success: false, message: "Request ID is required" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
     // Mark comments as read based on who is viewing them
     // Admin sees customer comments, customer sees admin comments
-    await db.collection(COMMENTS_COLLECTION).updateMany(
-      {
-        requestId: new ObjectId(requestId),
-        isAdmin: !isAdmin, // Mark comments from the other party as read
-        isRead: false, // Only update unread comments
-      },
-      { $set: { isRead: true } },
-    )
+    await markCommentsRead(requestId, !isAdmin)
 
     return { success: true, message: "Comments marked as read" }
   } catch (error) {
@@ -113,17 +136,9 @@ export async function getUnreadCommentsCount(requestId: string, isAdmin: boolean
       return 0
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    // Count unread comments based on who is viewing them
-    const count = await db.collection(COMMENTS_COLLECTION).countDocuments({
-      requestId: new ObjectId(requestId),
-      isAdmin: !isAdmin, // Count comments from the other party
-      isRead: false,
-    })
-
-    return count
+    // Count unread comments from the other party
+    const counts = await countUnreadComments([requestId], !isAdmin)
+    return counts[requestId] || 0
   } catch (error) {
     console.error("Error getting unread comments count:", error)
     return 0
@@ -137,30 +152,8 @@ export async function getUnreadCommentsCounts(requestIds: string[], isAdmin: boo
       return {}
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    // Convert string IDs to ObjectIds
-    const objectIds = requestIds.map((id) => new ObjectId(id))
-
-    // Get all unread comments for the specified requests
-    const unreadComments = await db
-      .collection(COMMENTS_COLLECTION)
-      .find({
-        requestId: { $in: objectIds },
-        isAdmin: !isAdmin, // Count comments from the other party
-        isRead: false,
-      })
-      .toArray()
-
-    // Count unread comments per request
-    const counts: Record<string, number> = {}
-    unreadComments.forEach((comment) => {
-      const requestId = comment.requestId.toString()
-      counts[requestId] = (counts[requestId] || 0) + 1
-    })
-
-    return counts
+    // Count unread comments from the other party per request
+    return await countUnreadComments(requestIds, !isAdmin)
   } catch (error) {
     console.error("Error getting unread comments counts:", error)
     return {}
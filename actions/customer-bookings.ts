@@ -0,0 +1,69 @@
+"use server"
+
+import { verifyEditToken } from "@/lib/booking-tokens"
+import { getCustomerSession } from "@/lib/customer-session"
+import { findBookingDocuments, findBookingsByCustomer, linkBookingsToCustomer } from "@/lib/repositories/bookings"
+import { isObjectIdString } from "@/lib/repositories/shared"
+import type { Booking } from "@/models/assistance"
+
+// Get the bookings linked to the signed-in customer's account, newest first
+export async function getMyBookings(): Promise<Booking[]> {
+  try {
+    const customer = await getCustomerSession()
+    if (!customer) {
+      return []
+    }
+
+    return await findBookingsByCustomer(customer.id)
+  } catch (error) {
+    console.error("Error fetching customer bookings:", error)
+    return []
+  }
+}
+
+/**
+ * Links bookings made as a guest to the signed-in customer's account.
+ * Each booking must come with its edit token, so only bookings the browser already controls can be claimed,
+ * and bookings that already belong to an account are left alone.
+ * @param claims Booking ids with the edit tokens stored in this browser
+ * @returns The number of bookings linked to the account
+ */
+export async function claimBookings(
+  claims: { bookingId: string; editToken: string }[],
+): Promise<{ success: boolean; message: string; claimedCount: number }> {
+  try {
+    const customer = await getCustomerSession()
+    if (!customer) {
+      return { success: false, message: "Sign in to save requests to your account", claimedCount: 0 }
+    }
+
+    const validClaims = claims.filter((claim) => isObjectIdString(claim.bookingId))
+    if (validClaims.length === 0) {
+      return { success: true, message: "No requests to link", claimedCount: 0 }
+    }
+
+    const bookings = await findBookingDocuments(validClaims.map((claim) => claim.bookingId))
+
+    const claimableIds = bookings
+      .filter((booking) => {
+        const claim = validClaims.find((claim) => claim.bookingId === booking._id.toString())
+        return !booking.customerId && verifyEditToken(claim?.editToken, booking.editTokenHash)
+      })
+      .map((booking) => booking._id.toString())
+
+    if (claimableIds.length === 0) {
+      return { success: true, message: "No requests to link", claimedCount: 0 }
+    }
+
+    const claimedCount = await linkBookingsToCustomer(claimableIds, customer.id)
+
+    return {
+      success: true,
+      message: `${claimedCount} request(s) linked to your account`,
+      claimedCount,
+    }
+  } catch (error) {
+    console.error("Error claiming bookings:", error)
+    return { success: false, message: "Failed to link requests to your account", claimedCount: 0 }
+  }
+}
@@ -1,20 +1,26 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
 import { uploadImageToBlob, deleteImageFromBlob } from "@/lib/blob-utils"
-import { type FeaturedToon, FEATURED_TOON_COLLECTION } from "@/models/featured-toon"
-
-// Get all featured toons
-export async function getFeaturedToons(): Promise<FeaturedToon[]> {
+import {
+  deleteFeaturedToonById,
+  featuredToonInputSchema,
+  findFeaturedToonByClass,
+  findFeaturedToonById,
+  findFeaturedToons,
+  insertFeaturedToon,
+  updateFeaturedToonById,
+} from "@/lib/repositories/featured-toons"
+import { firstIssueMessage } from "@/lib/repositories/shared"
+import type { FeaturedToon } from "@/models/featured-toon"
+import { GAME_PAGE_ROUTE } from "@/models/game"
+
+// Get all featured toons, optionally only those for one game
+export async function getFeaturedToons(gameId?: string): Promise<FeaturedToon[]> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const featuredToons = await db.collection(FEATURED_TOON_COLLECTION).find({}).sort({ characterClass: 1 }).toArray()
-
-    return JSON.parse(JSON.stringify(featuredToons))
+    return await findFeaturedToons({ gameId })
   } catch (error) {
     console.error("Error fetching featured toons:", error)
     throw new Error("Failed to fetch featured toons")
@@ -24,12 +30,7 @@ export async function getFeaturedToons(): Promise<FeaturedToon[]> {
 // Get a single featured toon by ID
 export async function getFeaturedToonById(id: string): Promise<FeaturedToon | null> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const featuredToon = await db.collection(FEATURED_TOON_COLLECTION).findOne({ _id: new ObjectId(id) })
-
-    return featuredToon ? JSON.parse(JSON.stringify(featuredToon)) : null
+    return await findFeaturedToonById(id)
   } catch (error) {
     console.error("Error fetching featured toon:", error)
     throw new Error("Failed to fetch featured toon")
@@ -39,12 +40,7 @@ export async function getFeaturedToonById(id: string): Promise<FeaturedToon | nu
 // Get a featured toon by character class
 export async function getFeaturedToonByClass(characterClass: string): Promise<FeaturedToon | null> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const featuredToon = await db.collection(FEATURED_TOON_COLLECTION).findOne({ characterClass })
-
-    return featuredToon ? JSON.parse(JSON.stringify(featuredToon)) : null
+    return await findFeaturedToonByClass(characterClass)
   } catch (error) {
     console.error("Error fetching featured toon by class:", error)
     throw new Error("Failed to fetch featured toon")
@@ -54,28 +50,34 @@ export async function getFeaturedToonByClass(characterClass: string): Promise<Fe
 // Create or update a featured toon
 export async function saveFeaturedToon(
   formData: FormData,
-): Promise<{ success: boolean; message: string; toon?: FeaturedToon }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+): Promise<{ success: boolean; message: string; toon?: FeaturedToon; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     const id = formData.get("id") as string
-    const characterClass = formData.get("characterClass") as string
-    const displayName = formData.get("displayName") as string
-    const description = formData.get("description") as string
     const imageFile = formData.get("image") as File | null
-    const currentImageUrl = formData.get("currentImageUrl") as string
+    const currentImageUrl = (formData.get("currentImageUrl") as string) || ""
 
-    if (!characterClass || !displayName) {
-      return { success: false, message: "Character class and display name are required" }
+    const parsed = featuredToonInputSchema.safeParse({
+      characterClass: (formData.get("characterClass") as string) || "",
+      displayName: (formData.get("displayName") as string) || "",
+      description: (formData.get("description") as string) || "",
+      gameId: (formData.get("gameId") as string) || "",
+    })
+
+    if (!parsed.success) {
+      return { success: false, message: firstIssueMessage(parsed.error) }
     }
 
+    const { characterClass, displayName, description, gameId } = parsed.data
+
     let imageUrl = currentImageUrl
 
     // If a new image was uploaded, process it
     if (imageFile && imageFile.size > 0) {
       // Upload the new image
-      imageUrl = await uploadImageToBlob(imageFile)
+      imageUrl = await uploadImageToBlob(imageFile, "featured-toons")
 
       // If updating and there's an existing image, delete the old one
       if (id && currentImageUrl) {
@@ -91,7 +93,8 @@ export async function saveFeaturedToon(
     const now = new Date()
 
     // Prepare the toon data
-    const toonData: FeaturedToon = {
+    const toonData = {
+      gameId,
       characterClass,
       displayName,
       description,
@@ -102,23 +105,41 @@ export async function saveFeaturedToon(
     // Update or create the toon
     if (id) {
       // Update existing toon
-      await db.collection(FEATURED_TOON_COLLECTION).updateOne({ _id: new ObjectId(id) }, { $set: toonData })
+      const before = await updateFeaturedToonById(id, toonData)
+
+      if (!before) {
+        return { success: false, message: "Featured toon not found" }
+      }
+
+      await recordAudit(auth.session, {
+        action: "featuredToon.updated",
+        entity: "featuredToon",
+        targetId: id,
+        before,
+        after: { ...before, ...toonData },
+      })
 
       return {
         success: true,
         message: `${displayName} updated successfully`,
-        toon: { ...toonData, _id: id },
+        toon: { ...before, ...toonData },
       }
     } else {
       // Create new toon
-      toonData.createdAt = now
+      const toon = await insertFeaturedToon({ ...toonData, createdAt: now })
 
-      const result = await db.collection(FEATURED_TOON_COLLECTION).insertOne(toonData)
+      await recordAudit(auth.session, {
+        action: "featuredToon.created",
+        entity: "featuredToon",
+        targetId: toon._id as string,
+        before: null,
+        after: toon,
+      })
 
       return {
         success: true,
         message: `${displayName} created successfully`,
-        toon: { ...toonData, _id: result.insertedId },
+        toon,
       }
     }
   } catch (error) {
@@ -126,24 +147,26 @@ export async function saveFeaturedToon(
     return { success: false, message: "Failed to save featured toon" }
   } finally {
     revalidatePath("/admin/featured-toons")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
 
 // Delete a featured toon
-export async function deleteFeaturedToon(id: string): Promise<{ success: boolean; message: string }> {
-  try {
-    const client = await clientPromise
-    const db = client.db()
+export async function deleteFeaturedToon(
+  id: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
 
+  try {
     // Get the toon to delete its image
-    const toon = await db.collection(FEATURED_TOON_COLLECTION).findOne({ _id: new ObjectId(id) })
+    const toon = await findFeaturedToonById(id)
 
     if (!toon) {
       return { success: false, message: "Featured toon not found" }
     }
 
-    // Delete the image from Vercel Blob
+    // Delete the image from storage
     if (toon.imageUrl) {
       try {
         await deleteImageFromBlob(toon.imageUrl)
@@ -154,7 +177,15 @@ export async function deleteFeaturedToon(id: string): Promise<{ success: boolean
     }
 
     // Delete the toon from the database
-    await db.collection(FEATURED_TOON_COLLECTION).deleteOne({ _id: new ObjectId(id) })
+    await deleteFeaturedToonById(id)
+
+    await recordAudit(auth.session, {
+      action: "featuredToon.deleted",
+      entity: "featuredToon",
+      targetId: id,
+      before: toon,
+      after: null,
+    })
 
     return { success: true, message: "Featured toon deleted successfully" }
   } catch (error) {
@@ -162,6 +193,6 @@ export async function deleteFeaturedToon(id: string): Promise<{ success: boolean
     return { success: false, message: "Failed to delete featured toon" }
   } finally {
     revalidatePath("/admin/featured-toons")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
   }
 }
@@ -0,0 +1,109 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import {
+  findGameBySlug,
+  findGames,
+  gameInputSchema,
+  getNextGameListOrder,
+  insertGame,
+  updateGameById,
+  type GameInput,
+} from "@/lib/repositories/games"
+import { firstIssueMessage, isDuplicateKeyError, isObjectIdString } from "@/lib/repositories/shared"
+import { type Game, GAME_PAGE_ROUTE, GAME_SLUG_INDEX } from "@/models/game"
+
+// Get the active games, for the sidebar and the game pages
+export async function getGames(): Promise<Game[]> {
+  try {
+    return await findGames({ activeOnly: true })
+  } catch (error) {
+    console.error("Error fetching games:", error)
+    return []
+  }
+}
+
+// Get every game including inactive ones, for the admin console
+export async function getAllGames(): Promise<Game[]> {
+  try {
+    return await findGames()
+  } catch (error) {
+    console.error("Error fetching games:", error)
+    return []
+  }
+}
+
+// Get an active game by its URL slug
+export async function getGameBySlug(slug: string): Promise<Game | null> {
+  try {
+    const game = await findGameBySlug(slug)
+    return game?.isActive ? game : null
+  } catch (error) {
+    console.error("Error fetching game:", error)
+    return null
+  }
+}
+
+// Create a game, or update it when an id is given
+export async function saveGame(
+  input: Partial<GameInput>,
+  id?: string,
+): Promise<{ success: boolean; message: string; game?: Game; code?: "forbidden" }> {
+  const auth = await requireAdmin()
+  if (!auth.authorized) return auth.result
+
+  const parsed = gameInputSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, message: firstIssueMessage(parsed.error) }
+  }
+
+  // An emptied logo or description is removed from the game
+  const changes = {
+    ...parsed.data,
+    logo: parsed.data.logo || undefined,
+    description: parsed.data.description || undefined,
+    updatedAt: new Date(),
+  }
+
+  try {
+    if (id) {
+      if (!isObjectIdString(id)) {
+        return { success: false, message: "Invalid game ID" }
+      }
+
+      const before = await updateGameById(id, changes)
+      if (!before) {
+        return { success: false, message: "Game not found" }
+      }
+
+      const game = { ...before, ...changes }
+      await recordAudit(auth.session, { action: "game.updated", entity: "game", targetId: id, before, after: game })
+
+      return { success: true, message: `${game.name} updated successfully`, game }
+    }
+
+    const game = await insertGame({ ...changes, listOrder: await getNextGameListOrder(), createdAt: new Date() })
+
+    await recordAudit(auth.session, {
+      action: "game.created",
+      entity: "game",
+      targetId: game._id as string,
+      before: null,
+      after: game,
+    })
+
+    return { success: true, message: `${game.name} created successfully`, game }
+  } catch (error) {
+    if (isDuplicateKeyError(error, GAME_SLUG_INDEX)) {
+      return { success: false, message: `Another game already uses the slug "${parsed.data.slug}"` }
+    }
+
+    console.error("Error saving game:", error)
+    return { success: false, message: "Failed to save game" }
+  } finally {
+    revalidatePath("/admin/games")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
+  }
+}
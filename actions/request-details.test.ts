@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { ObjectId } from "mongodb"
+import { getServerSession } from "next-auth"
+import { getBookingById, getBookingsByIds, lookupBookingByRequestNumber } from "@/actions/request-details"
+import { generateEditToken } from "@/lib/booking-tokens"
+import {
+  type BookingDocument,
+  findBookingByRequestNumber,
+  findBookingDocument,
+  findBookingDocuments,
+  toBooking,
+} from "@/lib/repositories/bookings"
+
+vi.mock("next-auth", () => ({ getServerSession: vi.fn() }))
+vi.mock("@/lib/auth-options", () => ({ authOptions: {} }))
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }))
+vi.mock("@/lib/mongodb", () => ({ default: new Promise(() => {}) }))
+vi.mock("@/lib/rate-limit", () => ({ checkRateLimit: vi.fn(async () => ({ allowed: true })) }))
+vi.mock("@/lib/repositories/bookings", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/repositories/bookings")>()),
+  findBookingByRequestNumber: vi.fn(),
+  findBookingDocument: vi.fn(),
+  findBookingDocuments: vi.fn(),
+}))
+
+const { token, hash } = generateEditToken()
+
+const document: BookingDocument = {
+  _id: new ObjectId("64b7f0c2a1b2c3d4e5f60718"),
+  requestNumber: "REQ-123-1",
+  characterId: "123",
+  contactInfo: "discord: someone",
+  assistanceTypeId: new ObjectId("64b7f0c2a1b2c3d4e5f60719"),
+  additionalInfo: "Details",
+  selectedDays: ["monday"],
+  timeRangePreset: "early",
+  slots: 1,
+  willingToDonate: "no",
+  status: "pending",
+  statusHistory: [],
+  editTokenHash: hash,
+  customerId: "customer-1",
+  version: 1,
+  createdAt: new Date("2030-01-01T00:00:00Z"),
+}
+
+function signInAs(user: { id: string; role?: "owner" | "agent" | "viewer" }) {
+  vi.mocked(getServerSession).mockResolvedValue({
+    user: { ...user, email: "someone@example.com" },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  })
+}
+
+describe("public booking reads", () => {
+  beforeEach(() => {
+    vi.mocked(getServerSession).mockReset()
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    vi.mocked(findBookingDocument).mockResolvedValue(document)
+    vi.mocked(findBookingDocuments).mockResolvedValue([document])
+    vi.mocked(findBookingByRequestNumber).mockResolvedValue(toBooking(document))
+  })
+
+  describe("anonymous callers", () => {
+    it("don't see the contact info from getBookingById", async () => {
+      const booking = await getBookingById(document._id.toString())
+
+      expect(booking?.requestNumber).toBe("REQ-123-1")
+      expect(booking?.contactInfo).toBe("")
+    })
+
+    it("don't see the contact info from getBookingsByIds", async () => {
+      const bookings = await getBookingsByIds([document._id.toString()])
+
+      expect(bookings).toHaveLength(1)
+      expect(bookings[0].contactInfo).toBe("")
+    })
+
+    it("don't see the contact info from a request number lookup", async () => {
+      const result = await lookupBookingByRequestNumber("req-123-1")
+
+      expect(result.booking?.contactInfo).toBe("")
+    })
+
+    it("don't get the edit token hash", async () => {
+      const booking = await getBookingById(document._id.toString())
+
+      expect(booking).not.toHaveProperty("editTokenHash")
+    })
+  })
+
+  it("shows the contact info with the booking's edit token", async () => {
+    const booking = await getBookingById(document._id.toString(), token)
+
+    expect(booking?.contactInfo).toBe("discord: someone")
+  })
+
+  it("hides the contact info for a wrong edit token", async () => {
+    const booking = await getBookingById(document._id.toString(), generateEditToken().token)
+
+    expect(booking?.contactInfo).toBe("")
+  })
+
+  it("shows the contact info to the account the booking belongs to", async () => {
+    signInAs({ id: "customer-1" })
+
+    expect((await getBookingsByIds([document._id.toString()]))[0].contactInfo).toBe("discord: someone")
+  })
+
+  it("hides the contact info from other accounts", async () => {
+    signInAs({ id: "customer-2" })
+
+    expect((await getBookingById(document._id.toString()))?.contactInfo).toBe("")
+  })
+
+  it("shows the contact info to staff", async () => {
+    signInAs({ id: "staff-1", role: "viewer" })
+
+    expect((await getBookingById(document._id.toString()))?.contactInfo).toBe("discord: someone")
+  })
+})
@@ -1,43 +1,91 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { ObjectId } from "mongodb"
-import clientPromise from "@/lib/mongodb"
-import { BOOKINGS_COLLECTION, ASSISTANCE_TYPES_COLLECTION } from "@/models/assistance"
-import type { Booking, AssistanceType } from "@/models/assistance"
+import { requireAdmin } from "@/lib/admin-guard"
+import { describeBlackoutConflicts, findBlackoutConflicts } from "@/lib/blackouts"
+import { describeCapacityConflicts, findCapacityConflicts, getSlotCapacity, holdsSlots } from "@/lib/booking-capacity"
+import { canTransition } from "@/lib/booking-status"
+import { canManageBooking, getCustomerSession } from "@/lib/customer-session"
+import { checkRateLimit } from "@/lib/rate-limit"
+import {
+  convertSchedule,
+  crossesMidnight,
+  describeCrossesMidnight,
+  getServerSchedule,
+  SERVER_TIME_ZONE,
+} from "@/lib/schedule-time-zone"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import { promoteAfterRelease } from "@/lib/waitlist"
+import { findAssistanceTypeById, findAssistanceTypes } from "@/lib/repositories/assistance-types"
+import { findBlackouts } from "@/lib/repositories/blackouts"
+import {
+  bookingChangesSchema,
+  deleteBookingById,
+  findBookingById,
+  findBookingByRequestNumber,
+  findBookingDocument,
+  findBookingDocuments,
+  findScheduleAvailability,
+  findWaitlistPosition,
+  updateBookingById,
+  updateBookingStatus,
+  toBooking,
+  type BookingDocumentChanges,
+} from "@/lib/repositories/bookings"
+import { moveScheduleSlots, releaseScheduleSlots } from "@/lib/repositories/schedule-slots"
+import { firstIssueMessage, isDuplicateKeyError, isObjectIdString } from "@/lib/repositories/shared"
+import { type Booking, type AssistanceType, ACTIVE_BOOKING_INDEX } from "@/models/assistance"
+import { GAME_PAGE_ROUTE } from "@/models/game"
+
+const CANCELLABLE_MESSAGE = "Only waitlisted, pending, confirmed or on hold bookings can be cancelled."
+
+const INVALID_TOKEN_MESSAGE = "This request can only be changed from its private link or the account it belongs to"
+
+// Request numbers are sequential and ids are handed back by lookups, so a booking's contact info is only sent
+// to staff and to whoever can manage the booking
+async function canSeeContactInfo(
+  booking: { editTokenHash?: string; customerId?: string },
+  editToken?: string | null,
+): Promise<boolean> {
+  return (await canManageBooking(booking, editToken)) || (await requireAdmin(STAFF_ROLES)).authorized
+}
+
+function withoutContactInfo(booking: Booking): Booking {
+  return { ...booking, contactInfo: "" }
+}
 
-// Get a specific booking by ID
-export async function getBookingById(id: string): Promise<Booking | null> {
+/**
+ * Get a specific booking by ID.
+ * @param editToken The booking's edit token, if the caller has it, needed to see the contact info as a guest
+ */
+export async function getBookingById(id: string, editToken?: string | null): Promise<Booking | null> {
   try {
     if (!id || id.trim() === "") {
       return null
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
-      console.error("Invalid ObjectId:", error)
-      return null
-    }
-
-    const booking = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    const document = await findBookingDocument(id)
+    if (!document) return null
 
-    if (!booking) {
-      return null
-    }
-
-    // Convert to plain object to ensure no ObjectId instances are returned
-    return JSON.parse(JSON.stringify(booking))
+    const booking = toBooking(document)
+    return (await canSeeContactInfo(document, editToken)) ? booking : withoutContactInfo(booking)
   } catch (error) {
     console.error("Error fetching booking:", error)
     return null
   }
 }
 
+// A waitlisted booking's place in the queue for its assistance type, null when it isn't waitlisted
+export async function getWaitlistPosition(id: string): Promise<number | null> {
+  try {
+    const booking = await findBookingById(id)
+    return booking?.status === "waitlisted" ? await findWaitlistPosition(booking) : null
+  } catch (error) {
+    console.error("Error fetching waitlist position:", error)
+    return null
+  }
+}
+
 // Get multiple bookings by their IDs
 export async function getBookingsByIds(ids: string[]): Promise<Booking[]> {
   try {
@@ -45,67 +93,95 @@ export async function getBookingsByIds(ids: string[]): Promise<Booking[]> {
       return []
     }
 
-    const client = await clientPromise
-    const db = client.db()
+    // Invalid IDs are skipped
+    const documents = await findBookingDocuments(ids)
+    return await Promise.all(
+      documents.map(async (document) =>
+        (await canSeeContactInfo(document)) ? toBooking(document) : withoutContactInfo(toBooking(document)),
+      ),
+    )
+  } catch (error) {
+    console.error("Error fetching bookings by IDs:", error)
+    return []
+  }
+}
+
+/**
+ * Finds a booking by its exact request number, so customers can look up a request without downloading any others.
+ * Rate limited per IP because request numbers are sequential, and for the same reason the contact info is left out
+ * unless the caller is staff or signed in to the account the booking belongs to.
+ * @param characterId Optionally narrows the match to bookings for this character
+ */
+export async function lookupBookingByRequestNumber(
+  requestNumber: string,
+  characterId?: string,
+): Promise<{ success: boolean; message: string; booking?: Booking; code?: "rate_limited" | "not_found" }> {
+  // Request numbers are generated as REQ-<character ID>-<sequence>, so only the prefix can differ in case
+  const normalized = requestNumber.trim().toUpperCase()
+  if (!normalized) {
+    return { success: false, message: "Enter a request number", code: "not_found" }
+  }
 
-    // Convert string IDs to ObjectIds
-    const objectIds = ids
-      .map((id) => {
-        try {
-          return new ObjectId(id)
-        } catch (error) {
-          console.error(`Invalid ObjectId: ${id}`, error)
-          return null
-        }
-      })
-      .filter((id) => id !== null) as ObjectId[]
+  const rateLimit = await checkRateLimit("lookupBooking")
+  if (!rateLimit.allowed) return rateLimit.result
 
-    if (objectIds.length === 0) {
-      return []
+  try {
+    const booking = await findBookingByRequestNumber(normalized, characterId?.trim() || undefined)
+    if (!booking) {
+      return { success: false, message: `No request found matching "${requestNumber.trim()}"`, code: "not_found" }
     }
 
-    // Query for all bookings with the given IDs
-    const bookings = await db
-      .collection(BOOKINGS_COLLECTION)
-      .find({ _id: { $in: objectIds } })
-      .toArray()
-
-    // Convert to plain objects to ensure no ObjectId instances are returned
-    return JSON.parse(JSON.stringify(bookings))
+    return {
+      success: true,
+      message: "Request found",
+      booking: (await canSeeContactInfo(booking)) ? booking : withoutContactInfo(booking),
+    }
   } catch (error) {
-    console.error("Error fetching bookings by IDs:", error)
-    return []
+    console.error("Error looking up booking by request number:", error)
+    return { success: false, message: "Failed to search for assistance requests" }
   }
 }
 
-// Update a booking
+const CONFLICT_MESSAGE = "This request was changed somewhere else since you started editing"
+
+const SLOTS_TAKEN_MESSAGE = "The last slots for that time were just taken, pick another day or time range"
+
+/**
+ * Applies a customer's edits to their booking.
+ * @param expectedVersion The booking version the edits were made against
+ * @returns The updated booking, or with code "conflict" the current server copy when the booking has been
+ * changed since expectedVersion, so the caller can merge or reload instead of overwriting
+ */
 export async function updateBooking(
   id: string,
+  editToken: string | null,
   updates: Partial<Booking>,
-): Promise<{ success: boolean; message: string; booking?: Booking }> {
+  expectedVersion: number,
+): Promise<{ success: boolean; message: string; booking?: Booking; code?: "forbidden" | "conflict" | "full" }> {
   try {
     if (!id || id.trim() === "") {
       return { success: false, message: "Invalid booking ID" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
-      console.error("Invalid ObjectId:", error)
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid booking ID format" }
     }
 
     // Get the current booking to check its status
-    const currentBooking = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    const currentBooking = await findBookingDocument(id)
 
     if (!currentBooking) {
       return { success: false, message: "Booking not found" }
     }
 
+    if (!(await canManageBooking(currentBooking, editToken))) {
+      return { success: false, message: INVALID_TOKEN_MESSAGE, code: "forbidden" }
+    }
+
+    if (currentBooking.version !== expectedVersion) {
+      return { success: false, message: CONFLICT_MESSAGE, code: "conflict", booking: toBooking(currentBooking) }
+    }
+
     // Only allow updates if the booking is in pending status
     if (currentBooking.status !== "pending") {
       return {
@@ -114,148 +190,219 @@ export async function updateBooking(
       }
     }
 
-    // Prepare update data
-    const updateData = {
-      ...updates,
-      updatedAt: new Date(),
+    // Only the fields a customer may edit are kept, anything else is dropped
+    const parsed = bookingChangesSchema.safeParse(updates)
+    if (!parsed.success) {
+      return { success: false, message: firstIssueMessage(parsed.error) }
     }
 
-    // Don't allow updating certain fields
-    delete updateData._id
-    delete updateData.requestNumber
-    delete updateData.createdAt
-    delete updateData.status // Status should be updated through specific actions
-
-    // If assistanceTypeId is being updated, ensure it's a valid ObjectId
-    if (updateData.assistanceTypeId) {
-      try {
-        updateData.assistanceTypeId = new ObjectId(updateData.assistanceTypeId as string)
+    const { timeZone = SERVER_TIME_ZONE, ...fields } = parsed.data
+    const changes: BookingDocumentChanges = fields
+
+    // The schedule is edited in the customer's zone like a new booking is picked, and stored in server time.
+    // Fields left out keep their current values, moved to that zone first so the schedule converts as a whole.
+    const { selectedDays, startTime, endTime } = parsed.data
+    const isRescheduled = Boolean(selectedDays || startTime || endTime || parsed.data.timeRangePreset)
+    if (isRescheduled) {
+      const current = convertSchedule(getServerSchedule(currentBooking), SERVER_TIME_ZONE, timeZone)
+      const serverSchedule = convertSchedule(
+        {
+          selectedDays: selectedDays ?? current.selectedDays,
+          startTime: startTime ?? current.startTime,
+          endTime: endTime ?? current.endTime,
+        },
+        timeZone,
+        SERVER_TIME_ZONE,
+      )
+      if (crossesMidnight(serverSchedule)) {
+        return { success: false, message: describeCrossesMidnight() }
+      }
 
-        // Get the assistance type name
-        const assistanceType = await db
-          .collection(ASSISTANCE_TYPES_COLLECTION)
-          .findOne({ _id: updateData.assistanceTypeId })
+      changes.selectedDays = serverSchedule.selectedDays
+      changes.startTime = serverSchedule.startTime
+      changes.endTime = serverSchedule.endTime
+      changes.timeZone = timeZone
+    }
 
-        if (assistanceType) {
-          updateData.assistanceTypeName = assistanceType.name
-        }
-      } catch (error) {
+    // Keep the stored assistance type name in sync when the type changes
+    const assistanceType = await findAssistanceTypeById(
+      parsed.data.assistanceTypeId ?? currentBooking.assistanceTypeId.toString(),
+    )
+    if (parsed.data.assistanceTypeId) {
+      if (!assistanceType) {
         return { success: false, message: "Invalid assistance type ID" }
       }
+
+      changes.assistanceTypeName = assistanceType.name
     }
 
-    // Update the booking
-    const result = await db.collection(BOOKINGS_COLLECTION).updateOne({ _id: objectId }, { $set: updateData })
+    // The schedule as it will be stored, in server time
+    const schedule = {
+      selectedDays: changes.selectedDays ?? currentBooking.selectedDays,
+      timeRangePreset: changes.timeRangePreset ?? currentBooking.timeRangePreset,
+      startTime: changes.startTime ?? currentBooking.startTime,
+      endTime: changes.endTime ?? currentBooking.endTime,
+      slots: changes.slots ?? currentBooking.slots,
+    }
 
-    if (result.matchedCount === 0) {
-      return { success: false, message: "Booking not found" }
+    // Like a new booking, a moved schedule or one moved to another type can't run into a blackout
+    if (assistanceType && (isRescheduled || parsed.data.assistanceTypeId)) {
+      const hasSchedule = assistanceType.allowSchedule !== false
+      const blackouts = await findBlackouts({ endingAfter: new Date(), assistanceTypeId: assistanceType._id })
+      const blackoutConflicts = findBlackoutConflicts(
+        hasSchedule ? getServerSchedule(schedule) : { selectedDays: [] },
+        blackouts,
+      )
+      if (blackoutConflicts.length > 0) {
+        return { success: false, message: describeBlackoutConflicts(blackoutConflicts, hasSchedule) }
+      }
     }
 
-    // Get the updated booking
-    const updatedBooking = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    // Check the edited schedule still fits, not counting the slots this booking already holds
+    const capacity = assistanceType ? getSlotCapacity(assistanceType) : 0
+    if (capacity > 0 && assistanceType) {
+      const conflicts = findCapacityConflicts(await findScheduleAvailability(assistanceType, id), schedule)
+      if (conflicts.length > 0) {
+        return { success: false, message: describeCapacityConflicts(conflicts), code: "full" }
+      }
+    }
 
-    // Convert to plain object
-    const sanitizedBooking = JSON.parse(JSON.stringify(updatedBooking))
+    // Claim whatever the new schedule needs on top of what the booking already holds, the check above can be
+    // overtaken by another booking taking the last slots
+    const heldSlots = toBooking(currentBooking)
+    const nextSlots = { ...schedule, assistanceTypeId: parsed.data.assistanceTypeId ?? heldSlots.assistanceTypeId }
+    if (!(await moveScheduleSlots(heldSlots, nextSlots, capacity))) {
+      return { success: false, message: SLOTS_TAKEN_MESSAGE, code: "full" }
+    }
+
+    // Update the booking, unless another write got in after the version check above
+    const updatedBooking = await updateBookingById(id, changes, expectedVersion).catch(async (error) => {
+      await moveScheduleSlots(nextSlots, heldSlots, 0)
+      throw error
+    })
+
+    if (!updatedBooking) {
+      await moveScheduleSlots(nextSlots, heldSlots, 0)
+      const latestBooking = await findBookingById(id)
+      return latestBooking
+        ? { success: false, message: CONFLICT_MESSAGE, code: "conflict", booking: latestBooking }
+        : { success: false, message: "Booking not found" }
+    }
+
+    // Slots the old schedule held and the new one doesn't may let someone off the waitlist
+    await promoteAfterRelease([heldSlots])
 
     return {
       success: true,
       message: "Booking updated successfully",
-      booking: sanitizedBooking,
+      booking: updatedBooking,
     }
   } catch (error) {
+    // Moving the booking to another character or type can collide with one of their active bookings
+    if (isDuplicateKeyError(error, ACTIVE_BOOKING_INDEX)) {
+      return {
+        success: false,
+        message: "This character already has an active request for that assistance type.",
+      }
+    }
+
     console.error("Error updating booking:", error)
     return { success: false, message: "Failed to update booking" }
   } finally {
     revalidatePath("/request/[id]")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
     revalidatePath("/recent")
   }
 }
 
 // Cancel a booking
-export async function cancelBooking(id: string): Promise<{ success: boolean; message: string }> {
+export async function cancelBooking(
+  id: string,
+  editToken: string | null,
+  reason?: string,
+): Promise<{ success: boolean; message: string; booking?: Booking; code?: "forbidden" }> {
   try {
     if (!id || id.trim() === "") {
       return { success: false, message: "Invalid booking ID" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
-      console.error("Invalid ObjectId:", error)
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid booking ID format" }
     }
 
     // Get the current booking to check its status
-    const currentBooking = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    const currentBooking = await findBookingDocument(id)
 
     if (!currentBooking) {
       return { success: false, message: "Booking not found" }
     }
 
-    // Only allow cancellation if the booking is in pending or confirmed status
-    if (currentBooking.status !== "pending" && currentBooking.status !== "confirmed") {
+    if (!(await canManageBooking(currentBooking, editToken))) {
+      return { success: false, message: INVALID_TOKEN_MESSAGE, code: "forbidden" }
+    }
+
+    if (!canTransition(currentBooking.status, "cancelled", "customer")) {
       return {
         success: false,
-        message: `Cannot cancel booking with status "${currentBooking.status}". Only pending or confirmed bookings can be cancelled.`,
+        message: `Cannot cancel booking with status "${currentBooking.status}". ${CANCELLABLE_MESSAGE}`,
       }
     }
 
-    // Update the booking status to cancelled
-    const result = await db.collection(BOOKINGS_COLLECTION).updateOne(
-      { _id: objectId },
-      {
-        $set: {
-          status: "cancelled",
-          updatedAt: new Date(),
-        },
-      },
-    )
+    // Signed-in customers are recorded by account, guests by the character the booking is for
+    const customer = await getCustomerSession()
+    const cancelledBooking = await updateBookingStatus(id, {
+      from: currentBooking.status,
+      to: "cancelled",
+      actorType: "customer",
+      actor: customer?.email ?? currentBooking.characterId,
+      reason: reason?.trim() || undefined,
+    })
+
+    if (!cancelledBooking) {
+      return { success: false, message: "This booking was updated in the meantime, refresh and try again" }
+    }
 
-    if (result.matchedCount === 0) {
-      return { success: false, message: "Booking not found" }
+    if (holdsSlots(currentBooking.status)) {
+      await releaseScheduleSlots(cancelledBooking)
+      await promoteAfterRelease([cancelledBooking])
     }
 
-    return { success: true, message: "Booking cancelled successfully" }
+    return { success: true, message: "Booking cancelled successfully", booking: cancelledBooking }
   } catch (error) {
     console.error("Error cancelling booking:", error)
     return { success: false, message: "Failed to cancel booking" }
   } finally {
     revalidatePath("/request/[id]")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
     revalidatePath("/recent")
   }
 }
 
 // Delete a booking (only allowed for cancelled bookings)
-export async function deleteBooking(id: string): Promise<{ success: boolean; message: string }> {
+export async function deleteBooking(
+  id: string,
+  editToken: string | null,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
   try {
     if (!id || id.trim() === "") {
       return { success: false, message: "Invalid booking ID" }
     }
 
-    const client = await clientPromise
-    const db = client.db()
-
-    let objectId: ObjectId
-    try {
-      objectId = new ObjectId(id)
-    } catch (error) {
-      console.error("Invalid ObjectId:", error)
+    if (!isObjectIdString(id)) {
       return { success: false, message: "Invalid booking ID format" }
     }
 
     // Get the current booking to check its status
-    const currentBooking = await db.collection(BOOKINGS_COLLECTION).findOne({ _id: objectId })
+    const currentBooking = await findBookingDocument(id)
 
     if (!currentBooking) {
       return { success: false, message: "Booking not found" }
     }
 
+    if (!(await canManageBooking(currentBooking, editToken))) {
+      return { success: false, message: INVALID_TOKEN_MESSAGE, code: "forbidden" }
+    }
+
     // Only allow deletion if the booking is in cancelled status
     if (currentBooking.status !== "cancelled") {
       return {
@@ -265,9 +412,9 @@ export async function deleteBooking(id: string): Promise<{ success: boolean; mes
     }
 
     // Delete the booking
-    const result = await db.collection(BOOKINGS_COLLECTION).deleteOne({ _id: objectId })
+    const deleted = await deleteBookingById(id, "cancelled")
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return { success: false, message: "Failed to delete booking" }
     }
 
@@ -277,7 +424,7 @@ export async function deleteBooking(id: string): Promise<{ success: boolean; mes
     return { success: false, message: "Failed to delete booking" }
   } finally {
     revalidatePath("/request/[id]")
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
     revalidatePath("/recent")
   }
 }
@@ -285,16 +432,7 @@ export async function deleteBooking(id: string): Promise<{ success: boolean; mes
 // Get all assistance types (for editing)
 export async function getAllAssistanceTypes(): Promise<AssistanceType[]> {
   try {
-    const client = await clientPromise
-    const db = client.db()
-
-    const assistanceTypes = await db
-      .collection(ASSISTANCE_TYPES_COLLECTION)
-      .find({ isActive: true })
-      .sort({ listOrder: 1 })
-      .toArray()
-
-    return JSON.parse(JSON.stringify(assistanceTypes))
+    return await findAssistanceTypes({ activeOnly: true })
   } catch (error) {
     console.error("Error fetching assistance types:", error)
     return []
@@ -0,0 +1,497 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { ObjectId } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import { unassignBookingsFrom } from "@/lib/repositories/bookings"
+import { STAFF_ROLES, isStaffRole } from "@/lib/staff-roles"
+import { CALENDAR_FEED_PATH } from "@/lib/ical"
+import { generateCalendarFeedToken, normalizeEmail } from "@/lib/staff-users"
+import { hashPassword, validatePasswordStrength, verifyPassword } from "@/lib/passwords"
+import { generateTotpSecret, getTotpUri, verifyTotp } from "@/lib/totp"
+import { type StaffRole, type StaffUser, type StaffUserSummary, STAFF_USERS_COLLECTION } from "@/models/staff-user"
+
+// Replace stored credentials with flags before anything is sent to the browser
+function toSummary({
+  passwordHash,
+  totpSecret,
+  pendingTotpSecret,
+  calendarFeedTokenHash,
+  ...staffUser
+}: StaffUser): StaffUserSummary {
+  return {
+    ...staffUser,
+    hasPassword: !!passwordHash,
+    totpEnabled: !!totpSecret,
+    hasCalendarFeed: !!calendarFeedTokenHash,
+  }
+}
+
+// Get all staff users
+export async function getStaffUsers(): Promise<StaffUserSummary[]> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) {
+    throw new Error(auth.result.message)
+  }
+
+  try {
+    const client = await clientPromise
+    const db = client.db()
+
+    const staffUsers = await db
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .find({})
+      .sort({ role: 1, email: 1 })
+      .toArray()
+
+    return JSON.parse(JSON.stringify(staffUsers.map(toSummary)))
+  } catch (error) {
+    console.error("Error fetching staff users:", error)
+    throw new Error("Failed to fetch staff users")
+  }
+}
+
+// Invite a new staff member by email, optionally with an initial password for credentials sign-in
+export async function inviteStaffUser(
+  email: string,
+  role: StaffRole,
+  name?: string,
+  password?: string,
+): Promise<{ success: boolean; message: string; staffUser?: StaffUserSummary; code?: "forbidden" }> {
+  const auth = await requireAdmin(["owner"])
+  if (!auth.authorized) return auth.result
+
+  try {
+    const normalizedEmail = normalizeEmail(email || "")
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      return { success: false, message: "Please enter a valid email address" }
+    }
+
+    if (!isStaffRole(role)) {
+      return { success: false, message: "Invalid role selected" }
+    }
+
+    const passwordError = password ? validatePasswordStrength(password) : null
+    if (passwordError) {
+      return { success: false, message: passwordError }
+    }
+
+    const client = await clientPromise
+    const db = client.db()
+
+    const existing = await db.collection(STAFF_USERS_COLLECTION).findOne({ email: normalizedEmail })
+    if (existing) {
+      return { success: false, message: `${normalizedEmail} is already a staff member` }
+    }
+
+    const staffUser: StaffUser = {
+      email: normalizedEmail,
+      name: name?.trim() || undefined,
+      role,
+      invitedBy: auth.session.user.email || undefined,
+      invitedAt: new Date(),
+      passwordHash: password ? await hashPassword(password) : undefined,
+    }
+
+    const result = await db.collection<StaffUser>(STAFF_USERS_COLLECTION).insertOne(staffUser)
+
+    await recordAudit(auth.session, {
+      action: "staffUser.invited",
+      entity: "staffUser",
+      targetId: result.insertedId.toString(),
+      before: null,
+      after: toSummary({ ...staffUser, _id: result.insertedId }),
+    })
+
+    return {
+      success: true,
+      message: `${normalizedEmail} invited successfully`,
+      staffUser: JSON.parse(JSON.stringify(toSummary({ ...staffUser, _id: result.insertedId }))),
+    }
+  } catch (error) {
+    console.error("Error inviting staff user:", error)
+    return { success: false, message: "Failed to invite staff user" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Change the role of a staff member
+export async function updateStaffUserRole(
+  id: string,
+  role: StaffRole,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(["owner"])
+  if (!auth.authorized) return auth.result
+
+  try {
+    if (!isStaffRole(role)) {
+      return { success: false, message: "Invalid role selected" }
+    }
+
+    let objectId: ObjectId
+    try {
+      objectId = new ObjectId(id)
+    } catch (error) {
+      return { success: false, message: "Invalid staff user ID" }
+    }
+
+    const client = await clientPromise
+    const db = client.db()
+
+    const staffUser = await db.collection<StaffUser>(STAFF_USERS_COLLECTION).findOne({ _id: objectId })
+    if (!staffUser) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    // Never leave the site without an owner
+    if (staffUser.role === "owner" && role !== "owner") {
+      const ownerCount = await db.collection(STAFF_USERS_COLLECTION).countDocuments({ role: "owner" })
+      if (ownerCount <= 1) {
+        return { success: false, message: "At least one owner is required" }
+      }
+    }
+
+    const update = { role, updatedAt: new Date() }
+    await db.collection(STAFF_USERS_COLLECTION).updateOne({ _id: objectId }, { $set: update })
+
+    await recordAudit(auth.session, {
+      action: "staffUser.role_changed",
+      entity: "staffUser",
+      targetId: id,
+      before: toSummary(staffUser),
+      after: toSummary({ ...staffUser, ...update }),
+    })
+
+    return { success: true, message: `${staffUser.email} is now ${role === "agent" ? "an" : "a"} ${role}` }
+  } catch (error) {
+    console.error("Error updating staff user role:", error)
+    return { success: false, message: "Failed to update staff user role" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Remove a staff member
+export async function removeStaffUser(id: string): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(["owner"])
+  if (!auth.authorized) return auth.result
+
+  try {
+    let objectId: ObjectId
+    try {
+      objectId = new ObjectId(id)
+    } catch (error) {
+      return { success: false, message: "Invalid staff user ID" }
+    }
+
+    const client = await clientPromise
+    const db = client.db()
+
+    const staffUser = await db.collection<StaffUser>(STAFF_USERS_COLLECTION).findOne({ _id: objectId })
+    if (!staffUser) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    if (staffUser.email === normalizeEmail(auth.session.user.email || "")) {
+      return { success: false, message: "You cannot remove yourself" }
+    }
+
+    // Never leave the site without an owner
+    if (staffUser.role === "owner") {
+      const ownerCount = await db.collection(STAFF_USERS_COLLECTION).countDocuments({ role: "owner" })
+      if (ownerCount <= 1) {
+        return { success: false, message: "At least one owner is required" }
+      }
+    }
+
+    await db.collection(STAFF_USERS_COLLECTION).deleteOne({ _id: objectId })
+    // Their open requests go back to the shared queue rather than pointing at someone who is gone
+    await unassignBookingsFrom(id)
+
+    await recordAudit(auth.session, {
+      action: "staffUser.removed",
+      entity: "staffUser",
+      targetId: id,
+      before: toSummary(staffUser),
+      after: null,
+    })
+
+    return { success: true, message: `${staffUser.email} removed successfully` }
+  } catch (error) {
+    console.error("Error removing staff user:", error)
+    return { success: false, message: "Failed to remove staff user" }
+  } finally {
+    revalidatePath("/admin/users")
+    revalidatePath("/admin/assistance-requests")
+  }
+}
+
+// Set a new password for a staff member, e.g. when they have forgotten theirs
+export async function setStaffUserPassword(
+  id: string,
+  password: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(["owner"])
+  if (!auth.authorized) return auth.result
+
+  try {
+    const passwordError = validatePasswordStrength(password)
+    if (passwordError) {
+      return { success: false, message: passwordError }
+    }
+
+    let objectId: ObjectId
+    try {
+      objectId = new ObjectId(id)
+    } catch (error) {
+      return { success: false, message: "Invalid staff user ID" }
+    }
+
+    const client = await clientPromise
+    const db = client.db()
+
+    const passwordHash = await hashPassword(password)
+    const result = await db
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .findOneAndUpdate({ _id: objectId }, { $set: { passwordHash, updatedAt: new Date() } })
+
+    if (!result) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    // Snapshots leave out the password hash, so record only that the password was reset
+    await recordAudit(auth.session, {
+      action: "staffUser.password_reset",
+      entity: "staffUser",
+      targetId: id,
+      before: null,
+      after: null,
+    })
+
+    return { success: true, message: `Password updated for ${result.email}` }
+  } catch (error) {
+    console.error("Error setting staff user password:", error)
+    return { success: false, message: "Failed to update password" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Change the signed-in staff member's own password
+export async function changeOwnPassword(
+  currentPassword: string,
+  newPassword: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const passwordError = validatePasswordStrength(newPassword)
+    if (passwordError) {
+      return { success: false, message: passwordError }
+    }
+
+    const client = await clientPromise
+    const collection = client.db().collection<StaffUser>(STAFF_USERS_COLLECTION)
+    const email = normalizeEmail(auth.session.user.email || "")
+
+    const staffUser = await collection.findOne({ email })
+    if (!staffUser) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    // Staff who have only used Google so far can set a first password without a current one
+    if (staffUser.passwordHash && !(await verifyPassword(currentPassword, staffUser.passwordHash))) {
+      return { success: false, message: "Current password is incorrect" }
+    }
+
+    await collection.updateOne(
+      { email },
+      { $set: { passwordHash: await hashPassword(newPassword), updatedAt: new Date() } },
+    )
+
+    return { success: true, message: "Your password has been updated" }
+  } catch (error) {
+    console.error("Error changing password:", error)
+    return { success: false, message: "Failed to update password" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Start setting up a one-time code for the signed-in staff member
+// Returns the secret to enter into their authenticator app
+export async function startTotpSetup(): Promise<{
+  success: boolean
+  message: string
+  secret?: string
+  uri?: string
+  code?: "forbidden"
+}> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const client = await clientPromise
+    const email = normalizeEmail(auth.session.user.email || "")
+    const secret = generateTotpSecret()
+
+    const result = await client
+      .db()
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .updateOne({ email }, { $set: { pendingTotpSecret: secret } })
+
+    if (result.matchedCount === 0) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    return {
+      success: true,
+      message: "Add the secret to your authenticator app",
+      secret,
+      uri: getTotpUri(secret, email),
+    }
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error)
+    return { success: false, message: "Failed to start two-factor setup" }
+  }
+}
+
+// Turn on the one-time code once the staff member has entered a code from their authenticator app
+export async function confirmTotpSetup(
+  otp: string,
+): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const client = await clientPromise
+    const collection = client.db().collection<StaffUser>(STAFF_USERS_COLLECTION)
+    const email = normalizeEmail(auth.session.user.email || "")
+
+    const staffUser = await collection.findOne({ email })
+    if (!staffUser?.pendingTotpSecret) {
+      return { success: false, message: "Start two-factor setup first" }
+    }
+
+    if (!verifyTotp(staffUser.pendingTotpSecret, otp)) {
+      return { success: false, message: "That code is not valid. Please try again." }
+    }
+
+    await collection.updateOne(
+      { email },
+      {
+        $set: { totpSecret: staffUser.pendingTotpSecret, updatedAt: new Date() },
+        $unset: { pendingTotpSecret: "", totpLastStep: "" },
+      },
+    )
+
+    return { success: true, message: "Two-factor authentication is now enabled" }
+  } catch (error) {
+    console.error("Error confirming two-factor setup:", error)
+    return { success: false, message: "Failed to enable two-factor authentication" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Turn off the one-time code for the signed-in staff member, which requires a current code
+export async function disableTotp(otp: string): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const client = await clientPromise
+    const collection = client.db().collection<StaffUser>(STAFF_USERS_COLLECTION)
+    const email = normalizeEmail(auth.session.user.email || "")
+
+    const staffUser = await collection.findOne({ email })
+    if (!staffUser?.totpSecret) {
+      return { success: false, message: "Two-factor authentication is not enabled" }
+    }
+
+    if (!verifyTotp(staffUser.totpSecret, otp)) {
+      return { success: false, message: "That code is not valid. Please try again." }
+    }
+
+    await collection.updateOne(
+      { email },
+      { $unset: { totpSecret: "", totpLastStep: "" }, $set: { updatedAt: new Date() } },
+    )
+
+    return { success: true, message: "Two-factor authentication has been turned off" }
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error)
+    return { success: false, message: "Failed to turn off two-factor authentication" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+/**
+ * Creates a calendar feed link for the signed-in staff member, replacing any link made before.
+ * The token is only returned here, the stored hash can't be turned back into a link.
+ * @returns The feed path with its token, to be joined with the site's origin
+ */
+export async function resetCalendarFeed(): Promise<{
+  success: boolean
+  message: string
+  feedPath?: string
+  code?: "forbidden"
+}> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const client = await clientPromise
+    const email = normalizeEmail(auth.session.user.email || "")
+    const { token, hash } = generateCalendarFeedToken()
+
+    const result = await client
+      .db()
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .updateOne({ email }, { $set: { calendarFeedTokenHash: hash, updatedAt: new Date() } })
+
+    if (result.matchedCount === 0) {
+      return { success: false, message: "Staff user not found" }
+    }
+
+    return {
+      success: true,
+      message: "Add this link to your calendar app, it won't be shown again",
+      feedPath: `${CALENDAR_FEED_PATH}?token=${token}`,
+    }
+  } catch (error) {
+    console.error("Error creating calendar feed link:", error)
+    return { success: false, message: "Failed to create calendar feed link" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
+
+// Turn off the signed-in staff member's calendar feed, calendar apps subscribed to it stop updating
+export async function revokeCalendarFeed(): Promise<{ success: boolean; message: string; code?: "forbidden" }> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const client = await clientPromise
+    const email = normalizeEmail(auth.session.user.email || "")
+
+    await client
+      .db()
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .updateOne({ email }, { $unset: { calendarFeedTokenHash: "" }, $set: { updatedAt: new Date() } })
+
+    return { success: true, message: "Your calendar feed link has been turned off" }
+  } catch (error) {
+    console.error("Error turning off calendar feed:", error)
+    return { success: false, message: "Failed to turn off calendar feed" }
+  } finally {
+    revalidatePath("/admin/users")
+  }
+}
@@ -0,0 +1,70 @@
+"use server"
+
+import { requireAdmin } from "@/lib/admin-guard"
+import { recordAudit } from "@/lib/audit-log"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import { deleteOrphanedFiles, findOrphanedFiles, type OrphanReport } from "@/lib/storage/cleanup"
+
+// Dry run: list the uploads the cleanup would delete without deleting anything
+export async function getOrphanReport(): Promise<{
+  success: boolean
+  message: string
+  report?: OrphanReport
+  code?: "forbidden"
+}> {
+  const auth = await requireAdmin(STAFF_ROLES)
+  if (!auth.authorized) return auth.result
+
+  try {
+    const report = await findOrphanedFiles()
+    return { success: true, message: `${report.orphans.length} orphaned files found`, report }
+  } catch (error) {
+    console.error("Error building orphaned file report:", error)
+    return { success: false, message: "Failed to scan stored files" }
+  }
+}
+
+/**
+ * Deletes orphaned uploads.
+ * The scan is repeated here rather than trusting a report from the browser,
+ * so a file that became referenced since the dry run is kept.
+ */
+export async function cleanupOrphanedFiles(): Promise<{
+  success: boolean
+  message: string
+  deletedCount: number
+  failed: string[]
+  code?: "forbidden"
+}> {
+  const auth = await requireAdmin(["owner"])
+  if (!auth.authorized) return { ...auth.result, deletedCount: 0, failed: [] }
+
+  try {
+    const report = await findOrphanedFiles()
+    const { deleted, failed } = await deleteOrphanedFiles(report)
+
+    await recordAudit(
+      auth.session,
+      deleted.map((file) => ({
+        action: "storedFile.deleted",
+        entity: "storedFile" as const,
+        targetId: file.pathname,
+        before: file,
+        after: null,
+      })),
+    )
+
+    return {
+      success: failed.length === 0,
+      message:
+        failed.length > 0
+          ? `${deleted.length} orphaned files deleted, ${failed.length} could not be deleted`
+          : `${deleted.length} orphaned files deleted`,
+      deletedCount: deleted.length,
+      failed,
+    }
+  } catch (error) {
+    console.error("Error cleaning up orphaned files:", error)
+    return { success: false, message: "Failed to clean up stored files", deletedCount: 0, failed: [] }
+  }
+}
@@ -1,6 +1,8 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
+import { requireAdmin } from "@/lib/admin-guard"
+import { GAME_PAGE_ROUTE } from "@/models/game"
 
 // In a real application, you would store these in a database
 // and handle file uploads to a storage service like Vercel Blob
@@ -14,6 +16,11 @@ const characterImages = {
 }
 
 export async function updateFeaturedToon(formData: FormData) {
+  const auth = await requireAdmin()
+  if (!auth.authorized) {
+    return { success: false, error: auth.result.message, code: auth.result.code }
+  }
+
   try {
     const characterClass = formData.get("characterClass") as string
     const imageUrl = formData.get("imageUrl") as string
@@ -30,7 +37,7 @@ export async function updateFeaturedToon(formData: FormData) {
     characterImages[characterClass as keyof typeof characterImages] = imageUrl
 
     // Revalidate the path to update the UI
-    revalidatePath("/games/ragnarok-m-classic")
+    revalidatePath(GAME_PAGE_ROUTE, "page")
 
     return {
       success: true,
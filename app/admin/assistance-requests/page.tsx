@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
+import { useState, useEffect, Suspense } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import { useSession } from "next-auth/react"
 import Link from "next/link"
 import { format } from "date-fns"
@@ -13,12 +13,20 @@ import {
   CalendarClock,
   CheckCircle,
   Clock,
+  Hourglass,
   XCircle,
   Eye,
   RefreshCw,
   Trash2,
   MoreHorizontal,
   Check,
+  PlayCircle,
+  PauseCircle,
+  ChevronLeft,
+  ChevronRight,
+  UserCheck,
+  UserMinus,
+  CalendarOff,
 } from "lucide-react"
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -35,42 +43,109 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Textarea } from "@/components/ui/textarea"
 import { LoginModal } from "@/components/login-modal"
 import {
-  getAllAssistanceRequests,
+  queryAssistanceRequests,
   updateRequestStatus,
   bulkUpdateRequestStatus,
   bulkDeleteRequests,
+  assignRequests,
+  getRequestWorkload,
+  type RejectedStatusUpdate,
 } from "@/actions/admin-assistance"
-import type { Booking } from "@/models/assistance"
+import { getStaffUsers } from "@/actions/staff-users"
+import { BOOKING_STATUSES, BOOKING_STATUS_LABELS, getAllowedTransitions } from "@/lib/booking-status"
+import { getAssistanceTypes } from "@/actions/assistance"
+import type { AssigneeWorkload, BookingQuery } from "@/lib/repositories/bookings"
+import {
+  type AssistanceType,
+  type Booking,
+  type BookingStatus,
+  MY_QUEUE_FILTER,
+  UNASSIGNED_FILTER,
+} from "@/models/assistance"
+import type { Blackout } from "@/models/blackout"
+import type { StaffUserSummary } from "@/models/staff-user"
 import { Checkbox } from "@/components/ui/checkbox"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 
 // Add these imports at the top
 import { getUnreadCommentsCounts } from "@/actions/comments"
 import { NotificationBadge } from "@/components/notification-badge"
+import { BookingSchedule } from "@/components/booking-schedule"
+import { EDITOR_ROLES, isStaffRole } from "@/lib/staff-roles"
+
+const ALL = "all"
+const PAGE_SIZE = 25
+
+// Filters and the current page live in the URL, so a filtered view can be bookmarked or shared
+function readQuery(searchParams: URLSearchParams): BookingQuery {
+  const status = searchParams.get("status")
+  const from = searchParams.get("from")
+  const to = searchParams.get("to")
+
+  return {
+    status: BOOKING_STATUSES.includes(status as BookingStatus) ? (status as BookingStatus) : undefined,
+    typeId: searchParams.get("type") || undefined,
+    assignedTo: searchParams.get("assignee") || undefined,
+    search: searchParams.get("q") || undefined,
+    dateRange: from || to ? { from: from || undefined, to: to || undefined } : undefined,
+    sort: searchParams.get("sort") === "oldest" ? "oldest" : "newest",
+    cursor: searchParams.get("cursor") || undefined,
+    limit: PAGE_SIZE,
+  }
+}
 
 export default function AdminAssistanceRequestsPage() {
+  // useSearchParams needs a Suspense boundary to be rendered on the client
+  return (
+    <Suspense
+      fallback={
+        <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      }
+    >
+      <AdminAssistanceRequests />
+    </Suspense>
+  )
+}
+
+function AdminAssistanceRequests() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { data: session, status } = useSession()
   const [requests, setRequests] = useState<Booking[]>([])
-  const [filteredRequests, setFilteredRequests] = useState<Booking[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [waitlistPositions, setWaitlistPositions] = useState<Record<string, number>>({})
+  // Upcoming blackouts each open request runs into, by request id
+  const [blackoutFlags, setBlackoutFlags] = useState<Record<string, Blackout[]>>({})
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  // Cursors of the pages before the current one, for the Previous button
+  const [previousCursors, setPreviousCursors] = useState<string[]>([])
+  const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
-  const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<string>("all")
+  const [searchTerm, setSearchTerm] = useState(searchParams.get("q") || "")
   const [selectedRequest, setSelectedRequest] = useState<Booking | null>(null)
   const [isStatusDialogOpen, setIsStatusDialogOpen] = useState(false)
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false)
-  const [newStatus, setNewStatus] = useState<"pending" | "confirmed" | "completed" | "cancelled">("pending")
+  const [newStatus, setNewStatus] = useState<BookingStatus>("pending")
+  const [statusReason, setStatusReason] = useState("")
+  const [rejectedUpdates, setRejectedUpdates] = useState<RejectedStatusUpdate[]>([])
 
   // New state for bulk operations
   const [selectedRequestIds, setSelectedRequestIds] = useState<string[]>([])
@@ -81,9 +156,19 @@ export default function AdminAssistanceRequestsPage() {
   // Add this state after the other state declarations
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({})
 
+  const [staffUsers, setStaffUsers] = useState<StaffUserSummary[]>([])
+  const [workload, setWorkload] = useState<AssigneeWorkload[]>([])
+
+  const query = readQuery(searchParams)
+  const hasFilters = !!(query.status || query.typeId || query.assignedTo || query.search || query.dateRange)
+  // Requests can only be assigned to staff who can manage them
+  const assignableStaff = staffUsers.filter((user) => EDITOR_ROLES.includes(user.role))
+  // Only known when paging forward from the first page, a shared link to a later page counts from its own cursor
+  const pageStart = previousCursors.length * PAGE_SIZE
+
   // Check authentication
   useEffect(() => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       setIsLoginModalOpen(true)
     } else {
       setIsLoginModalOpen(false)
@@ -92,30 +177,37 @@ export default function AdminAssistanceRequestsPage() {
 
   // Handle modal close - redirect to home if not authenticated
   const handleModalClose = () => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       router.push("/")
     } else {
       setIsLoginModalOpen(false)
     }
   }
 
-  // Load assistance requests
-  useEffect(() => {
-    const loadRequests = async () => {
-      if (status !== "authenticated" || session?.user?.role !== "admin") return
+  // Load the current page of requests
+  const loadRequests = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
 
+    const page = await queryAssistanceRequests(readQuery(searchParams))
+    setRequests(page.bookings)
+    setTotalCount(page.totalCount)
+    setWaitlistPositions(page.waitlistPositions)
+    setBlackoutFlags(page.blackouts)
+    setNextCursor(page.nextCursor)
+    setSelectedRequestIds([])
+
+    // Get unread comments counts for the requests on this page
+    const requestIds = page.bookings.map((request) => request._id?.toString() || "").filter((id) => id)
+    setUnreadCounts(requestIds.length > 0 ? await getUnreadCommentsCounts(requestIds, true) : {})
+    setWorkload(await getRequestWorkload())
+  }
+
+  // Reload whenever the filters or page in the URL change
+  useEffect(() => {
+    const load = async () => {
       setIsLoading(true)
       try {
-        const data = await getAllAssistanceRequests()
-        setRequests(data)
-        setFilteredRequests(data)
-
-        // Get unread comments counts for all requests
-        if (data.length > 0) {
-          const requestIds = data.map((request) => request._id?.toString() || "").filter((id) => id)
-          const counts = await getUnreadCommentsCounts(requestIds, true) // true for admin view
-          setUnreadCounts(counts)
-        }
+        await loadRequests()
       } catch (error) {
         console.error("Error loading assistance requests:", error)
         setMessage({ type: "error", text: "Failed to load assistance requests" })
@@ -124,56 +216,85 @@ export default function AdminAssistanceRequestsPage() {
       }
     }
 
-    loadRequests()
+    load()
+  }, [status, session, searchParams])
+
+  // Load assistance types and staff for the filters
+  useEffect(() => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    getAssistanceTypes()
+      .then(setAssistanceTypes)
+      .catch((error) => console.error("Error loading assistance types:", error))
+    getStaffUsers()
+      .then(setStaffUsers)
+      .catch((error) => console.error("Error loading staff users:", error))
   }, [status, session])
 
-  // Filter requests when search term or status filter changes
+  // Display name for an assignee, staff who have since been removed show as unknown
+  const getStaffName = (id: string | null | undefined) => {
+    if (!id) return "Unassigned"
+    const user = staffUsers.find((staffUser) => staffUser._id?.toString() === id)
+    return user ? user.name || user.email : "Unknown staff member"
+  }
+
+  // Update the URL from the search box once typing pauses
   useEffect(() => {
-    if (!requests.length) return
+    if (searchTerm === (searchParams.get("q") || "")) return
 
-    let filtered = [...requests]
+    const timer = setTimeout(() => updateFilters({ q: searchTerm.trim() || undefined }), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
 
-    // Apply status filter
-    if (statusFilter !== "all") {
-      filtered = filtered.filter((request) => request.status === statusFilter)
+  // Any filter change goes back to the first page
+  const updateFilters = (changes: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) params.set(key, value)
+      else params.delete(key)
     }
+    params.delete("cursor")
 
-    // Apply search filter
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase()
-      filtered = filtered.filter(
-        (request) =>
-          request.requestNumber.toLowerCase().includes(term) ||
-          request.characterId.toLowerCase().includes(term) ||
-          request.contactInfo.toLowerCase().includes(term) ||
-          (request.assistanceTypeName && request.assistanceTypeName.toLowerCase().includes(term)),
-      )
-    }
+    setPreviousCursors([])
+    router.push(`?${params.toString()}`)
+  }
 
-    setFilteredRequests(filtered)
+  const goToPage = (cursor: string | undefined) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (cursor) params.set("cursor", cursor)
+    else params.delete("cursor")
 
-    // Clear selected requests when filter changes
-    setSelectedRequestIds([])
-  }, [searchTerm, statusFilter, requests])
+    router.push(`?${params.toString()}`)
+  }
+
+  const handleNextPage = () => {
+    if (!nextCursor) return
+
+    setPreviousCursors((prev) => [...prev, query.cursor || ""])
+    goToPage(nextCursor)
+  }
+
+  // Without a remembered cursor (e.g. after opening a shared link) this goes back to the first page
+  const handlePreviousPage = () => {
+    const previous = previousCursors[previousCursors.length - 1]
+    setPreviousCursors((prev) => prev.slice(0, -1))
+    goToPage(previous || undefined)
+  }
+
+  const clearFilters = () => {
+    setSearchTerm("")
+    setPreviousCursors([])
+    router.push("?")
+  }
 
   // Refresh requests
   const handleRefresh = async () => {
-    if (status !== "authenticated" || session?.user?.role !== "admin") return
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
 
     setIsRefreshing(true)
     setMessage(null)
     try {
-      const data = await getAllAssistanceRequests()
-      setRequests(data)
-      setFilteredRequests(data)
-
-      // Also refresh unread counts
-      if (data.length > 0) {
-        const requestIds = data.map((request) => request._id?.toString() || "").filter((id) => id)
-        const counts = await getUnreadCommentsCounts(requestIds, true)
-        setUnreadCounts(counts)
-      }
-
+      await loadRequests()
       setMessage({ type: "success", text: "Assistance requests refreshed" })
     } catch (error) {
       console.error("Error refreshing assistance requests:", error)
@@ -186,7 +307,8 @@ export default function AdminAssistanceRequestsPage() {
   // Open status update dialog
   const openStatusDialog = (request: Booking) => {
     setSelectedRequest(request)
-    setNewStatus(request.status)
+    setNewStatus(getAllowedTransitions(request.status)[0] ?? request.status)
+    setStatusReason("")
     setIsStatusDialogOpen(true)
   }
 
@@ -196,33 +318,13 @@ export default function AdminAssistanceRequestsPage() {
 
     setIsUpdatingStatus(true)
     setMessage(null)
+    setRejectedUpdates([])
     try {
-      const result = await updateRequestStatus(selectedRequest._id.toString(), newStatus)
+      const result = await updateRequestStatus(selectedRequest._id.toString(), newStatus, statusReason)
 
       if (result.success) {
-        // Update the request in the local state
-        const updatedRequests = requests.map((req) =>
-          req._id === selectedRequest._id ? { ...req, status: newStatus } : req,
-        )
-        setRequests(updatedRequests)
-
-        // Apply filters to the updated requests
-        let filtered = [...updatedRequests]
-        if (statusFilter !== "all") {
-          filtered = filtered.filter((request) => request.status === statusFilter)
-        }
-        if (searchTerm) {
-          const term = searchTerm.toLowerCase()
-          filtered = filtered.filter(
-            (request) =>
-              request.requestNumber.toLowerCase().includes(term) ||
-              request.characterId.toLowerCase().includes(term) ||
-              request.contactInfo.toLowerCase().includes(term) ||
-              (request.assistanceTypeName && request.assistanceTypeName.toLowerCase().includes(term)),
-          )
-        }
-        setFilteredRequests(filtered)
-
+        // Reload the page, the request may no longer match the filters
+        await loadRequests()
         setMessage({ type: "success", text: result.message })
         setIsStatusDialogOpen(false)
       } else {
@@ -242,34 +344,17 @@ export default function AdminAssistanceRequestsPage() {
 
     setIsBulkActionInProgress(true)
     setMessage(null)
+    setRejectedUpdates([])
     try {
-      const result = await bulkUpdateRequestStatus(selectedRequestIds, newStatus)
+      const result = await bulkUpdateRequestStatus(selectedRequestIds, newStatus, statusReason)
 
-      if (result.success) {
-        // Update the requests in the local state
-        const updatedRequests = requests.map((req) =>
-          selectedRequestIds.includes(req._id?.toString() || "") ? { ...req, status: newStatus } : req,
-        )
-        setRequests(updatedRequests)
-
-        // Apply filters to the updated requests
-        let filtered = [...updatedRequests]
-        if (statusFilter !== "all") {
-          filtered = filtered.filter((request) => request.status === statusFilter)
-        }
-        if (searchTerm) {
-          const term = searchTerm.toLowerCase()
-          filtered = filtered.filter(
-            (request) =>
-              request.requestNumber.toLowerCase().includes(term) ||
-              request.characterId.toLowerCase().includes(term) ||
-              request.contactInfo.toLowerCase().includes(term) ||
-              (request.assistanceTypeName && request.assistanceTypeName.toLowerCase().includes(term)),
-          )
-        }
-        setFilteredRequests(filtered)
+      // Requests that could not move are listed under the message, the rest are updated in place
+      setRejectedUpdates(result.rejected)
 
-        setMessage({ type: "success", text: result.message })
+      if (result.success) {
+        // Reload the page, updated requests may no longer match the filters
+        await loadRequests()
+        setMessage({ type: result.rejected.length > 0 ? "error" : "success", text: result.message })
         setIsBulkStatusDialogOpen(false)
         setSelectedRequestIds([])
       } else {
@@ -297,27 +382,8 @@ export default function AdminAssistanceRequestsPage() {
       const result = await bulkDeleteRequests(idsToDelete)
 
       if (result.success) {
-        // Remove the deleted requests from the local state
-        const remainingRequests = requests.filter((req) => !idsToDelete.includes(req._id?.toString() || ""))
-        setRequests(remainingRequests)
-
-        // Apply filters to the updated requests
-        let filtered = [...remainingRequests]
-        if (statusFilter !== "all") {
-          filtered = filtered.filter((request) => request.status === statusFilter)
-        }
-        if (searchTerm) {
-          const term = searchTerm.toLowerCase()
-          filtered = filtered.filter(
-            (request) =>
-              request.requestNumber.toLowerCase().includes(term) ||
-              request.characterId.toLowerCase().includes(term) ||
-              request.contactInfo.toLowerCase().includes(term) ||
-              (request.assistanceTypeName && request.assistanceTypeName.toLowerCase().includes(term)),
-          )
-        }
-        setFilteredRequests(filtered)
-
+        // Reload the page so it fills up with the requests after the deleted ones
+        await loadRequests()
         setMessage({ type: "success", text: result.message })
         setIsBulkDeleteDialogOpen(false)
         setSelectedRequestIds([])
@@ -333,14 +399,40 @@ export default function AdminAssistanceRequestsPage() {
     }
   }
 
+  // Assign requests to a staff member, or unassign them with a null staffId
+  const handleAssign = async (ids: string[], staffId: string | null) => {
+    if (ids.length === 0) return
+
+    setIsBulkActionInProgress(true)
+    setMessage(null)
+    setRejectedUpdates([])
+    try {
+      const result = await assignRequests(ids, staffId)
+
+      if (result.success) {
+        // Reload the page, reassigned requests may no longer match the assignee filter
+        await loadRequests()
+        setMessage({ type: "success", text: result.message })
+        setSelectedRequestIds([])
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error assigning requests:", error)
+      setMessage({ type: "error", text: "Failed to assign requests" })
+    } finally {
+      setIsBulkActionInProgress(false)
+    }
+  }
+
   // Toggle select all requests
   const toggleSelectAll = () => {
-    if (selectedRequestIds.length === filteredRequests.length) {
+    if (selectedRequestIds.length === requests.length) {
       // If all are selected, deselect all
       setSelectedRequestIds([])
     } else {
       // Otherwise, select all
-      setSelectedRequestIds(filteredRequests.map((req) => req._id?.toString() || "").filter((id) => id))
+      setSelectedRequestIds(requests.map((req) => req._id?.toString() || "").filter((id) => id))
     }
   }
 
@@ -360,6 +452,12 @@ export default function AdminAssistanceRequestsPage() {
   // Status badge styling
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return (
+          <Badge variant="outline" className="bg-slate-500/10 text-slate-500 border-slate-500/20">
+            Waitlisted
+          </Badge>
+        )
       case "pending":
         return (
           <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
@@ -372,6 +470,18 @@ export default function AdminAssistanceRequestsPage() {
             Confirmed
           </Badge>
         )
+      case "in_progress":
+        return (
+          <Badge variant="outline" className="bg-purple-500/10 text-purple-500 border-purple-500/20">
+            In Progress
+          </Badge>
+        )
+      case "on_hold":
+        return (
+          <Badge variant="outline" className="bg-orange-500/10 text-orange-500 border-orange-500/20">
+            On Hold
+          </Badge>
+        )
       case "completed":
         return (
           <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
@@ -392,10 +502,16 @@ export default function AdminAssistanceRequestsPage() {
   // Status icon
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return <Hourglass className="h-4 w-4 text-slate-500" />
       case "pending":
         return <Clock className="h-4 w-4 text-yellow-500" />
       case "confirmed":
         return <CalendarClock className="h-4 w-4 text-blue-500" />
+      case "in_progress":
+        return <PlayCircle className="h-4 w-4 text-purple-500" />
+      case "on_hold":
+        return <PauseCircle className="h-4 w-4 text-orange-500" />
       case "completed":
         return <CheckCircle className="h-4 w-4 text-green-500" />
       case "cancelled":
@@ -405,32 +521,8 @@ export default function AdminAssistanceRequestsPage() {
     }
   }
 
-  // Format time string to AM/PM format
-  const formatTime = (timeString: string | undefined): string => {
-    if (!timeString) return ""
-    const [hours, minutes] = timeString.split(":").map(Number)
-    const period = hours >= 12 ? "PM" : "AM"
-    const displayHours = hours % 12 || 12
-    return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
-  }
-
-  // Format selected days for display
-  const formatSelectedDays = (days: string[] | undefined): string => {
-    if (!days || !Array.isArray(days) || days.length === 0) return "No days selected"
-    if (days.length === 7) return "Every day"
-
-    const dayLabels: Record<string, string> = {
-      monday: "Mon",
-      tuesday: "Tue",
-      wednesday: "Wed",
-      thursday: "Thu",
-      friday: "Fri",
-      saturday: "Sat",
-      sunday: "Sun",
-    }
-
-    return days.map((day) => dayLabels[day] || day).join(", ")
-  }
+  // Statuses the request in the status dialog can move to
+  const selectedStatusOptions = selectedRequest ? getAllowedTransitions(selectedRequest.status) : []
 
   // Show loading while checking authentication
   if (status === "loading") {
@@ -445,7 +537,7 @@ export default function AdminAssistanceRequestsPage() {
   }
 
   // If not admin, show login modal
-  if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
     return (
       <LoginModal
         isOpen={isLoginModalOpen}
@@ -474,10 +566,54 @@ export default function AdminAssistanceRequestsPage() {
 
       {message && (
         <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
-          <AlertDescription>{message.text}</AlertDescription>
+          <AlertDescription>
+            {message.text}
+            {rejectedUpdates.length > 0 && (
+              <ul className="mt-2 list-disc pl-5 text-sm">
+                {rejectedUpdates.map((rejected) => (
+                  <li key={rejected.id}>
+                    {rejected.requestNumber ? `#${rejected.requestNumber}` : rejected.id}: {rejected.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </AlertDescription>
         </Alert>
       )}
 
+      {workload.length > 0 && (
+        <Card className="mb-4">
+          <CardHeader className="pb-2">
+            <h2 className="text-lg font-semibold">Workload</h2>
+            <p className="text-sm text-muted-foreground">Open requests per helper, select one to see their queue</p>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {workload.map((entry) => {
+              const filterValue = entry.assignedTo ?? UNASSIGNED_FILTER
+              return (
+                <Button
+                  key={filterValue}
+                  variant={query.assignedTo === filterValue ? "default" : "outline"}
+                  className="h-auto flex-col items-start py-2"
+                  onClick={() =>
+                    updateFilters({ assignee: query.assignedTo === filterValue ? undefined : filterValue })
+                  }
+                >
+                  <span className="font-medium">
+                    {getStaffName(entry.assignedTo)}: {entry.total}
+                  </span>
+                  <span className="text-xs opacity-80">
+                    {BOOKING_STATUSES.filter((bookingStatus) => entry.counts[bookingStatus])
+                      .map((bookingStatus) => `${entry.counts[bookingStatus]} ${BOOKING_STATUS_LABELS[bookingStatus]}`)
+                      .join(", ")}
+                  </span>
+                </Button>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex flex-col md:flex-row gap-4 mb-2">
@@ -492,7 +628,10 @@ export default function AdminAssistanceRequestsPage() {
             </div>
             <div className="flex gap-2">
               <div className="w-[180px]">
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <Select
+                  value={query.status || ALL}
+                  onValueChange={(value) => updateFilters({ status: value === ALL ? undefined : value })}
+                >
                   <SelectTrigger>
                     <div className="flex items-center gap-2">
                       <Filter className="h-4 w-4" />
@@ -500,11 +639,50 @@ export default function AdminAssistanceRequestsPage() {
                     </div>
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="confirmed">Confirmed</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                    <SelectItem value={ALL}>All Statuses</SelectItem>
+                    {BOOKING_STATUSES.map((bookingStatus) => (
+                      <SelectItem key={bookingStatus} value={bookingStatus}>
+                        {BOOKING_STATUS_LABELS[bookingStatus]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-[180px]">
+                <Select
+                  value={query.typeId || ALL}
+                  onValueChange={(value) => updateFilters({ type: value === ALL ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Types</SelectItem>
+                    {assistanceTypes.map((type) => (
+                      <SelectItem key={type._id?.toString()} value={type._id?.toString() || ""}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-[180px]">
+                <Select
+                  value={query.assignedTo || ALL}
+                  onValueChange={(value) => updateFilters({ assignee: value === ALL ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by assignee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Assignees</SelectItem>
+                    <SelectItem value={MY_QUEUE_FILTER}>My Queue</SelectItem>
+                    <SelectItem value={UNASSIGNED_FILTER}>Unassigned</SelectItem>
+                    {staffUsers.map((user) => (
+                      <SelectItem key={user._id?.toString()} value={user._id?.toString() || ""}>
+                        {user.name || user.email}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -513,6 +691,43 @@ export default function AdminAssistanceRequestsPage() {
               </Button>
             </div>
           </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Created from</span>
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={query.dateRange?.from || ""}
+                onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={query.dateRange?.to || ""}
+                onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+              />
+            </div>
+            <div className="w-[160px]">
+              <Select
+                value={query.sort || "newest"}
+                onValueChange={(value) => updateFilters({ sort: value === "oldest" ? value : undefined })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           {/* Debug info - remove in production */}
@@ -523,7 +738,7 @@ export default function AdminAssistanceRequestsPage() {
             <div className="flex justify-center items-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : filteredRequests.length === 0 ? (
+          ) : requests.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-muted-foreground">No assistance requests found</p>
             </div>
@@ -540,13 +755,40 @@ export default function AdminAssistanceRequestsPage() {
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
-                      onClick={() => setIsBulkStatusDialogOpen(true)}
+                      onClick={() => {
+                        setStatusReason("")
+                        setIsBulkStatusDialogOpen(true)
+                      }}
                       disabled={isBulkActionInProgress}
                       className="flex-1 sm:flex-none"
                     >
                       <Clock className="mr-2 h-4 w-4" />
                       Update Status
                     </Button>
+                    <div className="w-[180px]">
+                      <Select
+                        value=""
+                        onValueChange={(value) =>
+                          handleAssign(selectedRequestIds, value === UNASSIGNED_FILTER ? null : value)
+                        }
+                        disabled={isBulkActionInProgress}
+                      >
+                        <SelectTrigger>
+                          <div className="flex items-center gap-2">
+                            <UserCheck className="h-4 w-4" />
+                            <SelectValue placeholder="Assign to..." />
+                          </div>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableStaff.map((user) => (
+                            <SelectItem key={user._id?.toString()} value={user._id?.toString() || ""}>
+                              {user.name || user.email}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={UNASSIGNED_FILTER}>Unassign</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <Button
                       variant="destructive"
                       onClick={() => setIsBulkDeleteDialogOpen(true)}
@@ -565,7 +807,7 @@ export default function AdminAssistanceRequestsPage() {
                   <TableRow>
                     <TableHead className="w-[40px]">
                       <Checkbox
-                        checked={selectedRequestIds.length === filteredRequests.length && filteredRequests.length > 0}
+                        checked={selectedRequestIds.length === requests.length && requests.length > 0}
                         onCheckedChange={toggleSelectAll}
                         aria-label="Select all requests"
                         className="border-primary/50 data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
@@ -576,11 +818,12 @@ export default function AdminAssistanceRequestsPage() {
                     <TableHead>Assistance Type</TableHead>
                     <TableHead>Schedule</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Assigned To</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
 
-                  {filteredRequests.map((request) => {
+                  {requests.map((request) => {
                     const requestId = request._id?.toString() || ""
                     const unreadCount = unreadCounts[requestId] || 0
                     const hasUnreadComments = unreadCount > 0
@@ -602,21 +845,37 @@ export default function AdminAssistanceRequestsPage() {
                         <TableCell>{request.characterId}</TableCell>
                         <TableCell>{request.assistanceTypeName}</TableCell>
                         <TableCell>
-                          <div className="text-xs">
-                            <div>{formatSelectedDays(request.selectedDays)}</div>
-                            <div>
-                              {request.timeRangePreset === "custom"
-                                ? `${formatTime(request.startTime)} - ${formatTime(request.endTime)}`
-                                : request.timeRangePreset}
+                          <BookingSchedule booking={request} compact />
+                          {blackoutFlags[requestId] && (
+                            <div
+                              className="mt-1 flex items-center gap-1 text-xs text-destructive"
+                              title={blackoutFlags[requestId]
+                                .map(
+                                  (blackout) =>
+                                    `${blackout.reason}: ${format(new Date(blackout.startsAt), "MMM d, h:mm a")} - ` +
+                                    format(new Date(blackout.endsAt), "MMM d, h:mm a"),
+                                )
+                                .join("\n")}
+                            >
+                              <CalendarOff className="h-3 w-3" />
+                              Blackout: {blackoutFlags[requestId].map((blackout) => blackout.reason).join(", ")}
                             </div>
-                          </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             {getStatusIcon(request.status)}
                             {getStatusBadge(request.status)}
+                            {waitlistPositions[requestId] && (
+                              <span className="text-xs text-muted-foreground">
+                                #{waitlistPositions[requestId]} in queue
+                              </span>
+                            )}
                           </div>
                         </TableCell>
+                        <TableCell className={request.assignedTo ? "" : "text-muted-foreground"}>
+                          {getStaffName(request.assignedTo)}
+                        </TableCell>
                         <TableCell>
                           {request.createdAt ? format(new Date(request.createdAt), "MMM d, yyyy") : "N/A"}
                         </TableCell>
@@ -649,6 +908,30 @@ export default function AdminAssistanceRequestsPage() {
                                   <Clock className="mr-2 h-4 w-4" />
                                   Update Status
                                 </DropdownMenuItem>
+                                <DropdownMenuSub>
+                                  <DropdownMenuSubTrigger>
+                                    <UserCheck className="mr-2 h-4 w-4" />
+                                    Assign To
+                                  </DropdownMenuSubTrigger>
+                                  <DropdownMenuSubContent>
+                                    {assignableStaff.map((user) => (
+                                      <DropdownMenuItem
+                                        key={user._id?.toString()}
+                                        onClick={() => handleAssign([requestId], user._id?.toString() || null)}
+                                        disabled={user._id?.toString() === request.assignedTo}
+                                      >
+                                        {user.name || user.email}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuSubContent>
+                                </DropdownMenuSub>
+                                {request.assignedTo && (
+                                  <DropdownMenuItem onClick={() => handleAssign([requestId], null)}>
+                                    <UserMinus className="mr-2 h-4 w-4" />
+                                    Unassign
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuSeparator />
                                 <DropdownMenuItem
                                   onClick={() => {
                                     setSelectedRequest(request)
@@ -673,8 +956,20 @@ export default function AdminAssistanceRequestsPage() {
         </CardContent>
         <CardFooter className="flex justify-between">
           <p className="text-sm text-muted-foreground">
-            Showing {filteredRequests.length} of {requests.length} requests
+            {totalCount === 0
+              ? "No requests"
+              : `Showing ${pageStart + 1}-${pageStart + requests.length} of ${totalCount} requests`}
           </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handlePreviousPage} disabled={!query.cursor || isLoading}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleNextPage} disabled={!nextCursor || isLoading}>
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
         </CardFooter>
       </Card>
 
@@ -693,26 +988,45 @@ export default function AdminAssistanceRequestsPage() {
                 {selectedRequest && getStatusBadge(selectedRequest.status)}
               </div>
             </div>
-            <div className="space-y-2">
-              <p className="text-sm font-medium">New Status:</p>
-              <Select value={newStatus} onValueChange={(value: any) => setNewStatus(value)}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select new status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="confirmed">Confirmed</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            {selectedStatusOptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This request is {BOOKING_STATUS_LABELS[selectedRequest?.status ?? "completed"].toLowerCase()} and its
+                status can no longer be changed.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">New Status:</p>
+                  <Select value={newStatus} onValueChange={(value: BookingStatus) => setNewStatus(value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select new status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selectedStatusOptions.map((bookingStatus) => (
+                        <SelectItem key={bookingStatus} value={bookingStatus}>
+                          {BOOKING_STATUS_LABELS[bookingStatus]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Reason (optional):</p>
+                  <Textarea
+                    value={statusReason}
+                    onChange={(e) => setStatusReason(e.target.value)}
+                    placeholder="Shown in the request's status history"
+                    rows={2}
+                  />
+                </div>
+              </>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsStatusDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleStatusUpdate} disabled={isUpdatingStatus}>
+            <Button onClick={handleStatusUpdate} disabled={isUpdatingStatus || selectedStatusOptions.length === 0}>
               {isUpdatingStatus ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -736,17 +1050,30 @@ export default function AdminAssistanceRequestsPage() {
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <p className="text-sm font-medium">New Status:</p>
-              <Select value={newStatus} onValueChange={(value: any) => setNewStatus(value)}>
+              <Select value={newStatus} onValueChange={(value: BookingStatus) => setNewStatus(value)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select new status" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="confirmed">Confirmed</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  {BOOKING_STATUSES.map((bookingStatus) => (
+                    <SelectItem key={bookingStatus} value={bookingStatus}>
+                      {BOOKING_STATUS_LABELS[bookingStatus]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                Requests that can&apos;t move to this status from their current one are skipped and listed afterwards.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Reason (optional):</p>
+              <Textarea
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder="Shown in each request's status history"
+                rows={2}
+              />
             </div>
           </div>
           <DialogFooter>
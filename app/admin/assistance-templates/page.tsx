@@ -46,6 +46,7 @@ import {
 import { getAssistanceTypes } from "@/actions/assistance"
 import type { AssistanceTemplate } from "@/models/assistance-template"
 import type { AssistanceType } from "@/models/assistance"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export default function AdminAssistanceTemplatesPage() {
   const router = useRouter()
@@ -65,7 +66,7 @@ export default function AdminAssistanceTemplatesPage() {
 
   // Check authentication
   useEffect(() => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       setIsLoginModalOpen(true)
     } else {
       setIsLoginModalOpen(false)
@@ -74,7 +75,7 @@ export default function AdminAssistanceTemplatesPage() {
 
   // Handle modal close - redirect to home if not authenticated
   const handleModalClose = () => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       router.push("/")
     } else {
       setIsLoginModalOpen(false)
@@ -84,7 +85,7 @@ export default function AdminAssistanceTemplatesPage() {
   // Load templates and assistance types
   useEffect(() => {
     const loadData = async () => {
-      if (status !== "authenticated" || session?.user?.role !== "admin") return
+      if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
 
       setIsLoading(true)
       try {
@@ -267,7 +268,7 @@ export default function AdminAssistanceTemplatesPage() {
   }
 
   // If not admin, show login modal
-  if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
     return (
       <LoginModal
         isOpen={isLoginModalOpen}
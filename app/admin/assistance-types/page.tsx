@@ -12,15 +12,23 @@ import {
   updateAssistanceTypeOrder,
   toggleAssistanceTypePhotoUpload,
   toggleAssistanceTypeSchedule,
+  updateAssistanceTypeGame,
+  updateAssistanceTypeCapacity,
 } from "@/actions/assistance"
+import { getAllGames } from "@/actions/games"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { AssistanceType } from "@/models/assistance"
+import type { Game } from "@/models/game"
 import Link from "next/link"
 import { LoginModal } from "@/components/login-modal"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export default function AdminAssistanceTypesPage() {
   const router = useRouter()
   const { data: session, status } = useSession()
   const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
+  const [games, setGames] = useState<Game[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
@@ -28,7 +36,7 @@ export default function AdminAssistanceTypesPage() {
 
   // Check authentication
   useEffect(() => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       setIsLoginModalOpen(true)
     } else {
       setIsLoginModalOpen(false)
@@ -37,7 +45,7 @@ export default function AdminAssistanceTypesPage() {
 
   // Handle modal close - redirect to home if not authenticated
   const handleModalClose = () => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       router.push("/")
     } else {
       setIsLoginModalOpen(false)
@@ -47,11 +55,12 @@ export default function AdminAssistanceTypesPage() {
   // Load assistance types
   useEffect(() => {
     const loadAssistanceTypes = async () => {
-      if (status !== "authenticated" || session?.user?.role !== "admin") return
+      if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
 
       setIsLoading(true)
       try {
-        const types = await getAssistanceTypes()
+        const [types, gamesData] = await Promise.all([getAssistanceTypes(), getAllGames()])
+        setGames(gamesData)
         // Sort by listOrder
         const sortedTypes = [...types].sort((a, b) => (a.listOrder || 0) - (b.listOrder || 0))
         setAssistanceTypes(sortedTypes)
@@ -165,6 +174,48 @@ export default function AdminAssistanceTypesPage() {
     }
   }
 
+  const changeGame = async (id: string, gameId: string) => {
+    try {
+      setIsSaving(true)
+      const result = await updateAssistanceTypeGame(id, gameId)
+
+      if (result.success) {
+        setAssistanceTypes((prev) => prev.map((type) => (type._id === id ? { ...type, gameId } : type)))
+        setMessage({ type: "success", text: result.message })
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error changing game:", error)
+      setMessage({ type: "error", text: "Failed to update assistance type game" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Saves the slot limit when the field loses focus, if it changed
+  const changeCapacity = async (type: AssistanceType, value: string) => {
+    const maxSlotsPerWindow = value.trim() === "" ? 0 : Number(value)
+    if (maxSlotsPerWindow === (type.maxSlotsPerWindow ?? 0)) return
+
+    try {
+      setIsSaving(true)
+      const result = await updateAssistanceTypeCapacity(type._id as string, maxSlotsPerWindow)
+
+      if (result.success) {
+        setAssistanceTypes((prev) => prev.map((t) => (t._id === type._id ? { ...t, maxSlotsPerWindow } : t)))
+        setMessage({ type: "success", text: result.message })
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error changing capacity:", error)
+      setMessage({ type: "error", text: "Failed to update capacity" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   // Show loading while checking authentication
   if (status === "loading") {
     return (
@@ -178,7 +229,7 @@ export default function AdminAssistanceTypesPage() {
   }
 
   // If not admin, show login modal
-  if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
     return (
       <LoginModal
         isOpen={isLoginModalOpen}
@@ -193,7 +244,7 @@ export default function AdminAssistanceTypesPage() {
       <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Assistance Types</h1>
-          <p className="text-muted-foreground">Manage and reorder assistance types</p>
+          <p className="text-muted-foreground">Manage, reorder and assign assistance types to games</p>
         </div>
         <div className="flex items-center gap-2">
           <Button variant="outline" size="sm" asChild>
@@ -248,10 +299,41 @@ export default function AdminAssistanceTypesPage() {
                         >
                           {type.allowSchedule ? "Schedule Enabled" : "No Schedule"}
                         </span>
+                        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                          Slots per day and time
+                          <Input
+                            key={type.maxSlotsPerWindow ?? 0}
+                            type="number"
+                            min={0}
+                            className="h-6 w-16 px-2 text-xs"
+                            defaultValue={type.maxSlotsPerWindow || ""}
+                            placeholder="No limit"
+                            onBlur={(e) => changeCapacity(type, e.target.value)}
+                            disabled={isSaving || type.allowSchedule === false}
+                          />
+                        </label>
                       </div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <div className="w-[180px]">
+                      <Select
+                        value={type.gameId || ""}
+                        onValueChange={(gameId) => changeGame(type._id as string, gameId)}
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select game" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {games.map((game) => (
+                            <SelectItem key={game._id} value={game._id as string}>
+                              {game.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <Button
                       variant="outline"
                       size="icon"
@@ -0,0 +1,354 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Loader2, ArrowLeft, RefreshCw, Eye, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { LoginModal } from "@/components/login-modal"
+import { getAuditLog, getAuditActors, type AuditLogFilters } from "@/actions/audit-log"
+import { type AuditEntity, type AuditLogEntry, AUDIT_ENTITY_LABELS } from "@/models/audit-log"
+import { isStaffRole } from "@/lib/staff-roles"
+
+const ALL = "all"
+
+// Fields that change on every write and would only add noise to the change summary
+const IGNORED_FIELDS = ["updatedAt"]
+
+// Top-level fields whose values differ between the before and after snapshots
+function getChangedFields(entry: AuditLogEntry): string[] {
+  const before = entry.before || {}
+  const after = entry.after || {}
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  return [...fields].filter(
+    (field) =>
+      field !== "_id" &&
+      !IGNORED_FIELDS.includes(field) &&
+      JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+  )
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—"
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+export default function AdminAuditLogPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [actors, setActors] = useState<string[]>([])
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  // Load the audit log whenever the filters change
+  const loadAuditLog = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [logEntries, logActors] = await Promise.all([getAuditLog(filters), getAuditActors()])
+      setEntries(logEntries)
+      setActors(logActors)
+    } catch (error) {
+      console.error("Error loading audit log:", error)
+      setError("Failed to load audit log")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAuditLog()
+  }, [status, session, filters])
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }))
+  }
+
+  const hasFilters = !!(filters.actorEmail || filters.entity || filters.from || filters.to)
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">Every change made from the admin console</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={loadAuditLog} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>Showing the most recent 200 entries that match the filters</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 mb-6 md:grid-cols-5 md:items-end">
+            <div className="space-y-2">
+              <Label>Actor</Label>
+              <Select
+                value={filters.actorEmail || ALL}
+                onValueChange={(value) => updateFilter({ actorEmail: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All staff</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor} value={actor}>
+                      {actor}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select
+                value={filters.entity || ALL}
+                onValueChange={(value) => updateFilter({ entity: value === ALL ? undefined : (value as AuditEntity) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All entities</SelectItem>
+                  {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+                    <SelectItem key={entity} value={entity}>
+                      {AUDIT_ENTITY_LABELS[entity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from || ""}
+                onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to || ""}
+                onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              />
+            </div>
+
+            <Button variant="ghost" onClick={() => setFilters({})} disabled={!hasFilters}>
+              <X className="mr-2 h-4 w-4" />
+              Clear Filters
+            </Button>
+          </div>
+
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No audit log entries found</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Changed Fields</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const changedFields = getChangedFields(entry)
+
+                    return (
+                      <TableRow key={entry._id as string}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.actorEmail}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{AUDIT_ENTITY_LABELS[entry.entity]}</div>
+                          <code className="text-xs text-muted-foreground">{entry.targetId}</code>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {!entry.before && entry.after
+                            ? "Created"
+                            : entry.before && !entry.after
+                              ? "Deleted"
+                              : changedFields.join(", ") || "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                            <Eye className="mr-2 h-4 w-4" />
+                            View
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entry Details Dialog */}
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry?.action}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry &&
+                `${selectedEntry.actorEmail} on ${format(new Date(selectedEntry.createdAt), "PPP 'at' p")}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedEntry && (
+            <div className="space-y-4">
+              {getChangedFields(selectedEntry).length > 0 && selectedEntry.before && selectedEntry.after && (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {getChangedFields(selectedEntry).map((field) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">{field}</TableCell>
+                          <TableCell className="text-sm break-all">
+                            {formatValue(selectedEntry.before?.[field])}
+                          </TableCell>
+                          <TableCell className="text-sm break-all">
+                            {formatValue(selectedEntry.after?.[field])}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Before</h4>
+                  <pre className="max-h-[40vh] overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {selectedEntry.before ? JSON.stringify(selectedEntry.before, null, 2) : "—"}
+                  </pre>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">After</h4>
+                  <pre className="max-h-[40vh] overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {selectedEntry.after ? JSON.stringify(selectedEntry.after, null, 2) : "—"}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    </div>
+  )
+}
@@ -0,0 +1,419 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Loader2, ArrowLeft, Plus, Pencil, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { LoginModal } from "@/components/login-modal"
+import { deleteBlackout, getBlackouts, saveBlackout } from "@/actions/blackouts"
+import { getAssistanceTypes } from "@/actions/assistance"
+import { isBlackoutActive } from "@/lib/blackouts"
+import { isStaffRole } from "@/lib/staff-roles"
+import type { AssistanceType } from "@/models/assistance"
+import type { Blackout } from "@/models/blackout"
+
+const ALL = "all"
+
+const EMPTY_FORM = { assistanceTypeId: ALL, startsAt: "", endsAt: "", reason: "" }
+
+// Value for a datetime-local input, in the viewer's zone
+const toInputValue = (date: Date | string) => format(new Date(date), "yyyy-MM-dd'T'HH:mm")
+
+const formatPeriodDate = (date: Date | string) => format(new Date(date), "EEE, MMM d, yyyy h:mm a")
+
+export default function AdminBlackoutsPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [blackouts, setBlackouts] = useState<Blackout[]>([])
+  const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingBlackout, setEditingBlackout] = useState<Blackout | null>(null)
+  const [blackoutToDelete, setBlackoutToDelete] = useState<Blackout | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  const loadBlackouts = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    try {
+      setBlackouts(await getBlackouts())
+    } catch (error) {
+      console.error("Error loading blackouts:", error)
+      setMessage({ type: "error", text: "Failed to load blackouts" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadBlackouts()
+  }, [status, session])
+
+  useEffect(() => {
+    getAssistanceTypes()
+      .then(setAssistanceTypes)
+      .catch((error) => console.error("Error loading assistance types:", error))
+  }, [])
+
+  const getAssistanceTypeName = (id?: string) => {
+    if (!id) return "All types"
+    return assistanceTypes.find((type) => type._id === id)?.name || "Unknown type"
+  }
+
+  const getBlackoutState = (blackout: Blackout) => {
+    if (isBlackoutActive(blackout)) return { label: "Active", variant: "destructive" as const }
+    if (new Date(blackout.startsAt) > new Date()) return { label: "Upcoming", variant: "default" as const }
+    return { label: "Ended", variant: "outline" as const }
+  }
+
+  const openDialog = (blackout: Blackout | null) => {
+    setEditingBlackout(blackout)
+    setForm(
+      blackout
+        ? {
+            assistanceTypeId: blackout.assistanceTypeId || ALL,
+            startsAt: toInputValue(blackout.startsAt),
+            endsAt: toInputValue(blackout.endsAt),
+            reason: blackout.reason,
+          }
+        : EMPTY_FORM,
+    )
+    setFormError(null)
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.startsAt || !form.endsAt) {
+      setFormError("Choose when the blackout starts and ends")
+      return
+    }
+
+    setIsSaving(true)
+    setFormError(null)
+    try {
+      // Inputs are in the viewer's zone, the server stores the instant
+      const result = await saveBlackout(
+        {
+          assistanceTypeId: form.assistanceTypeId === ALL ? "" : form.assistanceTypeId,
+          startsAt: new Date(form.startsAt).toISOString(),
+          endsAt: new Date(form.endsAt).toISOString(),
+          reason: form.reason,
+        },
+        editingBlackout?._id as string | undefined,
+      )
+      if (result.success) {
+        setMessage({ type: "success", text: result.message })
+        setIsDialogOpen(false)
+        await loadBlackouts()
+      } else {
+        setFormError(result.message)
+      }
+    } catch (error) {
+      console.error("Error saving blackout:", error)
+      setFormError("Failed to save blackout")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!blackoutToDelete?._id) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await deleteBlackout(blackoutToDelete._id as string)
+
+      if (result.success) {
+        setBlackouts((prev) => prev.filter((blackout) => blackout._id !== blackoutToDelete._id))
+        setMessage({ type: "success", text: result.message })
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error deleting blackout:", error)
+      setMessage({ type: "error", text: "Failed to delete blackout" })
+    } finally {
+      setIsSaving(false)
+      setBlackoutToDelete(null)
+    }
+  }
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Blackouts</h1>
+          <p className="text-muted-foreground">Block scheduling for maintenance windows and days off</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Blackout
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manage Blackouts</CardTitle>
+          <CardDescription>
+            New requests can&apos;t be scheduled during a blackout. Open requests that run into one are flagged on the
+            Assistance Requests page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : blackouts.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No blackouts found</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Assistance Type</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {blackouts.map((blackout) => {
+                    const state = getBlackoutState(blackout)
+
+                    return (
+                      <TableRow key={blackout._id as string}>
+                        <TableCell>
+                          <p className="text-sm">{formatPeriodDate(blackout.startsAt)}</p>
+                          <p className="text-xs text-muted-foreground">until {formatPeriodDate(blackout.endsAt)}</p>
+                        </TableCell>
+                        <TableCell>{getAssistanceTypeName(blackout.assistanceTypeId)}</TableCell>
+                        <TableCell className="max-w-xs">
+                          <p className="text-sm line-clamp-2">{blackout.reason}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={state.variant}>{state.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openDialog(blackout)}>
+                              <Pencil className="mr-2 h-4 w-4" />
+                              Edit
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setBlackoutToDelete(blackout)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter>
+          <p className="text-sm text-muted-foreground">Times are shown in your time zone</p>
+        </CardFooter>
+      </Card>
+
+      {/* Add / Edit Blackout Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingBlackout ? "Edit Blackout" : "Add Blackout"}</DialogTitle>
+            <DialogDescription>
+              The blackout ends at the end time, so a request can start right when it&apos;s over.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="assistanceTypeId">Assistance Type</Label>
+              <Select
+                value={form.assistanceTypeId}
+                onValueChange={(assistanceTypeId) => setForm({ ...form, assistanceTypeId })}
+              >
+                <SelectTrigger id="assistanceTypeId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {assistanceTypes.map((type) => (
+                    <SelectItem key={type._id as string} value={type._id as string}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input
+                  id="endsAt"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g., Server maintenance"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Blackout"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!blackoutToDelete} onOpenChange={(open) => !open && setBlackoutToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete blackout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests will be schedulable again during {blackoutToDelete?.reason || "this blackout"}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
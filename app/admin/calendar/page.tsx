@@ -0,0 +1,576 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { addDays, format, startOfWeek } from "date-fns"
+import {
+  Loader2,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  CalendarDays,
+  RefreshCw,
+  Rss,
+  Copy,
+  Check,
+} from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoginModal } from "@/components/login-modal"
+import { useViewerTimeZone } from "@/components/booking-schedule"
+import { getCalendarBookings } from "@/actions/admin-assistance"
+import { getAssistanceTypes } from "@/actions/assistance"
+import { getStaffUsers, resetCalendarFeed, revokeCalendarFeed } from "@/actions/staff-users"
+import {
+  SERVER_TIME_ZONE,
+  WEEK_DAYS,
+  convertSchedule,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  shiftDay,
+} from "@/lib/schedule-time-zone"
+import { BOOKING_STATUSES, BOOKING_STATUS_LABELS } from "@/lib/booking-status"
+import { isStaffRole } from "@/lib/staff-roles"
+import { cn } from "@/lib/utils"
+import {
+  type AssistanceType,
+  type Booking,
+  type BookingStatus,
+  MY_QUEUE_FILTER,
+  UNASSIGNED_FILTER,
+} from "@/models/assistance"
+import type { StaffUserSummary } from "@/models/staff-user"
+
+const ALL = "all"
+const ACTIVE = "active"
+
+const HOUR_HEIGHT = 48 // Pixels per hour in the grid
+const DEFAULT_FIRST_HOUR = 5
+const DEFAULT_LAST_HOUR = 19
+const MINUTES_PER_DAY = 24 * 60
+
+// One color per assistance type, in list order, repeating after the last
+const TYPE_COLORS = [
+  "bg-blue-500/15 border-blue-500 text-blue-700 dark:text-blue-300",
+  "bg-emerald-500/15 border-emerald-500 text-emerald-700 dark:text-emerald-300",
+  "bg-amber-500/15 border-amber-500 text-amber-700 dark:text-amber-300",
+  "bg-purple-500/15 border-purple-500 text-purple-700 dark:text-purple-300",
+  "bg-rose-500/15 border-rose-500 text-rose-700 dark:text-rose-300",
+  "bg-cyan-500/15 border-cyan-500 text-cyan-700 dark:text-cyan-300",
+  "bg-orange-500/15 border-orange-500 text-orange-700 dark:text-orange-300",
+  "bg-lime-500/15 border-lime-500 text-lime-700 dark:text-lime-300",
+]
+
+// Status is shown by the block outline, the fill stays the type color
+const STATUS_STYLES: Record<BookingStatus, string> = {
+  waitlisted: "border-dotted opacity-40",
+  pending: "border-dashed",
+  confirmed: "border-solid",
+  in_progress: "border-solid ring-2 ring-primary/60",
+  on_hold: "border-dotted opacity-60",
+  completed: "border-solid opacity-40",
+  cancelled: "border-dashed opacity-40 line-through",
+}
+
+interface CalendarBlock {
+  booking: Booking
+  day: string
+  start: number // Minutes from midnight
+  end: number
+  lane: number
+}
+
+function toMinutes(time: string | undefined): number | null {
+  const match = time?.match(/^(\d{2}):(\d{2})$/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+// The days and times a booking covers in the viewer's zone, split at midnight when it runs into the next day
+function getBookingSegments(booking: Booking, timeZone: string): Omit<CalendarBlock, "lane">[] {
+  const schedule = convertSchedule(getServerSchedule(booking), SERVER_TIME_ZONE, timeZone)
+  const start = toMinutes(schedule.startTime)
+  const end = toMinutes(schedule.endTime)
+  if (start === null || end === null) return []
+
+  return schedule.selectedDays.flatMap((day) =>
+    end > start
+      ? [{ booking, day, start, end }]
+      : [
+          { booking, day, start, end: MINUTES_PER_DAY },
+          { booking, day: shiftDay(day, 1), start: 0, end },
+        ].filter((segment) => segment.end > segment.start),
+  )
+}
+
+// Places each day's bookings in side by side lanes so overlapping ones don't cover each other
+function layoutWeek(
+  bookings: Booking[],
+  timeZone: string,
+): { blocks: Record<string, CalendarBlock[]>; lanes: Record<string, number> } {
+  const segments = bookings.flatMap((booking) => getBookingSegments(booking, timeZone))
+  const blocks: Record<string, CalendarBlock[]> = {}
+  const lanes: Record<string, number> = {}
+
+  for (const day of WEEK_DAYS) {
+    const laneEnds: number[] = []
+    blocks[day] = segments
+      .filter((segment) => segment.day === day)
+      .sort((a, b) => a.start - b.start || b.end - a.end)
+      .map((segment) => {
+        let lane = laneEnds.findIndex((end) => end <= segment.start)
+        if (lane === -1) lane = laneEnds.length
+        laneEnds[lane] = segment.end
+        return { ...segment, lane }
+      })
+    lanes[day] = Math.max(laneEnds.length, 1)
+  }
+
+  return { blocks, lanes }
+}
+
+export default function AdminCalendarPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [typeFilter, setTypeFilter] = useState(ALL)
+  const [assigneeFilter, setAssigneeFilter] = useState(ALL)
+  const [staffUsers, setStaffUsers] = useState<StaffUserSummary[]>([])
+  const [statusFilter, setStatusFilter] = useState(ACTIVE)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+  const viewerTimeZone = useViewerTimeZone()
+  const [isFeedDialogOpen, setIsFeedDialogOpen] = useState(false)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [feedMessage, setFeedMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isFeedSaving, setIsFeedSaving] = useState(false)
+  const [copiedFeedUrl, setCopiedFeedUrl] = useState(false)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  // Bookings made after the week being shown weren't scheduled in it yet
+  const loadBookings = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    try {
+      const data = await getCalendarBookings({
+        typeId: typeFilter === ALL ? undefined : typeFilter,
+        assignedTo: assigneeFilter === ALL ? undefined : assigneeFilter,
+        statuses: statusFilter === ACTIVE ? undefined : [statusFilter as BookingStatus],
+        createdBefore: addDays(weekStart, 7),
+      })
+      setBookings(data)
+    } catch (error) {
+      console.error("Error loading calendar:", error)
+      setMessage({ type: "error", text: "Failed to load scheduled requests" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadBookings()
+  }, [status, session, weekStart, typeFilter, assigneeFilter, statusFilter])
+
+  useEffect(() => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    getAssistanceTypes()
+      .then(setAssistanceTypes)
+      .catch((error) => console.error("Error loading assistance types:", error))
+    getStaffUsers()
+      .then(setStaffUsers)
+      .catch((error) => console.error("Error loading staff users:", error))
+  }, [status, session])
+
+  const openFeedDialog = () => {
+    setFeedUrl(null)
+    setFeedMessage(null)
+    setIsFeedDialogOpen(true)
+  }
+
+  // The link is only shown right after it's made, making a new one turns off the old
+  const handleResetFeed = async () => {
+    setIsFeedSaving(true)
+    try {
+      const result = await resetCalendarFeed()
+      if (result.success && result.feedPath) {
+        setFeedUrl(`${window.location.origin}${result.feedPath}`)
+      }
+      setFeedMessage({ type: result.success ? "success" : "error", text: result.message })
+    } catch (error) {
+      console.error("Error creating calendar feed link:", error)
+      setFeedMessage({ type: "error", text: "Failed to create calendar feed link" })
+    } finally {
+      setIsFeedSaving(false)
+    }
+  }
+
+  const handleRevokeFeed = async () => {
+    setIsFeedSaving(true)
+    try {
+      const result = await revokeCalendarFeed()
+      setFeedUrl(null)
+      setFeedMessage({ type: result.success ? "success" : "error", text: result.message })
+    } catch (error) {
+      console.error("Error turning off calendar feed:", error)
+      setFeedMessage({ type: "error", text: "Failed to turn off calendar feed" })
+    } finally {
+      setIsFeedSaving(false)
+    }
+  }
+
+  const copyFeedUrl = () => {
+    if (!feedUrl) return
+
+    navigator.clipboard
+      .writeText(feedUrl)
+      .then(() => {
+        setCopiedFeedUrl(true)
+        setTimeout(() => setCopiedFeedUrl(false), 2000)
+      })
+      .catch((error) => console.error("Failed to copy: ", error))
+  }
+
+  const getTypeColor = (typeId: string) => {
+    const index = assistanceTypes.findIndex((type) => type._id === typeId)
+    return TYPE_COLORS[(index === -1 ? assistanceTypes.length : index) % TYPE_COLORS.length]
+  }
+
+  const { blocks, lanes } = layoutWeek(bookings, viewerTimeZone)
+  const allBlocks = Object.values(blocks).flat()
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...allBlocks.map((block) => Math.floor(block.start / 60)))
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...allBlocks.map((block) => Math.ceil(block.end / 60)))
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index)
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Calendar</h1>
+          <p className="text-muted-foreground">Scheduled assistance for the week</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={openFeedDialog}>
+            <Rss className="mr-2 h-4 w-4" />
+            Subscribe
+          </Button>
+          <Button variant="outline" size="sm" onClick={loadBookings} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="min-w-[220px]">
+                    <CalendarDays className="mr-2 h-4 w-4" />
+                    {format(weekStart, "MMM d")} - {format(addDays(weekStart, 6), "MMM d, yyyy")}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    weekStartsOn={1}
+                    selected={weekStart}
+                    onSelect={(date) => {
+                      if (!date) return
+                      setWeekStart(startOfWeek(date, { weekStartsOn: 1 }))
+                      setIsDatePickerOpen(false)
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+              >
+                This Week
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <div className="w-[180px]">
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Types</SelectItem>
+                    {assistanceTypes.map((type) => (
+                      <SelectItem key={type._id} value={type._id as string}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-[180px]">
+                <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by assignee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All Assignees</SelectItem>
+                    <SelectItem value={MY_QUEUE_FILTER}>My Queue</SelectItem>
+                    <SelectItem value={UNASSIGNED_FILTER}>Unassigned</SelectItem>
+                    {staffUsers.map((user) => (
+                      <SelectItem key={user._id?.toString()} value={user._id?.toString() || ""}>
+                        {user.name || user.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-[180px]">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ACTIVE}>Open Requests</SelectItem>
+                    {BOOKING_STATUSES.map((bookingStatus) => (
+                      <SelectItem key={bookingStatus} value={bookingStatus}>
+                        {BOOKING_STATUS_LABELS[bookingStatus]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <CardTitle className="sr-only">Week Grid</CardTitle>
+          <CardDescription>
+            Requests repeat every week on their selected days, shown in your time zone ({viewerTimeZone},{" "}
+            {formatTimeZoneOffset(viewerTimeZone)}). Click a block to open the request.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="grid min-w-[900px]" style={{ gridTemplateColumns: "56px repeat(7, minmax(0, 1fr))" }}>
+                {/* Day headers */}
+                <div />
+                {WEEK_DAYS.map((day, index) => (
+                  <div key={day} className="border-b px-2 pb-2 text-center text-sm font-medium">
+                    {format(addDays(weekStart, index), "EEE d")}
+                  </div>
+                ))}
+
+                {/* Hour labels */}
+                <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+                  {hours.map((hour, index) => (
+                    <div
+                      key={hour}
+                      className="absolute right-2 -translate-y-2 text-xs text-muted-foreground"
+                      style={{ top: index * HOUR_HEIGHT }}
+                    >
+                      {hour.toString().padStart(2, "0")}:00
+                    </div>
+                  ))}
+                </div>
+
+                {/* Day columns */}
+                {WEEK_DAYS.map((day) => (
+                  <div key={day} className="relative border-l" style={{ height: hours.length * HOUR_HEIGHT }}>
+                    {hours.map((hour, index) => (
+                      <div
+                        key={hour}
+                        className="absolute inset-x-0 border-t border-border/40"
+                        style={{ top: index * HOUR_HEIGHT }}
+                      />
+                    ))}
+                    {blocks[day].map(({ booking, start, end, lane }) => (
+                      <Link
+                        key={`${booking._id}-${start}`}
+                        href={`/request/${booking._id}`}
+                        title={`${booking.requestNumber} · ${booking.assistanceTypeName || "Unknown type"} · ${
+                          BOOKING_STATUS_LABELS[booking.status]
+                        }`}
+                        className={cn(
+                          "absolute overflow-hidden rounded-md border-l-4 border px-1.5 py-1 text-xs transition-shadow",
+                          "hover:z-10 hover:shadow-md",
+                          getTypeColor(booking.assistanceTypeId),
+                          STATUS_STYLES[booking.status],
+                        )}
+                        style={{
+                          top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+                          height: Math.max(((end - start) / 60) * HOUR_HEIGHT - 2, 20),
+                          left: `calc(${(lane / lanes[day]) * 100}% + 2px)`,
+                          width: `calc(${100 / lanes[day]}% - 4px)`,
+                        }}
+                      >
+                        <p className="font-medium truncate">{booking.requestNumber}</p>
+                        <p className="truncate">{booking.assistanceTypeName}</p>
+                        <p className="truncate opacity-80">
+                          {booking.slots} {booking.slots === 1 ? "slot" : "slots"}
+                        </p>
+                      </Link>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex flex-col items-start gap-3">
+          <div className="flex flex-wrap gap-2">
+            {assistanceTypes.map((type) => (
+              <span
+                key={type._id}
+                className={cn("rounded-md border border-l-4 px-2 py-0.5 text-xs", getTypeColor(type._id as string))}
+              >
+                {type.name}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {BOOKING_STATUSES.map((bookingStatus) => (
+              <span
+                key={bookingStatus}
+                className={cn("rounded-md border-2 px-2 py-0.5 text-xs", STATUS_STYLES[bookingStatus])}
+              >
+                {BOOKING_STATUS_LABELS[bookingStatus]}
+              </span>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {bookings.length} scheduled {bookings.length === 1 ? "request" : "requests"} this week
+          </p>
+        </CardFooter>
+      </Card>
+
+      {/* Calendar Feed Dialog */}
+      <Dialog open={isFeedDialogOpen} onOpenChange={setIsFeedDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe to Confirmed Requests</DialogTitle>
+            <DialogDescription>
+              Add your personal feed link to Google Calendar, Outlook or Apple Calendar to see every confirmed request.
+              Anyone with the link can read the feed, so keep it private.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {feedMessage && (
+              <Alert variant={feedMessage.type === "success" ? "default" : "destructive"}>
+                <AlertDescription>{feedMessage.text}</AlertDescription>
+              </Alert>
+            )}
+            {feedUrl && (
+              <div className="flex items-center gap-2">
+                <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={copyFeedUrl}>
+                  {copiedFeedUrl ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Creating a new link turns off the one you made before.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleRevokeFeed} disabled={isFeedSaving}>
+              Turn Off Link
+            </Button>
+            <Button onClick={handleResetFeed} disabled={isFeedSaving}>
+              {isFeedSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Create New Link"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -7,13 +7,16 @@ import { useRouter } from "next/navigation"
 import Image from "next/image"
 import { signOut, useSession } from "next-auth/react"
 import { getFeaturedToons, saveFeaturedToon, deleteFeaturedToon } from "@/actions/featured-toons"
+import { getAllGames } from "@/actions/games"
 import type { FeaturedToon } from "@/models/featured-toon"
+import type { Game } from "@/models/game"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ImageUpload } from "@/components/image-upload"
 import { ArrowLeft, Plus, Trash2, Loader2, Save, RefreshCw } from "lucide-react"
@@ -37,12 +40,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { LoginModal } from "@/components/login-modal"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export default function AdminFeaturedToonsPage() {
   const router = useRouter()
   const { data: session, status } = useSession()
 
   const [featuredToons, setFeaturedToons] = useState<FeaturedToon[]>([])
+  const [games, setGames] = useState<Game[]>([])
   const [activeTab, setActiveTab] = useState<string>("")
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
@@ -55,7 +60,7 @@ export default function AdminFeaturedToonsPage() {
 
   // Check authentication
   useEffect(() => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       setIsLoginModalOpen(true)
     } else {
       setIsLoginModalOpen(false)
@@ -64,7 +69,7 @@ export default function AdminFeaturedToonsPage() {
 
   // Handle modal close - redirect to home if not authenticated
   const handleModalClose = () => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       router.push("/")
     } else {
       setIsLoginModalOpen(false)
@@ -73,12 +78,13 @@ export default function AdminFeaturedToonsPage() {
 
   // Load featured toons
   const loadFeaturedToons = async () => {
-    if (status !== "authenticated" || session?.user?.role !== "admin") return
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
 
     setIsLoadingData(true)
     try {
-      const toons = await getFeaturedToons()
+      const [toons, gamesData] = await Promise.all([getFeaturedToons(), getAllGames()])
       setFeaturedToons(toons)
+      setGames(gamesData)
 
       // Set active tab to first toon or empty if none
       if (toons.length > 0 && !activeTab) {
@@ -93,7 +99,7 @@ export default function AdminFeaturedToonsPage() {
   }
 
   useEffect(() => {
-    if (status === "authenticated" && session?.user?.role === "admin") {
+    if (status === "authenticated" && isStaffRole(session?.user?.role)) {
       loadFeaturedToons()
     }
   }, [status, session])
@@ -185,7 +191,7 @@ export default function AdminFeaturedToonsPage() {
   }
 
   // If not admin, show login modal
-  if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
     return (
       <LoginModal
         isOpen={isLoginModalOpen}
@@ -205,7 +211,7 @@ export default function AdminFeaturedToonsPage() {
           </div>
           <div className="flex items-center gap-2">
             <Button variant="outline" size="sm" asChild>
-              <Link href="/games/ragnarok-m-classic">
+              <Link href="/">
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 Back to Game
               </Link>
@@ -329,6 +335,22 @@ export default function AdminFeaturedToonsPage() {
 
             {currentToon?.imageUrl && <input type="hidden" name="currentImageUrl" value={currentToon.imageUrl} />}
 
+            <div className="space-y-2">
+              <Label htmlFor="gameId">Game</Label>
+              <Select name="gameId" defaultValue={currentToon?.gameId || games[0]?._id} required>
+                <SelectTrigger id="gameId">
+                  <SelectValue placeholder="Select game" />
+                </SelectTrigger>
+                <SelectContent>
+                  {games.map((game) => (
+                    <SelectItem key={game._id} value={game._id as string}>
+                      {game.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="characterClass">Character Class</Label>
               <Input
@@ -0,0 +1,332 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import Image from "next/image"
+import { Loader2, ArrowLeft, Plus, Pencil, ExternalLink } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoginModal } from "@/components/login-modal"
+import { getAllGames, saveGame } from "@/actions/games"
+import { isStaffRole } from "@/lib/staff-roles"
+import { type Game, gamePath } from "@/models/game"
+
+const EMPTY_FORM = { slug: "", name: "", logo: "", description: "", isActive: true }
+
+export default function AdminGamesPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [games, setGames] = useState<Game[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingGame, setEditingGame] = useState<Game | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  const loadGames = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    try {
+      setGames(await getAllGames())
+    } catch (error) {
+      console.error("Error loading games:", error)
+      setMessage({ type: "error", text: "Failed to load games" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadGames()
+  }, [status, session])
+
+  const openDialog = (game: Game | null) => {
+    setEditingGame(game)
+    setForm(
+      game
+        ? {
+            slug: game.slug,
+            name: game.name,
+            logo: game.logo || "",
+            description: game.description || "",
+            isActive: game.isActive,
+          }
+        : EMPTY_FORM,
+    )
+    setFormError(null)
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setFormError(null)
+    try {
+      const result = await saveGame(form, editingGame?._id)
+      if (result.success) {
+        setMessage({ type: "success", text: result.message })
+        setIsDialogOpen(false)
+        await loadGames()
+      } else {
+        setFormError(result.message)
+      }
+    } catch (error) {
+      console.error("Error saving game:", error)
+      setFormError("Failed to save game")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Games</h1>
+          <p className="text-muted-foreground">Add games and manage their booking pages</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Game
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manage Games</CardTitle>
+          <CardDescription>
+            Each active game gets a booking page. Assign assistance types to a game from the Assistance Types page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : games.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No games found</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Game</TableHead>
+                    <TableHead>Page</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {games.map((game) => (
+                    <TableRow key={game._id}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <div className="relative h-8 w-8 overflow-hidden rounded-md border border-border/50">
+                            <Image
+                              src={game.logo || "/placeholder.svg"}
+                              alt={game.name}
+                              width={32}
+                              height={32}
+                              className="object-cover"
+                            />
+                          </div>
+                          <div>
+                            <p className="font-medium">{game.name}</p>
+                            {game.description && (
+                              <p className="text-xs text-muted-foreground line-clamp-1">{game.description}</p>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs">{gamePath(game.slug)}</code>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={game.isActive ? "default" : "outline"}>
+                          {game.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {game.isActive && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link href={gamePath(game.slug)} target="_blank">
+                                <ExternalLink className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => openDialog(game)}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter>
+          <p className="text-sm text-muted-foreground">The first active game is where visitors land on the home page</p>
+        </CardFooter>
+      </Card>
+
+      {/* Add / Edit Game Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingGame ? `Edit ${editingGame.name}` : "Add Game"}</DialogTitle>
+            <DialogDescription>
+              The slug is the game&apos;s address, changing it breaks links shared to the old one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Ragnarok M Classic"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="slug">Slug</Label>
+              <Input
+                id="slug"
+                value={form.slug}
+                onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                placeholder="e.g., ragnarok-m-classic"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="logo">Logo URL (Optional)</Label>
+              <Input
+                id="logo"
+                value={form.logo}
+                onChange={(e) => setForm({ ...form, logo: e.target.value })}
+                placeholder="e.g., /romc-logo.png"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description (Optional)</Label>
+              <Textarea
+                id="description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="isActive">Active</Label>
+              <Switch
+                id="isActive"
+                checked={form.isActive}
+                onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Game"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { useEffect, useState } from "react"
 import { AdminPanel } from "@/components/admin-panel"
 import { Loader2 } from "lucide-react"
 import { LoginModal } from "@/components/login-modal"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export default function AdminPage() {
   const { data: session, status } = useSession()
@@ -14,7 +15,7 @@ export default function AdminPage() {
 
   useEffect(() => {
     // If not authenticated or not admin, show login modal
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       setIsLoginModalOpen(true)
     } else {
       setIsLoginModalOpen(false)
@@ -23,7 +24,7 @@ export default function AdminPage() {
 
   // Handle modal close - redirect to home if not authenticated
   const handleModalClose = () => {
-    if (status === "unauthenticated" || (status === "authenticated" && session?.user?.role !== "admin")) {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
       router.push("/")
     } else {
       setIsLoginModalOpen(false)
@@ -43,7 +44,7 @@ export default function AdminPage() {
   }
 
   // If not admin, show nothing (will be redirected by the modal close handler)
-  if (status === "authenticated" && session?.user?.role !== "admin") {
+  if (status === "authenticated" && !isStaffRole(session?.user?.role)) {
     return (
       <LoginModal
         isOpen={isLoginModalOpen}
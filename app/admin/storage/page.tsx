@@ -0,0 +1,285 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Loader2, ArrowLeft, RefreshCw, Trash2, ExternalLink } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LoginModal } from "@/components/login-modal"
+import { cleanupOrphanedFiles, getOrphanReport } from "@/actions/storage-cleanup"
+import type { OrphanReport } from "@/lib/storage/cleanup"
+import { isStaffRole } from "@/lib/staff-roles"
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function AdminStoragePage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [report, setReport] = useState<OrphanReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+
+  const isOwner = session?.user?.role === "owner"
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  // Run the dry-run scan
+  const loadReport = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    try {
+      const result = await getOrphanReport()
+      if (result.success && result.report) {
+        setReport(result.report)
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error loading orphaned file report:", error)
+      setMessage({ type: "error", text: "Failed to scan stored files" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReport()
+  }, [status, session])
+
+  // Delete the orphans and rescan
+  const handleCleanup = async () => {
+    setIsDeleting(true)
+    setMessage(null)
+    try {
+      const result = await cleanupOrphanedFiles()
+      setMessage({ type: result.success ? "success" : "error", text: result.message })
+      setIsConfirmOpen(false)
+      await loadReport()
+    } catch (error) {
+      console.error("Error cleaning up orphaned files:", error)
+      setMessage({ type: "error", text: "Failed to clean up stored files" })
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Storage Cleanup</h1>
+          <p className="text-muted-foreground">Find and remove uploaded images nothing refers to any more</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={loadReport} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Rescan
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dry Run Report</CardTitle>
+          <CardDescription>
+            Photos from deleted or edited requests and replaced template or toon images. Uploads from the last 7 days
+            are kept, they may belong to a request that is still being filled in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : !report ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No report available</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-4">
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-muted-foreground">Files scanned</p>
+                  <p className="text-2xl font-bold">{report.scannedCount}</p>
+                </div>
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-muted-foreground">In use</p>
+                  <p className="text-2xl font-bold">{report.referencedCount}</p>
+                </div>
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-muted-foreground">Unused, in grace period</p>
+                  <p className="text-2xl font-bold">{report.recentCount}</p>
+                </div>
+                <div className="rounded-md border p-4">
+                  <p className="text-sm text-muted-foreground">To delete</p>
+                  <p className="text-2xl font-bold">
+                    {report.orphans.length}{" "}
+                    <span className="text-sm font-normal text-muted-foreground">
+                      ({formatBytes(report.orphanBytes)})
+                    </span>
+                  </p>
+                </div>
+              </div>
+
+              {report.orphans.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground">No orphaned files found</p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File</TableHead>
+                        <TableHead>Size</TableHead>
+                        <TableHead>Uploaded</TableHead>
+                        <TableHead className="text-right">Preview</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.orphans.map((file) => (
+                        <TableRow key={file.url}>
+                          <TableCell>
+                            <code className="text-xs break-all">{file.pathname}</code>
+                          </TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">{formatBytes(file.size)}</TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {format(new Date(file.uploadedAt), "MMM d, yyyy")}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" asChild>
+                              <a href={file.url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+        {report && (
+          <CardFooter className="flex justify-between">
+            <p className="text-sm text-muted-foreground">
+              Scanned {report.provider} storage on {format(new Date(report.generatedAt), "PPP 'at' p")}
+            </p>
+            {isOwner && (
+              <Button
+                variant="destructive"
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={isLoading || report.orphans.length === 0}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Orphaned Files
+              </Button>
+            )}
+          </CardFooter>
+        )}
+      </Card>
+
+      {/* Cleanup Confirmation Dialog */}
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Orphaned Files</DialogTitle>
+            <DialogDescription>
+              Storage is scanned again before deleting, so only files that are still unused are removed. This action
+              cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleCleanup} disabled={isDeleting}>
+              {isDeleting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete Files"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,507 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useSession } from "next-auth/react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Loader2, ArrowLeft, Plus, Trash2, RefreshCw, UserPlus, KeyRound, ShieldCheck } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableCell, TableHead, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { LoginModal } from "@/components/login-modal"
+import {
+  getStaffUsers,
+  inviteStaffUser,
+  updateStaffUserRole,
+  removeStaffUser,
+  setStaffUserPassword,
+} from "@/actions/staff-users"
+import { AccountSecurity } from "@/components/account-security"
+import type { StaffRole, StaffUserSummary } from "@/models/staff-user"
+import { isStaffRole, STAFF_ROLES, STAFF_ROLE_LABELS, STAFF_ROLE_DESCRIPTIONS } from "@/lib/staff-roles"
+
+export default function AdminUsersPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const [staffUsers, setStaffUsers] = useState<StaffUserSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false)
+  const [inviteRole, setInviteRole] = useState<StaffRole>("agent")
+  const [userToRemove, setUserToRemove] = useState<StaffUserSummary | null>(null)
+  const [passwordUser, setPasswordUser] = useState<StaffUserSummary | null>(null)
+
+  const isOwner = session?.user?.role === "owner"
+  const currentUser = staffUsers.find((user) => user.email === session?.user?.email?.toLowerCase())
+
+  // Check authentication
+  useEffect(() => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      setIsLoginModalOpen(true)
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }, [session, status])
+
+  // Handle modal close - redirect to home if not authenticated
+  const handleModalClose = () => {
+    if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+      router.push("/")
+    } else {
+      setIsLoginModalOpen(false)
+    }
+  }
+
+  // Load staff users
+  const loadStaffUsers = async () => {
+    if (status !== "authenticated" || !isStaffRole(session?.user?.role)) return
+
+    setIsLoading(true)
+    try {
+      const users = await getStaffUsers()
+      setStaffUsers(users)
+    } catch (error) {
+      console.error("Error loading staff users:", error)
+      setMessage({ type: "error", text: "Failed to load staff users" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadStaffUsers()
+  }, [status, session])
+
+  async function handleInvite(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+      const result = await inviteStaffUser(
+        formData.get("email") as string,
+        inviteRole,
+        (formData.get("name") as string) || undefined,
+        (formData.get("password") as string) || undefined,
+      )
+
+      if (result.success && result.staffUser) {
+        setStaffUsers((prev) => [...prev, result.staffUser as StaffUserSummary])
+        setMessage({ type: "success", text: result.message })
+        setIsInviteDialogOpen(false)
+        setInviteRole("agent")
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error inviting staff user:", error)
+      setMessage({ type: "error", text: "Failed to invite staff user" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRoleChange = async (user: StaffUserSummary, role: StaffRole) => {
+    if (role === user.role) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await updateStaffUserRole(user._id as string, role)
+
+      if (result.success) {
+        setStaffUsers((prev) => prev.map((u) => (u._id === user._id ? { ...u, role } : u)))
+        setMessage({ type: "success", text: result.message })
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error updating staff role:", error)
+      setMessage({ type: "error", text: "Failed to update staff role" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleSetPassword(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    if (!passwordUser?._id) return
+
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const formData = new FormData(event.currentTarget)
+      const result = await setStaffUserPassword(passwordUser._id as string, formData.get("password") as string)
+
+      if (result.success) {
+        setStaffUsers((prev) => prev.map((u) => (u._id === passwordUser._id ? { ...u, hasPassword: true } : u)))
+        setMessage({ type: "success", text: result.message })
+        setPasswordUser(null)
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error setting staff password:", error)
+      setMessage({ type: "error", text: "Failed to update password" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!userToRemove?._id) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await removeStaffUser(userToRemove._id as string)
+
+      if (result.success) {
+        setStaffUsers((prev) => prev.filter((u) => u._id !== userToRemove._id))
+        setMessage({ type: "success", text: result.message })
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error removing staff user:", error)
+      setMessage({ type: "error", text: "Failed to remove staff user" })
+    } finally {
+      setIsSaving(false)
+      setUserToRemove(null)
+    }
+  }
+
+  // Show loading while checking authentication
+  if (status === "loading") {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center">
+        <div className="flex flex-col items-center gap-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If not admin, show login modal
+  if (status === "unauthenticated" || (status === "authenticated" && !isStaffRole(session?.user?.role))) {
+    return (
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    )
+  }
+
+  return (
+    <div className="py-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
+          <p className="text-muted-foreground">Invite staff and manage their roles</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Admin
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Staff Members</CardTitle>
+            <CardDescription>Staff sign in with their email and password, or the matching Google account</CardDescription>
+          </div>
+          {isOwner && (
+            <Button onClick={() => setIsInviteDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Invite Staff
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {message && (
+            <Alert variant={message.type === "success" ? "default" : "destructive"} className="mb-4">
+              <AlertDescription>{message.text}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : staffUsers.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No staff members found</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+
+                {staffUsers.map((user) => {
+                  const isSelf = user.email === session?.user?.email?.toLowerCase()
+
+                  return (
+                    <TableRow key={user._id as string}>
+                      <TableCell className="font-medium">
+                        {user.email}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell>{user.name || "—"}</TableCell>
+                      <TableCell>
+                        {isOwner ? (
+                          <Select
+                            value={user.role}
+                            onValueChange={(value) => handleRoleChange(user, value as StaffRole)}
+                            disabled={isSaving}
+                          >
+                            <SelectTrigger className="w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {STAFF_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {STAFF_ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          STAFF_ROLE_LABELS[user.role]
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-2">
+                          {user.lastSignInAt ? (
+                            <span className="text-xs text-muted-foreground">
+                              Last signed in {format(new Date(user.lastSignInAt), "MMM d, yyyy")}
+                            </span>
+                          ) : (
+                            <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
+                              Invited
+                            </Badge>
+                          )}
+                          {!user.hasPassword && <Badge variant="outline">No password</Badge>}
+                          {user.totpEnabled && (
+                            <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
+                              <ShieldCheck className="mr-1 h-3 w-3" />
+                              2FA
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isOwner && (
+                          <Button variant="ghost" size="sm" onClick={() => setPasswordUser(user)} disabled={isSaving}>
+                            <KeyRound className="mr-2 h-4 w-4" />
+                            Set Password
+                          </Button>
+                        )}
+                        {isOwner && !isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setUserToRemove(user)}
+                            disabled={isSaving}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Remove
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </Table>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <p className="text-sm text-muted-foreground">
+            {isOwner ? "Role changes apply on the staff member's next page load" : "Only owners can manage staff"}
+          </p>
+          <Button variant="outline" size="sm" onClick={loadStaffUsers}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <AccountSecurity
+        hasPassword={!!currentUser?.hasPassword}
+        totpEnabled={!!currentUser?.totpEnabled}
+        onChanged={loadStaffUsers}
+      />
+
+      {/* Invite Dialog */}
+      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invite Staff Member</DialogTitle>
+            <DialogDescription>They will be able to sign in as soon as they are invited</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" name="email" type="email" placeholder="helper@example.com" required />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="name">Name (Optional)</Label>
+              <Input id="name" name="name" placeholder="Display name" />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Initial Password (Optional)</Label>
+              <Input id="password" name="password" type="password" autoComplete="new-password" />
+              <p className="text-xs text-muted-foreground">
+                Share it with them privately. Without a password they can only sign in with Google.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as StaffRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {STAFF_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{STAFF_ROLE_DESCRIPTIONS[inviteRole]}</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsInviteDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Inviting...
+                  </>
+                ) : (
+                  <>
+                    <UserPlus className="mr-2 h-4 w-4" />
+                    Send Invite
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Set Password Dialog */}
+      <Dialog open={!!passwordUser} onOpenChange={(open) => !open && setPasswordUser(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Password</DialogTitle>
+            <DialogDescription>Set a new sign-in password for {passwordUser?.email}</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSetPassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-staff-password">New Password</Label>
+              <Input id="new-staff-password" name="password" type="password" autoComplete="new-password" required />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPasswordUser(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Password"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Confirmation Dialog */}
+      <AlertDialog open={!!userToRemove} onOpenChange={(open) => !open && setUserToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove staff member?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {userToRemove?.email} will lose access to the admin console immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              disabled={isSaving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <LoginModal
+        isOpen={isLoginModalOpen}
+        onClose={handleModalClose}
+        message="You need admin privileges to access this page."
+      />
+    </div>
+  )
+}
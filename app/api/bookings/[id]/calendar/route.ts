@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { buildCalendar } from "@/lib/ical"
+import { findBookingById } from "@/lib/repositories/bookings"
+
+// A booking's schedule as an .ics file, readable by anyone with the link like the request page itself
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const booking = await findBookingById(id)
+    if (!booking || booking.selectedDays.length === 0) {
+      return NextResponse.json({ error: "Scheduled request not found" }, { status: 404 })
+    }
+
+    const calendar = buildCalendar([booking], {
+      name: `Papapi Gaming - ${booking.requestNumber}`,
+      baseUrl: new URL(request.url).origin,
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${booking.requestNumber}.ics"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error building booking calendar:", error)
+    return NextResponse.json({ error: "Failed to build calendar file" }, { status: 500 })
+  }
+}
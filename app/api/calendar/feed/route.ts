@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { buildCalendar } from "@/lib/ical"
+import { findCalendarBookings } from "@/lib/repositories/bookings"
+import { findStaffUserByCalendarFeedToken } from "@/lib/staff-users"
+
+// Confirmed requests for calendar apps to subscribe to, reached with a staff member's feed token
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+
+  try {
+    const staffUser = await findStaffUserByCalendarFeedToken(url.searchParams.get("token"))
+    if (!staffUser) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    const bookings = await findCalendarBookings({ statuses: ["confirmed"] })
+    const calendar = buildCalendar(bookings, { name: "Papapi Gaming - Confirmed Requests", baseUrl: url.origin })
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Error building calendar feed:", error)
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { readLocalFile } from "@/lib/storage/local-disk"
+
+// Serves uploads stored by the local disk storage provider
+export async function GET(_request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params
+
+  try {
+    const file = await readLocalFile(path.join("/"))
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    // Pathnames are unique per upload, so the contents never change
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Error reading stored file:", error)
+    return NextResponse.json({ error: "Failed to read file" }, { status: 500 })
+  }
+}
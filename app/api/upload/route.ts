@@ -1,34 +1,108 @@
-import { put } from "@vercel/blob"
+import { nanoid } from "nanoid"
 import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-guard"
+import { checkRateLimit } from "@/lib/rate-limit"
+import { getStorage } from "@/lib/storage"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import {
+  MAX_FILE_SIZE,
+  PUBLIC_UPLOAD_FOLDERS,
+  UPLOAD_ERROR_MESSAGES,
+  UPLOAD_FOLDERS,
+  type UploadErrorCode,
+  type UploadFolder,
+  detectImageType,
+} from "@/lib/upload-utils"
+
+// Room for the multipart boundaries and the other form fields on top of the file itself
+const MAX_REQUEST_OVERHEAD = 64 * 1024
+const MAX_REQUEST_SIZE = MAX_FILE_SIZE + MAX_REQUEST_OVERHEAD
+
+function uploadError(code: UploadErrorCode, status: number) {
+  return NextResponse.json({ error: UPLOAD_ERROR_MESSAGES[code], code }, { status })
+}
+
+/**
+ * Parses the multipart body, giving up as soon as more than MAX_REQUEST_SIZE has arrived.
+ * The Content-Length check alone can be skipped by a chunked body, which request.formData() would buffer whole.
+ * @returns The form data, or null if the body is too large
+ */
+async function readFormData(request: Request): Promise<FormData | null> {
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  if (request.body) {
+    const reader = request.body.getReader()
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength
+      if (size > MAX_REQUEST_SIZE) {
+        await reader.cancel()
+        return null
+      }
+      chunks.push(chunk.value)
+    }
+  }
+
+  return new Response(Buffer.concat(chunks), {
+    headers: { "Content-Type": request.headers.get("content-type") || "" },
+  }).formData()
+}
 
 export async function POST(request: Request) {
   try {
-    const formData = await request.formData()
-    const file = formData.get("file") as File
-    const folder = (formData.get("folder") as string) || "uploads"
+    // Staff uploads for featured toons and templates are not limited
+    const isStaff = (await requireAdmin(STAFF_ROLES)).authorized
+    if (!isStaff) {
+      const rateLimit = await checkRateLimit("upload")
+      if (!rateLimit.allowed) {
+        const { retryAfter } = rateLimit.result
+        return NextResponse.json(
+          { error: UPLOAD_ERROR_MESSAGES.rate_limited, code: "rate_limited", retryAfter },
+          { status: 429, headers: { "Retry-After": retryAfter.toString() } },
+        )
+      }
+    }
 
-    if (!file) {
-      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    // Reject oversized bodies before reading them into memory
+    const contentLength = Number(request.headers.get("content-length") || 0)
+    if (contentLength > MAX_REQUEST_SIZE) {
+      return uploadError("file_too_large", 413)
     }
 
-    // Generate a unique filename with the original extension
-    const fileExtension = file.name.split(".").pop() || "jpg"
-    const uniqueFilename = `${folder}/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExtension}`
+    const formData = await readFormData(request)
+    if (!formData) {
+      return uploadError("file_too_large", 413)
+    }
 
-    // Upload to Vercel Blob
-    const { url } = await put(uniqueFilename, file, {
-      access: "public",
-    })
+    const file = formData.get("file")
+    const folder = formData.get("folder") as string
+
+    if (!(file instanceof File)) {
+      return uploadError("no_file", 400)
+    }
+
+    const allowedFolders: readonly UploadFolder[] = isStaff ? UPLOAD_FOLDERS : PUBLIC_UPLOAD_FOLDERS
+    if (!allowedFolders.includes(folder as UploadFolder)) {
+      return uploadError("invalid_folder", 400)
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return uploadError("file_too_large", 413)
+    }
+
+    // Trust the file contents, not the client supplied name or type
+    const bytes = Buffer.from(await file.arrayBuffer())
+    const imageType = detectImageType(bytes.subarray(0, 12))
+
+    if (!imageType) {
+      return uploadError("unsupported_type", 415)
+    }
+
+    const { url } = await getStorage().put(`${folder}/${nanoid()}.${imageType.extension}`, bytes, imageType.mimeType)
 
     return NextResponse.json({ success: true, url })
   } catch (error) {
     console.error("Error uploading file:", error)
-    return NextResponse.json({ error: "Failed to upload file" }, { status: 500 })
+    return uploadError("upload_failed", 500)
   }
 }
-
-export const config = {
-  api: {
-    bodyParser: false, // Disable the default body parser
-  },
-}
@@ -0,0 +1,20 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { getGameBySlug } from "@/actions/games"
+import { GamePage } from "@/components/game-page"
+
+interface GameRouteProps {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateMetadata({ params }: GameRouteProps): Promise<Metadata> {
+  const game = await getGameBySlug((await params).slug)
+  return game ? { title: `${game.name} | Papa-Pi Gaming Assistant`, description: game.description } : {}
+}
+
+export default async function GameRoute({ params }: GameRouteProps) {
+  const game = await getGameBySlug((await params).slug)
+  if (!game) notFound()
+
+  return <GamePage game={game} />
+}
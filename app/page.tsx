@@ -1,6 +1,20 @@
 import { redirect } from "next/navigation"
+import { getGames } from "@/actions/games"
+import { gamePath } from "@/models/game"
 
-export default function Home() {
-  // Redirect to Ragnarok M Classic page
-  redirect("/games/ragnarok-m-classic")
+// Games are added from the admin console, so look them up on every request rather than at build time
+export const dynamic = "force-dynamic"
+
+export default async function Home() {
+  // Redirect to the first active game
+  const [game] = await getGames()
+  if (!game) {
+    return (
+      <div className="flex h-[calc(100vh-64px)] items-center justify-center text-muted-foreground">
+        No games are available yet
+      </div>
+    )
+  }
+
+  redirect(gamePath(game.slug))
 }
@@ -1,13 +1,13 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { format } from "date-fns"
 import Image from "next/image"
 import {
   Loader2,
   CalendarClock,
   CheckCircle,
   Clock,
+  Hourglass,
   XCircle,
   Mail,
   Info,
@@ -18,11 +18,13 @@ import {
   Search,
   X,
   Trash2,
+  UserCircle,
+  PlayCircle,
+  PauseCircle,
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { getBookings } from "@/actions/assistance"
 import type { Booking } from "@/models/assistance"
 import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import Link from "next/link"
@@ -34,7 +36,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { getUnreadCommentsCounts } from "@/actions/comments"
 import { NotificationBadge } from "@/components/notification-badge"
 import { useSession } from "next-auth/react"
-import { getBookingById, deleteBooking } from "@/actions/request-details"
+import { getBookingById, deleteBooking, lookupBookingByRequestNumber } from "@/actions/request-details"
+import { isStaffRole } from "@/lib/staff-roles"
+import { getStoredEditToken, removeStoredEditToken, getAllStoredEditTokens } from "@/lib/edit-token-storage"
+import { getMyBookings, claimBookings } from "@/actions/customer-bookings"
+import { LoginModal } from "@/components/login-modal"
+import { BookingSchedule } from "@/components/booking-schedule"
 
 export default function RecentPage() {
   const [displayedBookings, setDisplayedBookings] = useState<Booking[]>([])
@@ -54,7 +61,9 @@ export default function RecentPage() {
 
   // Add this after the other state declarations
   const { data: session } = useSession()
-  const isAdmin = session?.user?.role === "admin"
+  const isAdmin = isStaffRole(session?.user?.role)
+  const isCustomer = !!session?.user?.id && !isAdmin
+  const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({})
 
   // Add search state
@@ -74,6 +83,8 @@ export default function RecentPage() {
         }
       }
 
+      let bookings: Booking[] = []
+
       // Then fetch fresh data for any bookings we have in localStorage
       if (localBookings.length > 0) {
         setIsLoading(true)
@@ -85,7 +96,7 @@ export default function RecentPage() {
         const refreshedBookings = await Promise.all(
           bookingIds.map(async (id) => {
             try {
-              const freshBooking = await getBookingById(id)
+              const freshBooking = await getBookingById(id, getStoredEditToken(id))
               return freshBooking
             } catch (error) {
               console.error(`Error refreshing booking ${id}:`, error)
@@ -94,19 +105,34 @@ export default function RecentPage() {
           }),
         )
 
-        // Filter out null results and update displayed bookings
-        const validBookings = refreshedBookings.filter((booking) => booking !== null) as Booking[]
+        // Filter out null results
+        bookings = refreshedBookings.filter((booking) => booking !== null) as Booking[]
+      }
 
-        if (validBookings.length > 0) {
-          // Update displayed bookings with fresh data
-          setDisplayedBookings(validBookings)
+      // Signed-in customers also see every request linked to their account, from any device
+      if (isCustomer) {
+        setIsLoading(true)
 
-          // Update localStorage with fresh data
-          localStorage.setItem("papapi-recent-bookings", JSON.stringify(validBookings))
+        // Link guest bookings made in this browser to the account first
+        const storedTokens = getAllStoredEditTokens()
+        if (storedTokens.length > 0) {
+          await claimBookings(storedTokens)
         }
 
+        const accountBookings = await getMyBookings()
+        const accountIds = new Set(accountBookings.map((booking) => booking._id?.toString()))
+        bookings = [...accountBookings, ...bookings.filter((booking) => !accountIds.has(booking._id?.toString()))]
+      }
+
+      if (bookings.length > 0) {
+        // Update displayed bookings with fresh data
+        setDisplayedBookings(bookings)
+
+        // Update localStorage with fresh data
+        localStorage.setItem("papapi-recent-bookings", JSON.stringify(bookings))
+
         // Get unread comments counts for these bookings
-        const requestIds = validBookings.map((booking) => booking._id?.toString() || "").filter((id) => id)
+        const requestIds = bookings.map((booking) => booking._id?.toString() || "").filter((id) => id)
         if (requestIds.length > 0) {
           const counts = await getUnreadCommentsCounts(requestIds, !!isAdmin)
           setUnreadCounts(counts)
@@ -121,7 +147,7 @@ export default function RecentPage() {
 
   useEffect(() => {
     loadRecentBookings()
-  }, [isAdmin])
+  }, [isAdmin, isCustomer])
 
   // Update the handleSearch function to add the found booking to recent transactions
   const handleSearch = async () => {
@@ -133,13 +159,13 @@ export default function RecentPage() {
     setError(null)
 
     try {
-      // Get all bookings
-      const allBookings = await getBookings()
-
-      // Filter bookings by exact request number match (case insensitive)
-      const matchingBookings = allBookings.filter(
-        (booking) => booking.requestNumber?.toLowerCase() === searchTerm.toLowerCase(),
-      )
+      // Look up the exact request number on the server, only the matching booking comes back
+      const result = await lookupBookingByRequestNumber(searchTerm)
+      if (!result.success && result.code !== "not_found") {
+        setError(result.message)
+        return
+      }
+      const matchingBookings = result.booking ? [result.booking] : []
 
       if (matchingBookings.length > 0) {
         // Add the matching booking to displayed bookings without duplicates
@@ -216,7 +242,7 @@ export default function RecentPage() {
     setError(null)
 
     try {
-      const booking = await getBookingById(requestId)
+      const booking = await getBookingById(requestId, getStoredEditToken(requestId))
 
       if (booking) {
         // Add the booking to displayed bookings without duplicates
@@ -232,18 +258,27 @@ export default function RecentPage() {
     }
   }
 
+  // Bookings can be changed with the edit token stored in this browser or from the account they belong to
+  const canManage = (booking: Booking): boolean =>
+    !!getStoredEditToken(booking._id as string) || (isCustomer && booking.customerId === session?.user?.id)
+
   // Handle booking deletion
   const handleDeleteBooking = async () => {
     if (!bookingToDelete || !bookingToDelete._id) return
 
+    const bookingId = bookingToDelete._id.toString()
+    const editToken = getStoredEditToken(bookingId)
+    if (!canManage(bookingToDelete)) return
+
     setIsDeleting(true)
     setMessage(null)
 
     try {
-      const result = await deleteBooking(bookingToDelete._id.toString())
+      const result = await deleteBooking(bookingId, editToken)
 
       if (result.success) {
         setMessage({ type: "success", text: result.message })
+        removeStoredEditToken(bookingId)
 
         // Remove the booking from the displayed list
         setDisplayedBookings((prevBookings) => {
@@ -288,6 +323,12 @@ export default function RecentPage() {
   // Status badge styling
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return (
+          <Badge variant="outline" className="bg-slate-500/10 text-slate-500 border-slate-500/20">
+            Waitlisted
+          </Badge>
+        )
       case "pending":
         return (
           <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
@@ -300,6 +341,18 @@ export default function RecentPage() {
             Confirmed
           </Badge>
         )
+      case "in_progress":
+        return (
+          <Badge variant="outline" className="bg-purple-500/10 text-purple-500 border-purple-500/20">
+            In Progress
+          </Badge>
+        )
+      case "on_hold":
+        return (
+          <Badge variant="outline" className="bg-orange-500/10 text-orange-500 border-orange-500/20">
+            On Hold
+          </Badge>
+        )
       case "completed":
         return (
           <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
@@ -320,10 +373,16 @@ export default function RecentPage() {
   // Status icon
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return <Hourglass className="h-5 w-5 text-slate-500" />
       case "pending":
         return <Clock className="h-5 w-5 text-yellow-500" />
       case "confirmed":
         return <CalendarClock className="h-5 w-5 text-blue-500" />
+      case "in_progress":
+        return <PlayCircle className="h-5 w-5 text-purple-500" />
+      case "on_hold":
+        return <PauseCircle className="h-5 w-5 text-orange-500" />
       case "completed":
         return <CheckCircle className="h-5 w-5 text-green-500" />
       case "cancelled":
@@ -333,52 +392,6 @@ export default function RecentPage() {
     }
   }
 
-  // Format time string to AM/PM format
-  const formatTime = (timeString: string | undefined): string => {
-    if (!timeString) return ""
-    const [hours, minutes] = timeString.split(":").map(Number)
-    const period = hours >= 12 ? "PM" : "AM"
-    const displayHours = hours % 12 || 12
-    return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
-  }
-
-  // Get time range label
-  const getTimeRangeLabel = (preset: string): string => {
-    switch (preset) {
-      case "early":
-        return "Early (5:00 - 10:00)"
-      case "middle":
-        return "Middle (10:00 - 14:00)"
-      case "late":
-        return "Late (14:00 - 19:00)"
-      default:
-        return "Custom time"
-    }
-  }
-
-  // Format selected days for display
-  const formatSelectedDays = (days: string[] | undefined): string => {
-    // Check if days is undefined or empty
-    if (!days || !Array.isArray(days) || days.length === 0) return "No days selected"
-    if (days.length === 7) return "Every day"
-
-    const dayLabels: Record<string, string> = {
-      monday: "Monday",
-      tuesday: "Tuesday",
-      wednesday: "Wednesday",
-      thursday: "Thursday",
-      friday: "Friday",
-      saturday: "Saturday",
-      sunday: "Sunday",
-    }
-
-    // Sort days according to calendar order (Monday first)
-    const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
-    const orderedDays = [...days].sort((a, b) => dayOrder.indexOf(a) - dayOrder.indexOf(b))
-
-    return orderedDays.map((day) => dayLabels[day] || day).join(", ")
-  }
-
   return (
     <div className="w-full px-4 py-8 md:px-6 lg:px-8">
       <div className="flex items-center justify-between mb-6">
@@ -387,7 +400,7 @@ export default function RecentPage() {
           <p className="text-muted-foreground">Stay updated on your assistance booking</p>
         </div>
         <Button variant="outline" asChild>
-          <Link href="/games/ragnarok-m-classic">
+          <Link href="/">
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Game
           </Link>
@@ -400,6 +413,18 @@ export default function RecentPage() {
         </Alert>
       )}
 
+      {session === null && (
+        <Alert className="mb-6">
+          <UserCircle className="h-4 w-4" />
+          <AlertDescription className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <span>Requests are saved in this browser. Sign in to keep them with your account on any device.</span>
+            <Button variant="outline" size="sm" onClick={() => setIsLoginModalOpen(true)}>
+              Sign In
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Add search input */}
       <div className="mb-6">
         <div className="flex gap-2">
@@ -452,7 +477,7 @@ export default function RecentPage() {
               Search for a request by its number or create a new assistance request
             </p>
             <Button asChild>
-              <Link href="/games/ragnarok-m-classic">Request Assistance</Link>
+              <Link href="/">Request Assistance</Link>
             </Button>
           </CardContent>
         </Card>
@@ -534,7 +559,7 @@ export default function RecentPage() {
                             )}
                           </Link>
                         </Button>
-                        {booking.status === "cancelled" && (
+                        {booking.status === "cancelled" && canManage(booking) && (
                           <Button
                             variant="destructive"
                             size="sm"
@@ -553,27 +578,14 @@ export default function RecentPage() {
                   {/* Display schedule information */}
                   <div className="mt-2 text-sm">
                     {booking.selectedDays && Array.isArray(booking.selectedDays) && booking.selectedDays.length > 0 ? (
-                      <div className="flex flex-col gap-1">
-                        <p className="flex items-center gap-1">
-                          <Calendar className="h-3.5 w-3.5 text-muted-foreground" />
-                          <span>{formatSelectedDays(booking.selectedDays)}</span>
-                        </p>
-                        <p className="flex items-center gap-1">
-                          <Clock className="h-3.5 w-3.5 text-muted-foreground" />
-                          <span>
-                            {booking.timeRangePreset === "custom"
-                              ? `${formatTime(booking.startTime)} - ${formatTime(booking.endTime)}`
-                              : getTimeRangeLabel(booking.timeRangePreset)}
-                          </span>
-                        </p>
+                      <div className="flex items-start gap-1">
+                        <Calendar className="h-3.5 w-3.5 mt-0.5 text-muted-foreground" />
+                        <BookingSchedule booking={booking} />
                       </div>
                     ) : (
                       <p className="flex items-center gap-1">
                         <CalendarClock className="h-3.5 w-3.5 text-muted-foreground" />
-                        <span>
-                          {format(new Date(booking.startDate || booking.startDateTime), "PPP p")} -{" "}
-                          {format(new Date(booking.endDate || booking.endDateTime), "p")}
-                        </span>
+                        <span className="text-muted-foreground">No schedule needed</span>
                       </p>
                     )}
 
@@ -673,6 +685,8 @@ export default function RecentPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <LoginModal isOpen={isLoginModalOpen} onClose={() => setIsLoginModalOpen(false)} />
     </div>
   )
 }
@@ -1,13 +1,14 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useRouter, useParams } from "next/navigation"
+import { useRouter, useParams, useSearchParams } from "next/navigation"
 import { format } from "date-fns"
 import {
   Loader2,
   CalendarClock,
   CheckCircle,
   Clock,
+  Hourglass,
   XCircle,
   Copy,
   Check,
@@ -15,11 +16,17 @@ import {
   Edit,
   AlertTriangle,
   Trash2,
+  Lock,
+  PlayCircle,
+  PauseCircle,
+  History,
+  CalendarRange,
+  CalendarPlus,
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card"
-import { getBookingById, cancelBooking, deleteBooking } from "@/actions/request-details"
+import { getBookingById, getWaitlistPosition, cancelBooking, deleteBooking } from "@/actions/request-details"
 import type { Booking } from "@/models/assistance"
 import { Dialog, DialogContent, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
 import Link from "next/link"
@@ -27,18 +34,25 @@ import Image from "next/image"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { RequestEditWizard } from "@/components/request-edit-wizard"
 import { CommentSection } from "@/components/comment-section"
+import { BookingSchedule } from "@/components/booking-schedule"
 import { getComments } from "@/actions/comments"
 import type { Comment } from "@/models/comment"
 import { useSession } from "next-auth/react"
 import { markCommentsAsRead } from "@/actions/comments"
+import { isStaffRole } from "@/lib/staff-roles"
+import { getStoredEditToken, storeEditToken, removeStoredEditToken } from "@/lib/edit-token-storage"
+import { canTransition } from "@/lib/booking-status"
+import { Textarea } from "@/components/ui/textarea"
 
 export default function RequestDetailsPage() {
   const router = useRouter()
   const params = useParams()
   const id = params.id as string
+  const searchParams = useSearchParams()
   const { data: session } = useSession()
 
   const [booking, setBooking] = useState<Booking | null>(null)
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
@@ -46,15 +60,32 @@ export default function RequestDetailsPage() {
   const [isCancelling, setIsCancelling] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [showCancelDialog, setShowCancelDialog] = useState(false)
+  const [cancelReason, setCancelReason] = useState("")
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
   const [comments, setComments] = useState<Comment[]>([])
+  const [editToken, setEditToken] = useState<string | null>(null)
 
   // Track copied fields
   const [copiedRequestNumber, setCopiedRequestNumber] = useState(false)
   const [copiedCharacterId, setCopiedCharacterId] = useState(false)
   const [copiedContactInfo, setCopiedContactInfo] = useState(false)
 
+  // Pick up the edit token from the private link, or from a previous visit in this browser
+  useEffect(() => {
+    if (!id) return
+
+    const tokenFromUrl = searchParams.get("token")
+    if (tokenFromUrl) {
+      storeEditToken(id, tokenFromUrl)
+      setEditToken(tokenFromUrl)
+      // Keep the secret out of the address bar and browser history
+      router.replace(`/request/${id}`)
+    } else {
+      setEditToken(getStoredEditToken(id))
+    }
+  }, [id, searchParams])
+
   // Load booking data
   useEffect(() => {
     const loadBooking = async () => {
@@ -62,16 +93,17 @@ export default function RequestDetailsPage() {
       setError(null)
 
       try {
-        const data = await getBookingById(id)
+        const data = await getBookingById(id, editToken)
         if (data) {
           setBooking(data)
+          setWaitlistPosition(data.status === "waitlisted" ? await getWaitlistPosition(id) : null)
 
           // Load comments for this request
           const commentsData = await getComments(id)
           setComments(commentsData)
 
           // Mark comments as read when viewing the request
-          const isAdmin = session?.user?.role === "admin"
+          const isAdmin = isStaffRole(session?.user?.role)
           await markCommentsAsRead(id, !!isAdmin)
         } else {
           setError("Request not found")
@@ -87,7 +119,7 @@ export default function RequestDetailsPage() {
     if (id) {
       loadBooking()
     }
-  }, [id, session?.user?.role])
+  }, [id, editToken, session?.user?.role])
 
   // Copy to clipboard function
   const copyToClipboard = (text: string, type: "requestNumber" | "characterId" | "contactInfo") => {
@@ -108,18 +140,18 @@ export default function RequestDetailsPage() {
 
   // Handle booking cancellation
   const handleCancelBooking = async () => {
-    if (!booking || !id) return
+    if (!booking || !id || isReadOnly) return
 
     setIsCancelling(true)
     setMessage(null)
 
     try {
-      const result = await cancelBooking(id)
+      const result = await cancelBooking(id, editToken, cancelReason)
 
-      if (result.success) {
+      if (result.success && result.booking) {
         setMessage({ type: "success", text: result.message })
         // Update the booking status locally
-        const updatedBooking = { ...booking, status: "cancelled" }
+        const updatedBooking = result.booking
         setBooking(updatedBooking)
 
         // Update the booking in localStorage
@@ -164,17 +196,18 @@ export default function RequestDetailsPage() {
 
   // Handle booking deletion
   const handleDeleteBooking = async () => {
-    if (!booking || !id) return
+    if (!booking || !id || isReadOnly) return
 
     setIsDeleting(true)
     setMessage(null)
 
     try {
-      const result = await deleteBooking(id)
+      const result = await deleteBooking(id, editToken)
 
       if (result.success) {
         setMessage({ type: "success", text: result.message })
         setShowDeleteDialog(false)
+        removeStoredEditToken(id)
 
         // Remove the booking from localStorage
         try {
@@ -219,6 +252,12 @@ export default function RequestDetailsPage() {
   // Status badge styling
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return (
+          <Badge variant="outline" className="bg-slate-500/10 text-slate-500 border-slate-500/20">
+            Waitlisted
+          </Badge>
+        )
       case "pending":
         return (
           <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
@@ -231,6 +270,18 @@ export default function RequestDetailsPage() {
             Confirmed
           </Badge>
         )
+      case "in_progress":
+        return (
+          <Badge variant="outline" className="bg-purple-500/10 text-purple-500 border-purple-500/20">
+            In Progress
+          </Badge>
+        )
+      case "on_hold":
+        return (
+          <Badge variant="outline" className="bg-orange-500/10 text-orange-500 border-orange-500/20">
+            On Hold
+          </Badge>
+        )
       case "completed":
         return (
           <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
@@ -251,10 +302,16 @@ export default function RequestDetailsPage() {
   // Status icon
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case "waitlisted":
+        return <Hourglass className="h-5 w-5 text-slate-500" />
       case "pending":
         return <Clock className="h-5 w-5 text-yellow-500" />
       case "confirmed":
         return <CalendarClock className="h-5 w-5 text-blue-500" />
+      case "in_progress":
+        return <PlayCircle className="h-5 w-5 text-purple-500" />
+      case "on_hold":
+        return <PauseCircle className="h-5 w-5 text-orange-500" />
       case "completed":
         return <CheckCircle className="h-5 w-5 text-green-500" />
       case "cancelled":
@@ -264,60 +321,20 @@ export default function RequestDetailsPage() {
     }
   }
 
-  // Format time string to AM/PM format
-  const formatTime = (timeString: string | undefined): string => {
-    if (!timeString) return ""
-    const [hours, minutes] = timeString.split(":").map(Number)
-    const period = hours >= 12 ? "PM" : "AM"
-    const displayHours = hours % 12 || 12
-    return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
-  }
-
-  // Get time range label
-  const getTimeRangeLabel = (preset: string): string => {
-    switch (preset) {
-      case "early":
-        return "Early (5:00 - 10:00)"
-      case "middle":
-        return "Middle (10:00 - 14:00)"
-      case "late":
-        return "Late (14:00 - 19:00)"
-      default:
-        return "Custom time"
-    }
-  }
-
-  // Format selected days for display
-  const formatSelectedDays = (days: string[] | undefined): string => {
-    // Check if days is undefined or empty
-    if (!days || !Array.isArray(days) || days.length === 0) return "No days selected"
-    if (days.length === 7) return "Every day"
-
-    const dayLabels: Record<string, string> = {
-      monday: "Monday",
-      tuesday: "Tuesday",
-      wednesday: "Wednesday",
-      thursday: "Thursday",
-      friday: "Friday",
-      saturday: "Saturday",
-      sunday: "Sunday",
-    }
+  // Customers signed in to the account the booking is linked to can manage it without the edit token
+  const isOwner = !!booking?.customerId && booking.customerId === session?.user?.id
 
-    // Sort days according to calendar order (Monday first)
-    const dayOrder = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
-    const orderedDays = [...days].sort((a, b) => dayOrder.indexOf(a) - dayOrder.indexOf(b))
-
-    return orderedDays.map((day) => dayLabels[day] || day).join(", ")
-  }
+  // Without the edit token or the owning account the request is shown read-only
+  const isReadOnly = !editToken && !isOwner
 
   // Check if booking can be edited (only pending bookings can be edited)
-  const canEdit = booking && booking.status === "pending"
+  const canEdit = !isReadOnly && booking && booking.status === "pending"
 
-  // Check if booking can be cancelled (only pending or confirmed bookings can be cancelled)
-  const canCancel = booking && (booking.status === "pending" || booking.status === "confirmed")
+  // Check if booking can be cancelled (customers can't cancel once work has started)
+  const canCancel = !isReadOnly && booking && canTransition(booking.status, "cancelled", "customer")
 
   // Check if booking can be deleted (only cancelled bookings can be deleted)
-  const canDelete = booking && booking.status === "cancelled"
+  const canDelete = !isReadOnly && booking && booking.status === "cancelled"
 
   return (
     <div className="w-full px-4 py-8 md:px-6 lg:px-8">
@@ -366,9 +383,14 @@ export default function RequestDetailsPage() {
             </Button>
           </CardContent>
         </Card>
-      ) : isEditMode ? (
+      ) : isEditMode && !isReadOnly ? (
         <div className="w-full">
-          <RequestEditWizard booking={booking} onCancel={() => setIsEditMode(false)} onSuccess={handleBookingUpdated} />
+          <RequestEditWizard
+            booking={booking}
+            editToken={editToken}
+            onCancel={() => setIsEditMode(false)}
+            onSuccess={handleBookingUpdated}
+          />
         </div>
       ) : (
         <Card>
@@ -408,6 +430,16 @@ export default function RequestDetailsPage() {
 
           <CardContent className="py-6">
             <div className="space-y-6">
+              {isReadOnly && !isStaffRole(session?.user?.role) && (
+                <Alert>
+                  <Lock className="h-4 w-4" />
+                  <AlertDescription>
+                    You are viewing this request in read-only mode. Open it from the private link you received when it
+                    was created, or sign in to the account it belongs to, to edit, cancel or comment on it.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Request Information */}
               <div className="grid gap-6 md:grid-cols-2">
                 <div className="space-y-4">
@@ -441,12 +473,13 @@ export default function RequestDetailsPage() {
                       </span>
                     </div>
 
-                    {booking.updatedAt && booking.updatedAt !== booking.createdAt && (
-                      <div className="flex justify-between">
-                        <span className="text-sm text-muted-foreground">Last Updated</span>
-                        <span className="text-sm">{format(new Date(booking.updatedAt), "PPP p")}</span>
-                      </div>
-                    )}
+                    {booking.updatedAt &&
+                      new Date(booking.updatedAt).getTime() !== new Date(booking.createdAt).getTime() && (
+                        <div className="flex justify-between">
+                          <span className="text-sm text-muted-foreground">Last Updated</span>
+                          <span className="text-sm">{format(new Date(booking.updatedAt), "PPP p")}</span>
+                        </div>
+                      )}
                   </div>
                 </div>
 
@@ -486,18 +519,80 @@ export default function RequestDetailsPage() {
                   </div>
                 </div>
               </div>
+
+              {/* Schedule */}
+              {booking.selectedDays.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-lg font-medium flex items-center gap-2">
+                      <CalendarRange className="h-5 w-5" />
+                      Schedule
+                    </h3>
+                    <Button variant="outline" size="sm" className="gap-2" asChild>
+                      <a href={`/api/bookings/${booking._id}/calendar`} download>
+                        <CalendarPlus className="h-4 w-4" />
+                        Add to calendar
+                      </a>
+                    </Button>
+                  </div>
+                  <BookingSchedule booking={booking} />
+                </div>
+              )}
+
+              {/* Status History */}
+              {booking.statusHistory && booking.statusHistory.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Status History
+                  </h3>
+                  <ol className="space-y-3 border-l pl-4">
+                    {[...booking.statusHistory].reverse().map((change, index) => (
+                      <li key={`${new Date(change.changedAt).getTime()}-${index}`} className="text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          {change.from && (
+                            <>
+                              {getStatusBadge(change.from)}
+                              <span className="text-muted-foreground">→</span>
+                            </>
+                          )}
+                          {getStatusBadge(change.to)}
+                          <span className="text-muted-foreground">
+                            {format(new Date(change.changedAt), "PPP p")} by{" "}
+                            {isStaffRole(session?.user?.role)
+                              ? change.actor
+                              : change.actorType === "staff"
+                                ? "Customer Support"
+                                : change.actorType === "system"
+                                  ? change.actor
+                                  : "Customer"}
+                          </span>
+                        </div>
+                        {change.reason && <p className="mt-1 text-muted-foreground">{change.reason}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
             </div>
           </CardContent>
 
           <CardFooter className="border-t p-4 flex justify-between">
             <p className="text-sm text-muted-foreground">
-              {booking.status === "pending"
-                ? "Your request is pending. Our team will review it shortly."
-                : booking.status === "confirmed"
-                  ? "Your request has been confirmed. Our team will assist you at the scheduled time."
-                  : booking.status === "completed"
-                    ? "This request has been completed. Thank you for using our service."
-                    : "This request has been cancelled."}
+              {booking.status === "waitlisted"
+                ? `Your request is on the waitlist${waitlistPosition ? ` at position ${waitlistPosition}` : ""}. ` +
+                  "It will move forward automatically when a slot opens up."
+                : booking.status === "pending"
+                  ? "Your request is pending. Our team will review it shortly."
+                  : booking.status === "confirmed"
+                    ? "Your request has been confirmed. Our team will assist you at the scheduled time."
+                    : booking.status === "in_progress"
+                      ? "Our team is working on your request."
+                      : booking.status === "on_hold"
+                        ? "Your request is on hold. Check the comments below for details."
+                        : booking.status === "completed"
+                          ? "This request has been completed. Thank you for using our service."
+                          : "This request has been cancelled."}
             </p>
             <Button variant="outline" asChild>
               <Link href="/recent">
@@ -512,7 +607,12 @@ export default function RequestDetailsPage() {
       {!isLoading && !error && booking && (
         <Card className="mt-6">
           <CardContent className="py-6">
-            <CommentSection requestId={booking._id?.toString() || ""} initialComments={comments} />
+            <CommentSection
+              requestId={booking._id?.toString() || ""}
+              initialComments={comments}
+              editToken={editToken}
+              isOwner={isOwner}
+            />
           </CardContent>
         </Card>
       )}
@@ -536,6 +636,13 @@ export default function RequestDetailsPage() {
           <DialogDescription>
             Are you sure you want to cancel this assistance request? This action cannot be undone.
           </DialogDescription>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason for cancelling (optional)"
+            rows={2}
+            disabled={isCancelling}
+          />
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCancelDialog(false)} disabled={isCancelling}>
               Keep Request
@@ -0,0 +1,211 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Loader2, KeyRound, ShieldCheck, ShieldOff, Copy, Check } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { changeOwnPassword, startTotpSetup, confirmTotpSetup, disableTotp } from "@/actions/staff-users"
+
+interface AccountSecurityProps {
+  hasPassword: boolean
+  totpEnabled: boolean
+  onChanged: () => void
+}
+
+// Password and two-factor settings for the signed-in staff member
+export function AccountSecurity({ hasPassword, totpEnabled, onChanged }: AccountSecurityProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [totpSetup, setTotpSetup] = useState<{ secret: string; uri: string } | null>(null)
+  const [otp, setOtp] = useState("")
+  const [copied, setCopied] = useState(false)
+
+  async function handleChangePassword(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    const form = event.currentTarget
+
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const formData = new FormData(form)
+      const result = await changeOwnPassword(
+        (formData.get("currentPassword") as string) || "",
+        formData.get("newPassword") as string,
+      )
+
+      setMessage({ type: result.success ? "success" : "error", text: result.message })
+      if (result.success) {
+        form.reset()
+        onChanged()
+      }
+    } catch (error) {
+      console.error("Error changing password:", error)
+      setMessage({ type: "error", text: "Failed to update password" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStartTotp = async () => {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const result = await startTotpSetup()
+
+      if (result.success && result.secret && result.uri) {
+        setTotpSetup({ secret: result.secret, uri: result.uri })
+        setOtp("")
+      } else {
+        setMessage({ type: "error", text: result.message })
+      }
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error)
+      setMessage({ type: "error", text: "Failed to start two-factor setup" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Confirms a pending setup, or turns two-factor off when it is already enabled
+  const handleSubmitOtp = async () => {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      const result = totpEnabled ? await disableTotp(otp) : await confirmTotpSetup(otp)
+
+      setMessage({ type: result.success ? "success" : "error", text: result.message })
+      setOtp("")
+      if (result.success) {
+        setTotpSetup(null)
+        onChanged()
+      }
+    } catch (error) {
+      console.error("Error updating two-factor authentication:", error)
+      setMessage({ type: "error", text: "Failed to update two-factor authentication" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const copySecret = () => {
+    if (!totpSetup) return
+    navigator.clipboard.writeText(totpSetup.secret)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const otpInput = (
+    <InputOTP maxLength={6} value={otp} onChange={setOtp} disabled={isSaving}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Your Sign-in</CardTitle>
+        <CardDescription>Manage the password and one-time codes for your own staff account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <Alert variant={message.type === "success" ? "default" : "destructive"}>
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleChangePassword} className="grid gap-4 md:grid-cols-3 md:items-end">
+          {hasPassword && (
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">Current Password</Label>
+              <Input
+                id="currentPassword"
+                name="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">{hasPassword ? "New Password" : "Password"}</Label>
+            <Input id="newPassword" name="newPassword" type="password" autoComplete="new-password" required />
+          </div>
+          <Button type="submit" variant="outline" disabled={isSaving}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            {hasPassword ? "Change Password" : "Set Password"}
+          </Button>
+        </form>
+
+        <div className="border-t pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-medium">Two-factor authentication</h3>
+              <p className="text-sm text-muted-foreground">
+                {totpEnabled
+                  ? "A code from your authenticator app is required when signing in with your password"
+                  : "Require a code from an authenticator app when signing in with your password"}
+              </p>
+            </div>
+            {!totpEnabled && !totpSetup && (
+              <Button variant="outline" onClick={handleStartTotp} disabled={isSaving || !hasPassword}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Set Up
+              </Button>
+            )}
+          </div>
+
+          {totpSetup && (
+            <div className="rounded-md border p-4 space-y-3">
+              <p className="text-sm">
+                Add this secret to your authenticator app, or open the setup link on a device that has one, then
+                enter the code it shows.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-sm">{totpSetup.secret}</code>
+                <Button variant="ghost" size="icon" onClick={copySecret}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <a href={totpSetup.uri} className="text-sm text-primary underline">
+                Open setup link
+              </a>
+              <div className="flex flex-wrap items-center gap-2">
+                {otpInput}
+                <Button onClick={handleSubmitOtp} disabled={isSaving || otp.length !== 6}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enable
+                </Button>
+                <Button variant="ghost" onClick={() => setTotpSetup(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {totpEnabled && (
+            <div className="flex flex-wrap items-center gap-2">
+              {otpInput}
+              <Button variant="outline" onClick={handleSubmitOtp} disabled={isSaving || otp.length !== 6}>
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Turn Off
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,10 +2,11 @@
 
 import { useSession } from "next-auth/react"
 import { AdminPanel } from "@/components/admin-panel"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export function AdminPanelWrapper() {
   const { data: session } = useSession()
-  const isAdmin = session?.user?.role === "admin"
+  const isAdmin = isStaffRole(session?.user?.role)
 
   // Only render the admin console if the user is an admin
   if (!isAdmin) {
@@ -6,13 +6,33 @@ import { useSession } from "next-auth/react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Settings, Users, GamepadIcon as GameController, FileText, BarChart3, List, CalendarClock } from "lucide-react"
+import {
+  Settings,
+  Users,
+  GamepadIcon as GameController,
+  FileText,
+  BarChart3,
+  List,
+  CalendarClock,
+  History,
+  HardDrive,
+  Gamepad2,
+  CalendarDays,
+  CalendarOff,
+} from "lucide-react"
 
 export function AdminPanel() {
   const { data: session } = useSession()
   const [activeTab, setActiveTab] = useState("overview")
 
   const adminModules = [
+    {
+      id: "games",
+      name: "Games",
+      description: "Add games and manage their pages",
+      icon: Gamepad2,
+      link: "/admin/games",
+    },
     {
       id: "featured-toons",
       name: "Featured Toons",
@@ -27,6 +47,20 @@ export function AdminPanel() {
       icon: CalendarClock,
       link: "/admin/assistance-requests",
     },
+    {
+      id: "calendar",
+      name: "Calendar",
+      description: "See scheduled requests in a week grid",
+      icon: CalendarDays,
+      link: "/admin/calendar",
+    },
+    {
+      id: "blackouts",
+      name: "Blackouts",
+      description: "Block scheduling for maintenance windows and days off",
+      icon: CalendarOff,
+      link: "/admin/blackouts",
+    },
     {
       id: "assistance-types",
       name: "Assistance Types",
@@ -44,10 +78,23 @@ export function AdminPanel() {
     {
       id: "users",
       name: "User Management",
-      description: "Manage user accounts and permissions",
+      description: "Invite staff and manage their roles",
       icon: Users,
-      link: "#",
-      disabled: true,
+      link: "/admin/users",
+    },
+    {
+      id: "audit-log",
+      name: "Audit Log",
+      description: "See who changed requests, types, templates and staff",
+      icon: History,
+      link: "/admin/audit-log",
+    },
+    {
+      id: "storage",
+      name: "Storage Cleanup",
+      description: "Find and delete uploaded images that are no longer used",
+      icon: HardDrive,
+      link: "/admin/storage",
     },
     {
       id: "content",
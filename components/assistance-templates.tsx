@@ -10,10 +10,11 @@ import { getAssistanceTemplateById } from "@/actions/assistance-templates"
 import type { AssistanceTemplate } from "@/models/assistance-template"
 
 interface AssistanceTemplatesProps {
+  gameId?: string
   onSelectTemplate: (template: AssistanceTemplate) => void
 }
 
-export function AssistanceTemplates({ onSelectTemplate }: AssistanceTemplatesProps) {
+export function AssistanceTemplates({ gameId, onSelectTemplate }: AssistanceTemplatesProps) {
   const [templates, setTemplates] = useState<AssistanceTemplate[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -22,8 +23,8 @@ export function AssistanceTemplates({ onSelectTemplate }: AssistanceTemplatesPro
     const loadTemplates = async () => {
       setIsLoading(true)
       try {
-        // Only get active templates
-        const data = await getAssistanceTemplates(true)
+        // Only get active templates for this game
+        const data = await getAssistanceTemplates(true, gameId)
         setTemplates(data)
       } catch (err) {
         console.error("Error loading templates:", err)
@@ -34,7 +35,7 @@ export function AssistanceTemplates({ onSelectTemplate }: AssistanceTemplatesPro
     }
 
     loadTemplates()
-  }, [])
+  }, [gameId])
 
   const handleSelectTemplate = async (templateId: string) => {
     try {
@@ -15,7 +15,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { DateTimeRangePicker } from "@/components/date-time-range-picker"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { getAssistanceTypes, createBooking, initializeAssistanceTypes } from "@/actions/assistance"
+import { getAssistanceTypes, createBooking } from "@/actions/assistance"
 import { MultiFileUpload } from "@/components/multi-file-upload"
 import type { AssistanceType } from "@/models/assistance"
 
@@ -73,9 +73,6 @@ export function BookingForm() {
     const loadAssistanceTypes = async () => {
       setIsLoading(true)
       try {
-        // Initialize default assistance types if needed
-        await initializeAssistanceTypes()
-
         // Get assistance types
         const types = await getAssistanceTypes()
         setAssistanceTypes(types)
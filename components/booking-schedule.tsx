@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  SERVER_TIME_ZONE,
+  WEEK_DAYS,
+  convertSchedule,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  getTimeZoneOffset,
+  getViewerTimeZone,
+  type WeeklySchedule,
+} from "@/lib/schedule-time-zone"
+import type { Booking } from "@/models/assistance"
+
+const TIME_RANGE_NAMES: Record<Booking["timeRangePreset"], string> = {
+  early: "Early",
+  middle: "Midday",
+  late: "Late",
+  custom: "Custom",
+}
+
+type ScheduledBooking = Pick<Booking, "selectedDays" | "timeRangePreset" | "startTime" | "endTime" | "timeZone">
+
+// The viewer's zone, server time until the browser reports its own after mounting
+export function useViewerTimeZone(): string {
+  const [timeZone, setTimeZone] = useState(SERVER_TIME_ZONE)
+
+  useEffect(() => {
+    setTimeZone(getViewerTimeZone())
+  }, [])
+
+  return timeZone
+}
+
+// Format time string to AM/PM format
+function formatTime(timeString: string | undefined): string {
+  if (!timeString) return ""
+  const [hours, minutes] = timeString.split(":").map(Number)
+  const period = hours >= 12 ? "PM" : "AM"
+  const displayHours = hours % 12 || 12
+  return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
+}
+
+function formatDays(days: string[], compact: boolean): string {
+  if (days.length === 0) return "No days selected"
+  if (days.length === 7) return "Every day"
+
+  return WEEK_DAYS.filter((day) => days.includes(day))
+    .map((day) => {
+      const label = day.charAt(0).toUpperCase() + day.slice(1)
+      return compact ? label.slice(0, 3) : label
+    })
+    .join(", ")
+}
+
+function formatTimes(schedule: WeeklySchedule): string {
+  return `${formatTime(schedule.startTime)} - ${formatTime(schedule.endTime)}`
+}
+
+interface BookingScheduleProps {
+  booking: ScheduledBooking
+  compact?: boolean // Shorter day names and smaller text, for table cells
+}
+
+/**
+ * A booking's days and time range in the viewer's zone.
+ * When the customer booked from a zone with a different offset, the schedule as they picked it is shown below.
+ */
+export function BookingSchedule({ booking, compact = false }: BookingScheduleProps) {
+  const viewerTimeZone = useViewerTimeZone()
+
+  const serverSchedule = getServerSchedule(booking)
+  const viewerSchedule = convertSchedule(serverSchedule, SERVER_TIME_ZONE, viewerTimeZone)
+  const originalTimeZone = booking.timeZone || SERVER_TIME_ZONE
+  const originalSchedule = convertSchedule(serverSchedule, SERVER_TIME_ZONE, originalTimeZone)
+  const isViewerZone = getTimeZoneOffset(originalTimeZone) === getTimeZoneOffset(viewerTimeZone)
+
+  if (booking.selectedDays.length === 0) {
+    return <span className={compact ? "text-xs" : "text-sm"}>No schedule</span>
+  }
+
+  return (
+    <div className={compact ? "text-xs" : "space-y-1 text-sm"}>
+      <div>{formatDays(viewerSchedule.selectedDays, compact)}</div>
+      <div>
+        {!compact && `${TIME_RANGE_NAMES[booking.timeRangePreset]}: `}
+        {formatTimes(viewerSchedule)}{" "}
+        <span className="text-muted-foreground">
+          ({formatTimeZoneOffset(viewerTimeZone)}
+          {!compact && ", your time"})
+        </span>
+      </div>
+      {!isViewerZone && (
+        <div className="text-muted-foreground">
+          {compact ? "Booked as " : "Requested as "}
+          {formatDays(originalSchedule.selectedDays, true)} {formatTimes(originalSchedule)}{" "}
+          {`${originalTimeZone} (${formatTimeZoneOffset(originalTimeZone)})`}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
+import { format } from "date-fns"
 import { z } from "zod"
 import {
   Loader2,
@@ -23,9 +24,12 @@ import {
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { getAssistanceTypes, createBooking, initializeAssistanceTypes, getBookings } from "@/actions/assistance"
+import { getAssistanceTypes, createBooking, getScheduleAvailability, hasActiveRequest } from "@/actions/assistance"
+import { getUpcomingBlackouts } from "@/actions/blackouts"
 import { FormWizard } from "@/components/form-wizard"
 import type { AssistanceType } from "@/models/assistance"
+import type { Blackout } from "@/models/blackout"
+import { type Game, gamePath } from "@/models/game"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
@@ -36,6 +40,28 @@ import Link from "next/link"
 // Add this import at the top of the file
 import { AssistanceTemplates } from "@/components/assistance-templates"
 import type { AssistanceTemplate } from "@/models/assistance-template"
+import { RateLimitNotice } from "@/components/rate-limit-notice"
+import { storeEditToken } from "@/lib/edit-token-storage"
+import { describeBlackoutConflicts, findBlackoutConflicts } from "@/lib/blackouts"
+import {
+  type CapacityLevel,
+  type ScheduleAvailability,
+  type ScheduleWindow,
+  describeWaitlistConflicts,
+  findCapacityConflicts,
+  getScheduleWindows,
+  getWorstCapacityLevel,
+} from "@/lib/booking-capacity"
+import {
+  type WeeklySchedule,
+  SERVER_TIME_ZONE,
+  convertSchedule,
+  crossesMidnight,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  getViewerTimeZone,
+  shiftDay,
+} from "@/lib/schedule-time-zone"
 
 // Form schema
 const formSchema = z.object({
@@ -75,20 +101,20 @@ const DAYS_OF_WEEK = [
   { id: "sunday", label: "Sunday" },
 ]
 
-// Predefined time ranges
+// Predefined time ranges in server time, shown to the customer in their own zone
 const TIME_RANGES = {
   early: {
-    label: "Early (5:00 - 10:00)",
+    label: "Early",
     startTime: "05:00",
     endTime: "10:00",
   },
   middle: {
-    label: "Midday (10:00 - 14:00)",
+    label: "Midday",
     startTime: "10:00",
     endTime: "14:00",
   },
   late: {
-    label: "Late (14:00 - 19:00)",
+    label: "Late",
     startTime: "14:00",
     endTime: "19:00",
   },
@@ -100,6 +126,21 @@ const TIME_RANGES = {
 }
 
 // Generate time options (30 min intervals)
+// Marks a day or time range that is full or close to it, nothing when there is room
+function CapacityBadge({ level }: { level: CapacityLevel }) {
+  if (level === "available") return null
+
+  return (
+    <span
+      className={`ml-2 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${
+        level === "full" ? "bg-destructive/10 text-destructive" : "bg-amber-500/10 text-amber-600"
+      }`}
+    >
+      {level === "full" ? "Full" : "Nearly full"}
+    </span>
+  )
+}
+
 const generateTimeOptions = () => {
   const options = []
   for (let hour = 0; hour < 24; hour++) {
@@ -113,15 +154,21 @@ const generateTimeOptions = () => {
   return options
 }
 
-export function BookingWizard() {
+interface BookingWizardProps {
+  game: Game
+}
+
+export function BookingWizard({ game }: BookingWizardProps) {
   const router = useRouter()
   const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<Date | null>(null)
   const [photoUrls, setPhotoUrls] = useState<string[]>([])
   const [currentStep, setCurrentStep] = useState(0)
   const [isComplete, setIsComplete] = useState(false)
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null)
   const [requestNumber, setRequestNumber] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
   const [selectedTimeRange, setSelectedTimeRange] = useState<"early" | "middle" | "late" | "custom">("early")
@@ -130,8 +177,14 @@ export function BookingWizard() {
   const [pendingSubmission, setPendingSubmission] = useState(false)
   const [selectAllDays, setSelectAllDays] = useState(false)
   const [selectedAssistanceType, setSelectedAssistanceType] = useState<AssistanceType | null>(null)
+  const [availability, setAvailability] = useState<ScheduleAvailability | null>(null)
+  const [blackouts, setBlackouts] = useState<Blackout[]>([])
+  // Days and times in the form are in this zone until the booking is submitted
+  const [timeZone, setTimeZone] = useState(SERVER_TIME_ZONE)
   const [booking, setBooking] = useState<any | null>(null)
   const [bookingId, setBookingId] = useState<string | null>(null)
+  const [editToken, setEditToken] = useState<string | null>(null)
+  const [copiedLink, setCopiedLink] = useState(false)
 
   // Direct DOM references for problematic fields
   const characterIdRef = useRef<HTMLInputElement>(null)
@@ -228,6 +281,62 @@ export function BookingWizard() {
   }
 
   // Check if current step is valid
+  // The schedule currently picked in the form, re-rendered as it changes
+  const [watchedDays, watchedPreset, watchedStartTime, watchedEndTime, watchedSlots] = form.watch([
+    "selectedDays",
+    "timeRangePreset",
+    "startTime",
+    "endTime",
+    "slots",
+  ])
+
+  // A preset's times in the customer's zone
+  const getLocalTimeRange = (preset: ScheduleWindow) =>
+    convertSchedule(getServerSchedule({ selectedDays: [], timeRangePreset: preset }), SERVER_TIME_ZONE, timeZone)
+  const toServerSchedule = (schedule: WeeklySchedule) => convertSchedule(schedule, timeZone, SERVER_TIME_ZONE)
+
+  // Capacity is counted in server time, conflicts are moved back to the customer's days for display
+  const serverSchedule = toServerSchedule({
+    selectedDays: watchedDays || [],
+    startTime: watchedStartTime,
+    endTime: watchedEndTime,
+  })
+  const isPastServerMidnight = watchedPreset === "custom" && crossesMidnight(serverSchedule)
+  const serverMidnight = convertSchedule(
+    { selectedDays: [], startTime: "00:00", endTime: "00:00" },
+    SERVER_TIME_ZONE,
+    timeZone,
+  ).startTime
+  const capacityConflicts = availability
+    ? findCapacityConflicts(availability, {
+        ...serverSchedule,
+        timeRangePreset: watchedPreset,
+        slots: watchedSlots,
+      }).map((conflict) => ({ ...conflict, day: shiftDay(conflict.day, -serverSchedule.dayShift) }))
+    : []
+
+  // Blackouts are checked in server time, like capacity
+  const blackoutConflicts = findBlackoutConflicts(serverSchedule, blackouts)
+
+  // How full a day is for the picked time range, or a time range across the picked days
+  const getDayCapacityLevel = (day: string): CapacityLevel =>
+    availability
+      ? getWorstCapacityLevel(
+          availability,
+          [shiftDay(day, serverSchedule.dayShift)],
+          getScheduleWindows({ ...serverSchedule, timeRangePreset: watchedPreset }),
+          watchedSlots,
+        )
+      : "available"
+  const getTimeRangeCapacityLevel = (preset: string): CapacityLevel => {
+    if (!availability || preset === "custom") return "available"
+
+    const window = preset as ScheduleWindow
+    const { startTime, endTime } = getLocalTimeRange(window)
+    const { selectedDays } = toServerSchedule({ selectedDays: watchedDays || [], startTime, endTime })
+    return getWorstCapacityLevel(availability, selectedDays, [window], watchedSlots)
+  }
+
   const isStepValid = () => {
     // Get the actual step in the base steps array
     const actualStep = getActualStepIndex(currentStep)
@@ -257,7 +366,9 @@ export function BookingWizard() {
         return (
           selectedDays &&
           selectedDays.length > 0 &&
-          (timeRangePreset !== "custom" || (startTime && endTime && startTime < endTime))
+          (timeRangePreset !== "custom" || (startTime && endTime && startTime < endTime)) &&
+          !isPastServerMidnight &&
+          blackoutConflicts.length === 0
         )
       case 3: // Review step
         const willingToDonate = form.getValues("willingToDonate")
@@ -267,16 +378,54 @@ export function BookingWizard() {
     }
   }
 
+  // The browser's zone is only known after mounting, preset times follow it
+  useEffect(() => {
+    setTimeZone(getViewerTimeZone())
+  }, [])
+
+  useEffect(() => {
+    const preset = form.getValues("timeRangePreset")
+    if (preset === "custom") return
+
+    const range = getLocalTimeRange(preset)
+    form.setValue("startTime", range.startTime)
+    form.setValue("endTime", range.endTime)
+  }, [timeZone])
+
+  // Load the slots already taken for the chosen type, again when reaching the schedule step so it is current
+  const isScheduleStep = currentStep === 2
+  useEffect(() => {
+    const assistanceTypeId = selectedAssistanceType?._id
+    if (!assistanceTypeId || !selectedAssistanceType.maxSlotsPerWindow) {
+      setAvailability(null)
+      return
+    }
+
+    getScheduleAvailability(assistanceTypeId)
+      .then(setAvailability)
+      .catch((error) => console.error("Error loading schedule availability:", error))
+  }, [selectedAssistanceType, isScheduleStep])
+
+  // Load the blackouts for the chosen type the same way
+  useEffect(() => {
+    const assistanceTypeId = selectedAssistanceType?._id
+    if (!assistanceTypeId) {
+      setBlackouts([])
+      return
+    }
+
+    getUpcomingBlackouts(assistanceTypeId)
+      .then(setBlackouts)
+      .catch((error) => console.error("Error loading blackouts:", error))
+  }, [selectedAssistanceType, isScheduleStep])
+
   // Load assistance types
   useEffect(() => {
     const loadAssistanceTypes = async () => {
       setIsLoading(true)
       try {
-        // Initialize default assistance types if needed
-        await initializeAssistanceTypes()
-
         // Get assistance types
-        const types = await getAssistanceTypes()
+        const types = await getAssistanceTypes(game._id)
         setAssistanceTypes(types)
 
         // Don't set default value for assistance type
@@ -289,7 +438,7 @@ export function BookingWizard() {
     }
 
     loadAssistanceTypes()
-  }, [form])
+  }, [form, game._id])
 
   // Handle photo URLs change
   const handlePhotoUrlsChange = (urls: string[]) => {
@@ -305,7 +454,7 @@ export function BookingWizard() {
     form.setValue("timeRangePreset", value)
 
     if (value !== "custom") {
-      const range = TIME_RANGES[value]
+      const range = getLocalTimeRange(value)
       form.setValue("startTime", range.startTime)
       form.setValue("endTime", range.endTime)
     }
@@ -390,6 +539,28 @@ export function BookingWizard() {
     }
   }
 
+  // Get the private link that lets the customer manage this request from any device
+  const getPrivateLink = (): string => {
+    if (!bookingId || !editToken) return ""
+    return `${window.location.origin}/request/${bookingId}?token=${encodeURIComponent(editToken)}`
+  }
+
+  // Copy the private link to clipboard
+  const handleCopyPrivateLink = (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    navigator.clipboard
+      .writeText(getPrivateLink())
+      .then(() => {
+        setCopiedLink(true)
+        setTimeout(() => setCopiedLink(false), 2000)
+      })
+      .catch((err) => {
+        console.error("Failed to copy: ", err)
+      })
+  }
+
   // Convert time string to Date object
   const formatTime = (timeString: string): string => {
     if (!timeString) return ""
@@ -399,16 +570,24 @@ export function BookingWizard() {
     return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
   }
 
+  // A preset's name with its times in the customer's zone
+  const getTimeRangeLabel = (preset: "early" | "middle" | "late" | "custom"): string => {
+    if (preset === "custom") return TIME_RANGES.custom.label
+
+    const { startTime = "", endTime = "" } = getLocalTimeRange(preset)
+    return `${TIME_RANGES[preset].label} (${formatTime(startTime)} - ${formatTime(endTime)})`
+  }
+
   // Get time range description
   const getTimeRangeDescription = () => {
     const preset = form.getValues("timeRangePreset")
     if (preset !== "custom") {
-      return TIME_RANGES[preset].label
+      return `${getTimeRangeLabel(preset)} ${formatTimeZoneOffset(timeZone)}`
     }
 
     const startTime = form.getValues("startTime")
     const endTime = form.getValues("endTime")
-    return `${formatTime(startTime)} - ${formatTime(endTime)}`
+    return `${formatTime(startTime)} - ${formatTime(endTime)} ${formatTimeZoneOffset(timeZone)}`
   }
 
   // Format selected days for display
@@ -457,18 +636,7 @@ export function BookingWizard() {
 
     // Check for duplicate bookings first
     try {
-      // Get all bookings
-      const bookings = await getBookings()
-
-      // Filter for active bookings with the same character ID and assistance type
-      const duplicateBookings = bookings.filter(
-        (booking) =>
-          booking.characterId === values.characterId &&
-          booking.assistanceTypeId === values.assistanceTypeId &&
-          booking.status !== "cancelled",
-      )
-
-      if (duplicateBookings.length > 0) {
+      if (await hasActiveRequest(values.characterId, values.assistanceTypeId)) {
         setMessage({
           type: "error",
           text: "You already have an active request for this assistance type. Please wait until it's completed or cancelled before requesting again.",
@@ -510,6 +678,7 @@ export function BookingWizard() {
   async function onSubmit() {
     setIsSubmitting(true)
     setMessage(null)
+    setRateLimitedUntil(null)
     setPendingSubmission(false)
 
     try {
@@ -552,6 +721,7 @@ export function BookingWizard() {
         formData.append("timeRangePreset", values.timeRangePreset || "early")
         formData.append("startTime", values.startTime || "")
         formData.append("endTime", values.endTime || "")
+        formData.append("timeZone", timeZone)
       } else {
         // Add empty values for schedule fields when scheduling is disabled
         formData.append("selectedDays", JSON.stringify([]))
@@ -607,8 +777,16 @@ export function BookingWizard() {
           // Store the booking ID if available
           if (result.booking && result.booking._id) {
             setBookingId(result.booking._id.toString())
+
+            // The edit token is only returned once, keep it so this browser can manage the request
+            if (result.editToken) {
+              storeEditToken(result.booking._id.toString(), result.editToken)
+              setEditToken(result.editToken)
+            }
           }
 
+          setWaitlistPosition(result.waitlistPosition ?? null)
+
           // Set isComplete to true - this will now completely change the UI
           setIsComplete(true)
 
@@ -618,7 +796,9 @@ export function BookingWizard() {
           }, 3000)
         } else {
           // Check if this is a duplicate booking error
-          if (result.isDuplicate) {
+          if (result.code === "rate_limited") {
+            setRateLimitedUntil(new Date(Date.now() + (result.retryAfter || 60) * 1000))
+          } else if (result.isDuplicate) {
             setMessage({
               type: "error",
               text: "You already have an active request for this assistance type. Please wait until it's completed or cancelled before requesting again.",
@@ -664,8 +844,8 @@ export function BookingWizard() {
       additionalInfo: "",
       selectedDays: [],
       timeRangePreset: "early",
-      startTime: TIME_RANGES.early.startTime,
-      endTime: TIME_RANGES.early.endTime,
+      startTime: getLocalTimeRange("early").startTime,
+      endTime: getLocalTimeRange("early").endTime,
       photoUrls: [],
       slots: 1,
       willingToDonate: "no",
@@ -685,7 +865,7 @@ export function BookingWizard() {
     if (additionalInfoRef.current) additionalInfoRef.current.value = ""
 
     // Force a hard refresh if needed
-    window.location.href = "/games/ragnarok-m-classic"
+    window.location.href = gamePath(game.slug)
   }
 
   // Get assistance type name by ID
@@ -723,10 +903,22 @@ export function BookingWizard() {
     const selectedType = assistanceTypes.find((type) => type._id?.toString() === template.assistanceTypeId.toString())
     setSelectedAssistanceType(selectedType || null)
 
-    // Set schedule values if available
-    if (template.selectedDays && template.selectedDays.length > 0) {
-      form.setValue("selectedDays", template.selectedDays)
-      setSelectAllDays(template.selectedDays.length === 7)
+    // Set schedule values if available, templates are saved in server time
+    const timeRangePreset = template.timeRangePreset || form.getValues("timeRangePreset")
+    const localSchedule = convertSchedule(
+      getServerSchedule({
+        selectedDays: template.selectedDays || [],
+        timeRangePreset,
+        startTime: template.startTime,
+        endTime: template.endTime,
+      }),
+      SERVER_TIME_ZONE,
+      timeZone,
+    )
+
+    if (localSchedule.selectedDays.length > 0) {
+      form.setValue("selectedDays", localSchedule.selectedDays)
+      setSelectAllDays(localSchedule.selectedDays.length === 7)
     }
 
     if (template.timeRangePreset) {
@@ -734,8 +926,8 @@ export function BookingWizard() {
       setSelectedTimeRange(template.timeRangePreset)
 
       if (template.timeRangePreset === "custom") {
-        if (template.startTime) form.setValue("startTime", template.startTime)
-        if (template.endTime) form.setValue("endTime", template.endTime)
+        if (template.startTime) form.setValue("startTime", localSchedule.startTime)
+        if (template.endTime) form.setValue("endTime", localSchedule.endTime)
       }
     }
 
@@ -755,7 +947,14 @@ export function BookingWizard() {
           <CheckCircle className="mx-auto h-20 w-20 text-green-500" />
           <h3 className="mt-6 text-2xl font-bold">Request Submitted!</h3>
           <p className="mt-2 text-muted-foreground">Your assistance request has been submitted successfully.</p>
-          <p className="mt-2 text-muted-foreground">Our team will contact you within 24 hours.</p>
+          {waitlistPosition ? (
+            <p className="mt-2 text-muted-foreground">
+              The time you picked is fully booked, so your request is on the waitlist at position {waitlistPosition}.
+              It will move forward automatically when a slot opens up, and we&apos;ll let you know in its comments.
+            </p>
+          ) : (
+            <p className="mt-2 text-muted-foreground">Our team will contact you within 24 hours.</p>
+          )}
         </div>
 
         {requestNumber && (
@@ -782,6 +981,30 @@ export function BookingWizard() {
           </div>
         )}
 
+        {bookingId && editToken && (
+          <div className="p-6 bg-muted/50 rounded-lg border">
+            <h4 className="text-center font-bold text-lg mb-3">Your Private Link</h4>
+            <div className="flex items-center justify-center gap-2 mb-4">
+              <code className="bg-background px-3 py-2 rounded border text-xs font-mono break-all select-all">
+                {getPrivateLink()}
+              </code>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleCopyPrivateLink}
+                title="Copy to clipboard"
+                className="flex-shrink-0"
+              >
+                {copiedLink ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-sm text-center text-muted-foreground">
+              This link is shown only once. Save it to edit, cancel or comment on your request from another device.
+            </p>
+          </div>
+        )}
+
         <div className="flex justify-center gap-4 mt-8">
           {bookingId && (
             <Button asChild>
@@ -996,11 +1219,15 @@ export function BookingWizard() {
                             }}
                           />
                           <span>{day.label}</span>
+                          <CapacityBadge level={getDayCapacityLevel(day.id)} />
                         </label>
                       ))}
                     </div>
                   </FormControl>
-                  <FormDescription>Select at least one day you're available for assistance</FormDescription>
+                  <FormDescription>
+                    Select at least one day you're available for assistance. Days and times are in your time zone,{" "}
+                    {timeZone} ({formatTimeZoneOffset(timeZone)}).
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -1033,7 +1260,8 @@ export function BookingWizard() {
                               handleTimeRangeChange(key as "early" | "middle" | "late" | "custom")
                             }}
                           />
-                          <span>{range.label}</span>
+                          <span>{getTimeRangeLabel(key as keyof typeof TIME_RANGES)}</span>
+                          <CapacityBadge level={getTimeRangeCapacityLevel(key)} />
                         </label>
                       ))}
                     </div>
@@ -1142,6 +1370,37 @@ export function BookingWizard() {
                 </FormItem>
               )}
             />
+
+            {isPastServerMidnight && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  This time range runs past midnight in game server time ({formatTimeZoneOffset(SERVER_TIME_ZONE)}),
+                  which is {formatTime(serverMidnight || "")} your time. Please pick a range that ends by then.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {blackoutConflicts.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {describeBlackoutConflicts(blackoutConflicts)}
+                  <ul className="mt-2 list-disc pl-5">
+                    {blackoutConflicts.map((blackout) => (
+                      <li key={blackout._id}>
+                        {blackout.reason}: {format(new Date(blackout.startsAt), "EEE, MMM d h:mm a")} -{" "}
+                        {format(new Date(blackout.endsAt), "EEE, MMM d h:mm a")}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {capacityConflicts.length > 0 && (
+              <Alert>
+                <AlertDescription>{describeWaitlistConflicts(capacityConflicts)}</AlertDescription>
+              </Alert>
+            )}
           </div>
         )
 
@@ -1272,7 +1531,7 @@ export function BookingWizard() {
   const renderFormWizardContent = () => {
     return (
       <div className="space-y-6">
-        <AssistanceTemplates onSelectTemplate={handleSelectTemplate} />
+        <AssistanceTemplates gameId={game._id} onSelectTemplate={handleSelectTemplate} />
         <Form {...form}>
           <FormWizard
             steps={steps}
@@ -1313,6 +1572,8 @@ export function BookingWizard() {
           </Alert>
         )}
 
+        {rateLimitedUntil && !isComplete && <RateLimitNotice retryAt={rateLimitedUntil} className="mb-4" />}
+
         {/* Completely separate rendering based on completion state */}
         {isComplete ? renderCompletionScreenContent() : renderFormWizardContent()}
       </CardContent>
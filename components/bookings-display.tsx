@@ -9,10 +9,11 @@ import { getUnreadCommentsCounts } from "@/actions/comments"
 import { useSession } from "next-auth/react"
 import type { Booking } from "@/models/assistance"
 import { NotificationBadge } from "@/components/notification-badge"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export function BookingsDisplay() {
   const { data: session } = useSession()
-  const isAdmin = session?.user?.role === "admin"
+  const isAdmin = isStaffRole(session?.user?.role)
 
   const [bookings, setBookings] = useState<Booking[]>([])
   const [isLoading, setIsLoading] = useState(true)
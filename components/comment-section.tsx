@@ -10,22 +10,28 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { addComment } from "@/actions/comments"
-import type { Comment } from "@/models/comment"
+import { type Comment, STAFF_AUTHOR_NAME } from "@/models/comment"
+import { isStaffRole } from "@/lib/staff-roles"
+import { RateLimitNotice } from "@/components/rate-limit-notice"
 
 interface CommentSectionProps {
   requestId: string
   initialComments: Comment[]
+  editToken?: string | null // Lets the customer reply; staff comment with their session instead
+  isOwner?: boolean // The signed-in customer account owns the request and can reply without the token
 }
 
-export function CommentSection({ requestId, initialComments }: CommentSectionProps) {
+export function CommentSection({ requestId, initialComments, editToken, isOwner }: CommentSectionProps) {
   const { data: session } = useSession()
   const [comments, setComments] = useState<Comment[]>(initialComments)
   const [visibleCount, setVisibleCount] = useState<number>(5)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<Date | null>(null)
   const [newComment, setNewComment] = useState<string>("")
 
-  const isAdmin = session?.user?.role === "admin"
+  const isAdmin = isStaffRole(session?.user?.role)
+  const canComment = isAdmin || !!editToken || !!isOwner
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -34,17 +40,20 @@ export function CommentSection({ requestId, initialComments }: CommentSectionPro
 
     setIsSubmitting(true)
     setError(null)
+    setRateLimitedUntil(null)
 
     try {
-      // Determine author type based on user role
-      const authorName = isAdmin ? "Customer Support" : "Customer"
+      // Staff replies are signed with the assignee's name on the server
+      const authorName = isAdmin ? undefined : "Customer"
 
-      const result = await addComment(requestId, newComment, isAdmin, authorName)
+      const result = await addComment(requestId, newComment, isAdmin, authorName, editToken)
 
       if (result.success && result.comment) {
         // Add the new comment to the list
         setComments([...comments, result.comment])
         setNewComment("")
+      } else if (result.code === "rate_limited") {
+        setRateLimitedUntil(new Date(Date.now() + (result.retryAfter || 60) * 1000))
       } else {
         setError(result.message)
       }
@@ -91,7 +100,7 @@ export function CommentSection({ requestId, initialComments }: CommentSectionPro
                     <div className={`flex-1 space-y-1 ${comment.isAdmin ? "pr-12" : "pl-0 pr-12"}`}>
                       <div className="flex items-center gap-2">
                         <span className="font-medium">
-                          {comment.authorName || (comment.isAdmin ? "Customer Support" : "Customer")}
+                          {comment.authorName || (comment.isAdmin ? STAFF_AUTHOR_NAME : "Customer")}
                         </span>
                         <span className="text-xs text-muted-foreground">
                           {format(new Date(comment.createdAt), "MMM d, yyyy 'at' h:mm a")}
@@ -124,30 +133,37 @@ export function CommentSection({ requestId, initialComments }: CommentSectionPro
         )}
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-2">
-        <Textarea
-          placeholder="Add a comment..."
-          value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          className="min-h-[100px] resize-none"
-        />
-        {error && <p className="text-sm text-destructive">{error}</p>}
-        <div className="flex justify-end">
-          <Button type="submit" disabled={isSubmitting || !newComment.trim()}>
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Sending...
-              </>
-            ) : (
-              <>
-                <Send className="mr-2 h-4 w-4" />
-                Send Comment
-              </>
-            )}
-          </Button>
-        </div>
-      </form>
+      {!canComment ? (
+        <p className="text-sm text-muted-foreground">
+          Open this request from the private link you received when it was created to add a comment.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Textarea
+            placeholder="Add a comment..."
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            className="min-h-[100px] resize-none"
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {rateLimitedUntil && <RateLimitNotice retryAt={rateLimitedUntil} />}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting || !newComment.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Send className="mr-2 h-4 w-4" />
+                  Send Comment
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      )}
     </div>
   )
 }
@@ -9,10 +9,16 @@ import { cn } from "@/lib/utils"
 import { getFeaturedToons } from "@/actions/featured-toons"
 import { BookingWizard } from "@/components/booking-wizard"
 import type { FeaturedToon } from "@/models/featured-toon"
+import type { Game } from "@/models/game"
 
 const SHOW_FEATURED_TOONS = false // Set to false to hide featured toons section
 
-export default function RagnarokMClassicPage() {
+interface GamePageProps {
+  game: Game
+}
+
+// The booking page for one game, rendered by app/games/[slug]
+export function GamePage({ game }: GamePageProps) {
   // Initialize with empty array to avoid undefined
   const [featuredToons, setFeaturedToons] = useState<FeaturedToon[]>([])
   const [zoomedImage, setZoomedImage] = useState<string | null>(null)
@@ -24,7 +30,7 @@ export default function RagnarokMClassicPage() {
   useEffect(() => {
     async function loadFeaturedToons() {
       try {
-        const toons = await getFeaturedToons()
+        const toons = await getFeaturedToons(game._id)
         // Ensure we always set an array, even if the response is invalid
         const toonsArray = Array.isArray(toons) ? toons : []
         setFeaturedToons(toonsArray)
@@ -45,7 +51,7 @@ export default function RagnarokMClassicPage() {
     }
 
     loadFeaturedToons()
-  }, [])
+  }, [game._id])
 
   const handleZoom = (imageUrl: string) => {
     setZoomedImage(imageUrl)
@@ -100,15 +106,16 @@ export default function RagnarokMClassicPage() {
               <div className="flex items-center gap-4">
                 <div className="relative h-16 w-16 overflow-hidden rounded-lg border border-border/50">
                   <Image
-                    src="/romc-logo.png"
-                    alt="Ragnarok M Classic"
+                    src={game.logo || "/placeholder.svg"}
+                    alt={game.name}
                     width={64}
                     height={64}
                     className="object-cover"
                   />
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold tracking-tight">Ragnarok M Classic</h1>
+                  <h1 className="text-3xl font-bold tracking-tight">{game.name}</h1>
+                  {game.description && <p className="text-sm text-muted-foreground">{game.description}</p>}
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <span className="flex items-center">
                       <Star className="mr-1 h-4 w-4 fill-yellow-500 text-yellow-500" />
@@ -134,7 +141,7 @@ export default function RagnarokMClassicPage() {
             {/* Book Assistance Form - Removed duplicate header */}
             <div className="mb-8">
               <div className="max-w-4xl mx-auto">
-                <BookingWizard />
+                <BookingWizard game={game} />
               </div>
             </div>
           </div>
@@ -27,21 +27,31 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { signOut, useSession } from "next-auth/react"
 import { LoginModal } from "@/components/login-modal"
 import { cn } from "@/lib/utils"
+import { isStaffRole, STAFF_ROLE_LABELS } from "@/lib/staff-roles"
+import { getGames } from "@/actions/games"
+import { type Game, gamePath } from "@/models/game"
 
 export function GameSidebar() {
   const [activeItem, setActiveItem] = useState("games")
-  const [activeSubItem, setActiveSubItem] = useState("ragnarok-m-classic")
+  const [activeSubItem, setActiveSubItem] = useState("")
+  const [games, setGames] = useState<Game[]>([])
   const [gamesOpen, setGamesOpen] = useState(true) // Set to true to show the games by default
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false)
   const { data: session } = useSession()
   const router = useRouter()
   const pathname = usePathname()
 
+  useEffect(() => {
+    getGames()
+      .then(setGames)
+      .catch((error) => console.error("Error loading games:", error))
+  }, [])
+
   // Set active items based on current path
   useEffect(() => {
-    if (pathname.includes("/games/ragnarok-m-classic")) {
+    if (pathname.startsWith("/games/")) {
       setActiveItem("games")
-      setActiveSubItem("ragnarok-m-classic")
+      setActiveSubItem(pathname.split("/")[2] || "")
       setGamesOpen(true)
     } else if (pathname.includes("/admin")) {
       setActiveItem("admin")
@@ -56,14 +66,6 @@ export function GameSidebar() {
     }
   }, [pathname])
 
-  const games = [
-    {
-      id: "ragnarok-m-classic",
-      label: "Ragnarok M Classic",
-      icon: "/romc-logo.png",
-    },
-  ]
-
   const otherMenuItems = [
     { id: "lucky-draw", icon: Gift, label: "Lucky Draw" },
     { id: "recent", icon: Clock, label: "Recent", href: "/recent" },
@@ -73,7 +75,7 @@ export function GameSidebar() {
   const bottomItems = [{ id: "help", icon: HelpCircle, label: "Help" }]
 
   // Add admin item if user has admin role
-  const adminItems = session?.user?.role === "admin" ? [{ id: "admin", icon: Settings, label: "Admin Console" }] : []
+  const adminItems = isStaffRole(session?.user?.role) ? [{ id: "admin", icon: Settings, label: "Admin Console" }] : []
 
   const handleSignIn = () => {
     setIsLoginModalOpen(true)
@@ -87,7 +89,7 @@ export function GameSidebar() {
   return (
     <Sidebar className="flex flex-col">
       <SidebarHeader className="flex flex-col items-center justify-center py-6 border-b border-border/40">
-        <Link href="/games/ragnarok-m-classic" className="flex items-center justify-between w-full px-4">
+        <Link href="/" className="flex items-center justify-between w-full px-4">
           <div className="flex items-center gap-3">
             <PapaPiLogo size="lg" />
             <div className="flex flex-col">
@@ -119,25 +121,25 @@ export function GameSidebar() {
             <CollapsibleContent>
               <SidebarMenuSub>
                 {games.map((game) => (
-                  <SidebarMenuSubItem key={game.id}>
+                  <SidebarMenuSubItem key={game.slug}>
                     <SidebarMenuSubButton
                       asChild
-                      isActive={activeSubItem === game.id}
-                      onClick={() => setActiveSubItem(game.id)}
+                      isActive={activeSubItem === game.slug}
+                      onClick={() => setActiveSubItem(game.slug)}
                     >
-                      <Link href={`/games/${game.id}`} className="flex items-center">
-                        {game.icon ? (
+                      <Link href={gamePath(game.slug)} className="flex items-center">
+                        {game.logo ? (
                           <div className="mr-2 h-5 w-5 relative flex-shrink-0">
                             <Image
-                              src={game.icon || "/placeholder.svg"}
-                              alt={game.label}
+                              src={game.logo || "/placeholder.svg"}
+                              alt={game.name}
                               width={20}
                               height={20}
                               className="rounded-sm object-cover"
                             />
                           </div>
                         ) : null}
-                        {game.label}
+                        {game.name}
                       </Link>
                     </SidebarMenuSubButton>
                   </SidebarMenuSubItem>
@@ -256,7 +258,7 @@ export function GameSidebar() {
               <div className="flex flex-col">
                 <span className="text-sm font-medium">{session.user?.name || "User"}</span>
                 <span className="text-xs text-muted-foreground">
-                  {session.user?.role === "admin" ? "Administrator" : "Level 42"}
+                  {isStaffRole(session.user?.role) ? STAFF_ROLE_LABELS[session.user.role] : "Level 42"}
                 </span>
               </div>
             </div>
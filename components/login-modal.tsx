@@ -1,11 +1,17 @@
 "use client"
 
-import { useState } from "react"
-import { signIn } from "next-auth/react"
+import { useState, useEffect } from "react"
+import { signIn, getProviders } from "next-auth/react"
+import { KeyRound, Mail } from "lucide-react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { PapaPiLogo } from "@/components/papa-pi-logo"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CREDENTIALS_ERRORS } from "@/models/staff-user"
 
 interface LoginModalProps {
   isOpen: boolean
@@ -17,6 +23,64 @@ export function LoginModal({ isOpen, onClose, message }: LoginModalProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Which providers are available depends on the server configuration
+  const [providers, setProviders] = useState<Record<string, unknown> | null>(null)
+  const isEmailEnabled = !!providers?.email
+  const isGoogleEnabled = !!providers?.google
+
+  // Customer magic link
+  const [email, setEmail] = useState("")
+  const [isEmailSent, setIsEmailSent] = useState(false)
+
+  // Staff credentials, the one-time code is only asked for once the password has been accepted
+  const [staffEmail, setStaffEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [otp, setOtp] = useState("")
+  const [isOtpRequired, setIsOtpRequired] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    getProviders()
+      .then((providers) => setProviders(providers))
+      .catch((error) => console.error("Error loading sign-in providers:", error))
+  }, [isOpen])
+
+  const handleStaffSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await signIn("credentials", {
+        email: staffEmail.trim(),
+        password,
+        otp: isOtpRequired ? otp : "",
+        redirect: false,
+      })
+
+      if (result?.error === CREDENTIALS_ERRORS.otpRequired) {
+        setIsOtpRequired(true)
+      } else if (result?.error === CREDENTIALS_ERRORS.invalidOtp) {
+        setError("That code is not valid. Please try again with a new code.")
+        setOtp("")
+      } else if (result?.error === CREDENTIALS_ERRORS.rateLimited) {
+        setError("Too many sign-in attempts. Please wait a little while before trying again.")
+      } else if (result?.error) {
+        setError("Invalid email or password.")
+      } else {
+        window.location.reload()
+        return
+      }
+    } catch (error) {
+      console.error("Sign in error:", error)
+      setError("Failed to sign in. Please try again.")
+    }
+
+    setIsLoading(false)
+  }
+
   const handleGoogleSignIn = async () => {
     setIsLoading(true)
     setError(null)
@@ -33,6 +97,146 @@ export function LoginModal({ isOpen, onClose, message }: LoginModalProps) {
     }
   }
 
+  const handleEmailSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await signIn("email", {
+        email: email.trim(),
+        callbackUrl: window.location.href,
+        redirect: false,
+      })
+
+      if (result?.error) {
+        setError("Failed to send the sign-in link. Please check your email address and try again.")
+      } else {
+        setIsEmailSent(true)
+      }
+    } catch (error) {
+      console.error("Email sign in error:", error)
+      setError("Failed to send the sign-in link. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const staffSignIn = (
+    <div className="flex flex-col space-y-4">
+      <form onSubmit={handleStaffSignIn} className="space-y-3">
+        {isOtpRequired ? (
+          <div className="space-y-2">
+            <Label htmlFor="login-otp">Authenticator code</Label>
+            <div className="flex justify-center">
+              <InputOTP id="login-otp" maxLength={6} value={otp} onChange={setOtp} disabled={isLoading}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Enter the 6-digit code from your authenticator app
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="login-staff-email">Email</Label>
+              <Input
+                id="login-staff-email"
+                type="email"
+                value={staffEmail}
+                onChange={(e) => setStaffEmail(e.target.value)}
+                disabled={isLoading}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                required
+              />
+            </div>
+          </>
+        )}
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isLoading || (isOtpRequired ? otp.length !== 6 : !staffEmail.trim() || !password)}
+        >
+          <KeyRound className="mr-2 h-4 w-4" />
+          {isLoading ? "Signing in..." : isOtpRequired ? "Verify Code" : "Sign In"}
+        </Button>
+      </form>
+
+      {isGoogleEnabled && (
+        <Button
+          variant="outline"
+          onClick={handleGoogleSignIn}
+          disabled={isLoading}
+          className="w-full flex items-center justify-center gap-2"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" className="h-5 w-5">
+            <path
+              fill="#4285F4"
+              d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+            />
+            <path
+              fill="#34A853"
+              d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+            />
+            <path
+              fill="#FBBC05"
+              d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+            />
+            <path
+              fill="#EA4335"
+              d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+            />
+            <path fill="none" d="M1 1h22v22H1z" />
+          </svg>
+          Sign in with Google
+        </Button>
+      )}
+    </div>
+  )
+
+  const customerSignIn = isEmailSent ? (
+    <Alert>
+      <Mail className="h-4 w-4" />
+      <AlertDescription>
+        We sent a sign-in link to <strong>{email}</strong>. Open it to finish signing in.
+      </AlertDescription>
+    </Alert>
+  ) : (
+    <form onSubmit={handleEmailSignIn} className="space-y-2">
+      <Label htmlFor="login-email">Email address</Label>
+      <Input
+        id="login-email"
+        type="email"
+        placeholder="you@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        disabled={isLoading}
+        required
+      />
+      <Button type="submit" className="w-full" disabled={isLoading || !email.trim()}>
+        <Mail className="mr-2 h-4 w-4" />
+        {isLoading ? "Sending link..." : "Email me a sign-in link"}
+      </Button>
+    </form>
+  )
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
@@ -42,7 +246,9 @@ export function LoginModal({ isOpen, onClose, message }: LoginModalProps) {
           </div>
           <DialogTitle className="text-center text-2xl font-bold">Sign In</DialogTitle>
           <DialogDescription className="text-center">
-            Sign in with your Google account to access Papa-Pi Gaming
+            {isEmailEnabled
+              ? "Sign in to keep track of your requests on any device"
+              : "Sign in with your staff account to access Papa-Pi Gaming"}
           </DialogDescription>
         </DialogHeader>
 
@@ -58,34 +264,22 @@ export function LoginModal({ isOpen, onClose, message }: LoginModalProps) {
           </Alert>
         )}
 
-        <div className="flex flex-col space-y-4">
-          <Button
-            onClick={handleGoogleSignIn}
-            disabled={isLoading}
-            className="w-full flex items-center justify-center gap-2"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" className="h-5 w-5">
-              <path
-                fill="#4285F4"
-                d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-              />
-              <path
-                fill="#34A853"
-                d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-              />
-              <path
-                fill="#FBBC05"
-                d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-              />
-              <path
-                fill="#EA4335"
-                d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-              />
-              <path fill="none" d="M1 1h22v22H1z" />
-            </svg>
-            {isLoading ? "Signing in..." : "Sign in with Google"}
-          </Button>
-        </div>
+        {isEmailEnabled ? (
+          <Tabs defaultValue="customer">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="customer">Customer</TabsTrigger>
+              <TabsTrigger value="staff">Staff</TabsTrigger>
+            </TabsList>
+            <TabsContent value="customer" className="pt-2">
+              {customerSignIn}
+            </TabsContent>
+            <TabsContent value="staff" className="pt-2">
+              {staffSignIn}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          staffSignIn
+        )}
       </DialogContent>
     </Dialog>
   )
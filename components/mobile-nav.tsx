@@ -14,6 +14,7 @@ import { LoginModal } from "@/components/login-modal"
 import { Sheet, SheetContent, SheetTrigger, SheetClose } from "@/components/ui/sheet"
 import { motion, AnimatePresence } from "framer-motion"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export function MobileNav() {
   const pathname = usePathname()
@@ -24,7 +25,7 @@ export function MobileNav() {
   const [activeItem, setActiveItem] = useState<string>("games")
 
   const navItems = [
-    { id: "games", icon: Gamepad2, href: "/games/ragnarok-m-classic", label: "Games" },
+    { id: "games", icon: Gamepad2, href: "/", label: "Games" },
     { id: "lucky-draw", icon: Gift, href: "#", label: "Lucky Draw" },
     { id: "recent", icon: Clock, href: "/recent", label: "Recent" },
   ]
@@ -50,7 +51,7 @@ export function MobileNav() {
       >
         <div className="flex items-center">
           <SidebarTrigger className="mr-2 md:hidden hover:bg-muted/80 transition-colors" />
-          <Link href="/games/ragnarok-m-classic" className="flex items-center gap-2 group">
+          <Link href="/" className="flex items-center gap-2 group">
             <motion.div whileHover={{ scale: 1.05 }} transition={{ type: "spring", stiffness: 400, damping: 10 }}>
               <PapaPiLogo size="md" />
             </motion.div>
@@ -175,7 +176,7 @@ export function MobileNav() {
                   </div>
                   <div className="flex-1 border-t">
                     <nav className="flex flex-col gap-1 py-4">
-                      {session?.user?.role === "admin" && (
+                      {isStaffRole(session?.user?.role) && (
                         <SheetClose asChild>
                           <Link
                             href="/admin"
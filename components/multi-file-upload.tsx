@@ -10,18 +10,38 @@ import { Upload, X, ImageIcon, AlertCircle, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
+import { RateLimitNotice } from "@/components/rate-limit-notice"
+import {
+  MAX_FILE_SIZE,
+  UPLOAD_ERROR_MESSAGES,
+  type UploadErrorCode,
+  type UploadFolder,
+  compressImage,
+} from "@/lib/upload-utils"
 
 interface MultiFileUploadProps {
   maxFiles?: number
-  maxSizeMB?: number
+  maxSizeMB?: number // Largest image accepted before it is compressed to MAX_FILE_SIZE for upload
+  folder?: UploadFolder
   onChange?: (urls: string[]) => void
   value?: string[]
   className?: string
 }
 
+// Error thrown when the upload route rejects a file, carrying its machine-readable code
+class UploadError extends Error {
+  constructor(
+    public code: UploadErrorCode,
+    public retryAfter?: number,
+  ) {
+    super(UPLOAD_ERROR_MESSAGES[code])
+  }
+}
+
 export function MultiFileUpload({
   maxFiles = 2,
   maxSizeMB = 2,
+  folder = "booking-photos",
   onChange,
   value = [],
   className,
@@ -32,6 +52,7 @@ export function MultiFileUpload({
   const [previews, setPreviews] = useState<string[]>(initialValue)
   const [isDragging, setIsDragging] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<Date | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -54,20 +75,28 @@ export function MultiFileUpload({
   }
 
   const uploadFile = async (file: File): Promise<string> => {
+    // The upload route only accepts files up to MAX_FILE_SIZE
+    const fileToUpload = await compressImage(file, MAX_FILE_SIZE)
+    if (fileToUpload.size > MAX_FILE_SIZE) {
+      throw new UploadError("file_too_large")
+    }
+
     const formData = new FormData()
-    formData.append("file", file)
-    formData.append("folder", "assistance-photos")
+    formData.append("file", fileToUpload)
+    formData.append("folder", folder)
 
     const response = await fetch("/api/upload", {
       method: "POST",
       body: formData,
     })
 
+    const data = await response.json().catch(() => ({}))
+
     if (!response.ok) {
-      throw new Error("Failed to upload file")
+      const code: UploadErrorCode = data.code in UPLOAD_ERROR_MESSAGES ? data.code : "upload_failed"
+      throw new UploadError(code, data.retryAfter)
     }
 
-    const data = await response.json()
     return data.url
   }
 
@@ -90,6 +119,7 @@ export function MultiFileUpload({
     }
 
     setError(null)
+    setRateLimitedUntil(null)
     setIsUploading(true)
     setUploadProgress(0)
 
@@ -123,7 +153,11 @@ export function MultiFileUpload({
       onChange?.(updatedUrls)
     } catch (error) {
       console.error("Error uploading files:", error)
-      setError("Failed to upload one or more files")
+      if (error instanceof UploadError && error.code === "rate_limited") {
+        setRateLimitedUntil(new Date(Date.now() + (error.retryAfter || 60) * 1000))
+      } else {
+        setError(error instanceof UploadError ? error.message : "Failed to upload one or more files")
+      }
     } finally {
       setIsUploading(false)
     }
@@ -185,6 +219,8 @@ export function MultiFileUpload({
         </Alert>
       )}
 
+      {rateLimitedUntil && <RateLimitNotice retryAt={rateLimitedUntil} />}
+
       {isUploading && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -0,0 +1,23 @@
+import { Clock } from "lucide-react"
+import { formatDistanceToNowStrict } from "date-fns"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { cn } from "@/lib/utils"
+
+interface RateLimitNoticeProps {
+  retryAt: Date // When the caller's budget resets
+  className?: string
+}
+
+// Shown when an action or the upload route reports that the caller has made too many requests
+export function RateLimitNotice({ retryAt, className }: RateLimitNoticeProps) {
+  return (
+    <Alert className={cn("border-yellow-500/30 bg-yellow-500/10", className)}>
+      <Clock className="h-4 w-4 text-yellow-500" />
+      <AlertTitle>Too many requests</AlertTitle>
+      <AlertDescription>
+        You have sent a lot of requests in a short time. Please try again in{" "}
+        {formatDistanceToNowStrict(retryAt, { roundingMethod: "ceil" })}.
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -92,11 +92,12 @@ type FormValues = z.infer<typeof formSchema>
 
 interface RequestEditFormProps {
   booking: Booking
+  editToken: string | null // Not needed when the customer is signed in to the owning account
   onCancel: () => void
   onSuccess: (updatedBooking: Booking) => void
 }
 
-export function RequestEditForm({ booking, onCancel, onSuccess }: RequestEditFormProps) {
+export function RequestEditForm({ booking, editToken, onCancel, onSuccess }: RequestEditFormProps) {
   const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -186,18 +187,23 @@ export function RequestEditForm({ booking, onCancel, onSuccess }: RequestEditFor
     setMessage(null)
 
     try {
-      const result = await updateBooking(booking._id.toString(), {
-        characterId: values.characterId,
-        contactInfo: values.contactInfo,
-        assistanceTypeId: values.assistanceTypeId,
-        additionalInfo: values.additionalInfo,
-        selectedDays: values.selectedDays,
-        timeRangePreset: values.timeRangePreset,
-        startTime: values.startTime,
-        endTime: values.endTime,
-        slots: values.slots,
-        willingToDonate: values.willingToDonate,
-      })
+      const result = await updateBooking(
+        booking._id.toString(),
+        editToken,
+        {
+          characterId: values.characterId,
+          contactInfo: values.contactInfo,
+          assistanceTypeId: values.assistanceTypeId,
+          additionalInfo: values.additionalInfo,
+          selectedDays: values.selectedDays,
+          timeRangePreset: values.timeRangePreset,
+          startTime: values.startTime,
+          endTime: values.endTime,
+          slots: values.slots,
+          willingToDonate: values.willingToDonate,
+        },
+        booking.version,
+      )
 
       if (result.success && result.booking) {
         setMessage({ type: "success", text: result.message })
@@ -35,8 +35,24 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { MultiFileUpload } from "@/components/multi-file-upload"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useMediaQuery } from "@/hooks/use-media-query"
+import {
+  SERVER_TIME_ZONE,
+  convertSchedule,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  getViewerTimeZone,
+} from "@/lib/schedule-time-zone"
+import type { ScheduleWindow } from "@/lib/booking-capacity"
 import { motion, AnimatePresence } from "framer-motion"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 
 // Form schema
 const formSchema = z.object({
@@ -76,20 +92,20 @@ const DAYS_OF_WEEK = [
   { id: "sunday", label: "Sunday" },
 ]
 
-// Predefined time ranges
+// Predefined time ranges in server time, shown to the customer in their own zone
 const TIME_RANGES = {
   early: {
-    label: "Early (5:00 - 10:00)",
+    label: "Early",
     startTime: "05:00",
     endTime: "10:00",
   },
   middle: {
-    label: "Midday (10:00 - 14:00)",
+    label: "Midday",
     startTime: "10:00",
     endTime: "14:00",
   },
   late: {
-    label: "Late (14:00 - 19:00)",
+    label: "Late",
     startTime: "14:00",
     endTime: "19:00",
   },
@@ -114,13 +130,60 @@ const generateTimeOptions = () => {
   return options
 }
 
+// Fields the wizard saves, compared field by field when the booking was changed somewhere else
+type EditableField =
+  | "additionalInfo"
+  | "selectedDays"
+  | "timeRangePreset"
+  | "startTime"
+  | "endTime"
+  | "slots"
+  | "willingToDonate"
+  | "photoUrls"
+
+const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  additionalInfo: "Additional Information",
+  selectedDays: "Days",
+  timeRangePreset: "Time Range",
+  startTime: "Start Time",
+  endTime: "End Time",
+  slots: "Slots",
+  willingToDonate: "Willing to Donate",
+  photoUrls: "Photos",
+}
+
+type EditableValues = Pick<FormValues, EditableField>
+
+// A booking's editable values, with its schedule moved from server time to the customer's zone
+function getEditableValues(booking: Booking, timeZone: string): EditableValues {
+  const timeRangePreset = booking.timeRangePreset || "early"
+  const { startTime, endTime } = booking
+  const schedule = convertSchedule(
+    getServerSchedule({ selectedDays: booking.selectedDays || [], timeRangePreset, startTime, endTime }),
+    SERVER_TIME_ZONE,
+    timeZone,
+  )
+
+  return {
+    additionalInfo: booking.additionalInfo || "",
+    selectedDays: schedule.selectedDays,
+    timeRangePreset,
+    startTime: schedule.startTime,
+    endTime: schedule.endTime,
+    slots: booking.slots || 1,
+    willingToDonate: booking.willingToDonate || "no",
+    photoUrls: booking.photoUrls || [],
+  }
+}
+
 interface RequestEditWizardProps {
   booking: Booking
+  editToken: string | null // Not needed when the customer is signed in to the owning account
   onCancel: () => void
   onSuccess: (updatedBooking: Booking) => void
 }
 
-export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditWizardProps) {
+export function RequestEditWizard({ booking, editToken, onCancel, onSuccess }: RequestEditWizardProps) {
   const router = useRouter()
   const [assistanceTypes, setAssistanceTypes] = useState<AssistanceType[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -136,6 +199,11 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
   const [selectedAssistanceType, setSelectedAssistanceType] = useState<AssistanceType | null>(null)
   const [autoSaveStatus, setAutoSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle")
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
+  const [conflictBooking, setConflictBooking] = useState<Booking | null>(null)
+  const [conflictChoices, setConflictChoices] = useState<Partial<Record<EditableField, "mine" | "theirs">>>({})
+  const [timeZone, setTimeZone] = useState(SERVER_TIME_ZONE)
+  // The version the form is based on, sent with every save so changes made elsewhere are never overwritten
+  const versionRef = useRef(booking.version)
   const isMobile = useMediaQuery("(max-width: 640px)")
   const isTablet = useMediaQuery("(max-width: 1024px)")
 
@@ -183,6 +251,16 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
     loadAssistanceTypes()
   }, [booking.assistanceTypeId])
 
+  // The browser's zone is only known after mounting, the schedule is shown in it from then on
+  useEffect(() => {
+    setTimeZone(getViewerTimeZone())
+  }, [])
+
+  useEffect(() => {
+    const { selectedDays, timeRangePreset, startTime, endTime } = getEditableValues(booking, timeZone)
+    applyValues({ ...getLocalValues(), selectedDays, timeRangePreset, startTime, endTime })
+  }, [timeZone])
+
   // Auto-save functionality with debounce
   useEffect(() => {
     const autoSaveTimer = setTimeout(() => {
@@ -215,7 +293,7 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
     form.setValue("timeRangePreset", value)
 
     if (value !== "custom") {
-      const range = TIME_RANGES[value]
+      const range = getLocalTimeRange(value)
       form.setValue("startTime", range.startTime)
       form.setValue("endTime", range.endTime)
     }
@@ -231,6 +309,18 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
     return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`
   }
 
+  // A preset's times in the customer's zone
+  const getLocalTimeRange = (preset: ScheduleWindow) =>
+    convertSchedule(getServerSchedule({ selectedDays: [], timeRangePreset: preset }), SERVER_TIME_ZONE, timeZone)
+
+  // A preset's name with its times in the customer's zone
+  const getTimeRangeLabel = (preset: "early" | "middle" | "late" | "custom"): string => {
+    if (preset === "custom") return TIME_RANGES.custom.label
+
+    const { startTime = "", endTime = "" } = getLocalTimeRange(preset)
+    return `${TIME_RANGES[preset].label} (${formatTime(startTime)} - ${formatTime(endTime)})`
+  }
+
   // Handle select all days
   const handleSelectAllDays = (checked: boolean, e?: React.MouseEvent | React.ChangeEvent) => {
     // Prevent event propagation
@@ -345,28 +435,25 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
     setMessage(null)
 
     try {
-      // Get current form values
-      const values = form.getValues()
-
-      // Prepare update data
+      // Prepare update data, the schedule is sent in the customer's zone and converted by the server
       const updateData: Partial<Booking> = {
         // Use specific changes if provided, otherwise use all form values
-        ...(specificChanges || {
-          additionalInfo: additionalInfoRef.current?.value || values.additionalInfo,
-          selectedDays: values.selectedDays,
-          timeRangePreset: values.timeRangePreset,
-          startTime: values.startTime,
-          endTime: values.endTime,
-          slots: values.slots,
-          willingToDonate: values.willingToDonate,
-          photoUrls: photoUrls,
-        }),
+        ...(specificChanges || getLocalValues()),
+        timeZone,
       }
 
       // Update booking
-      const result = await updateBooking(booking._id.toString(), updateData)
+      const result = await updateBooking(booking._id.toString(), editToken, updateData, versionRef.current)
+
+      if (result.code === "conflict" && result.booking) {
+        // Stop autosaving and let the customer decide what to keep
+        openConflictPrompt(result.booking)
+        if (isAutoSave) setAutoSaveStatus("idle")
+        return
+      }
 
       if (result.success && result.booking) {
+        versionRef.current = result.booking.version
         setLastSaved(new Date())
 
         if (isAutoSave) {
@@ -409,6 +496,97 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
     }
   }
 
+  // The values the wizard would save right now
+  const getLocalValues = (): EditableValues => {
+    const values = form.getValues()
+    return {
+      additionalInfo: additionalInfoRef.current?.value || values.additionalInfo,
+      selectedDays: values.selectedDays,
+      timeRangePreset: values.timeRangePreset,
+      startTime: values.startTime,
+      endTime: values.endTime,
+      slots: values.slots,
+      willingToDonate: values.willingToDonate,
+      photoUrls: photoUrls,
+    }
+  }
+
+  // Fields where the local edits and the server copy disagree
+  const getConflictingFields = (serverBooking: Booking): EditableField[] => {
+    const local = getLocalValues()
+    const server = getEditableValues(serverBooking, timeZone)
+    return (Object.keys(EDITABLE_FIELD_LABELS) as EditableField[]).filter(
+      (field) => JSON.stringify(local[field] ?? null) !== JSON.stringify(server[field] ?? null),
+    )
+  }
+
+  const openConflictPrompt = (serverBooking: Booking) => {
+    setConflictChoices(Object.fromEntries(getConflictingFields(serverBooking).map((field) => [field, "mine"])))
+    setConflictBooking(serverBooking)
+  }
+
+  // Puts values into the form, including the fields kept outside react-hook-form
+  const applyValues = (values: EditableValues) => {
+    form.reset({ ...form.getValues(), ...values })
+    setPhotoUrls(values.photoUrls || [])
+    setSelectedTimeRange(values.timeRangePreset)
+    setSelectAllDays(values.selectedDays.length === DAYS_OF_WEEK.length)
+    if (additionalInfoRef.current) {
+      additionalInfoRef.current.value = values.additionalInfo
+    }
+  }
+
+  // Drop the local edits and continue from the server copy
+  const handleReloadFromServer = () => {
+    if (!conflictBooking) return
+
+    applyValues(getEditableValues(conflictBooking, timeZone))
+    versionRef.current = conflictBooking.version
+    onSuccess(conflictBooking)
+    setConflictBooking(null)
+  }
+
+  // Keep the chosen local fields on top of the server copy and save the result against the server's version
+  const handleSaveMerged = async () => {
+    if (!conflictBooking) return
+
+    const local = getLocalValues()
+    const merged = getEditableValues(conflictBooking, timeZone)
+    for (const [field, choice] of Object.entries(conflictChoices) as [EditableField, "mine" | "theirs"][]) {
+      if (choice === "mine") {
+        Object.assign(merged, { [field]: local[field] })
+      }
+    }
+
+    applyValues(merged)
+    versionRef.current = conflictBooking.version
+    setConflictBooking(null)
+    await handleSaveChanges(merged)
+  }
+
+  // Readable value for the conflict prompt
+  const formatFieldValue = (field: EditableField, values: EditableValues): string => {
+    switch (field) {
+      case "selectedDays":
+        return (
+          values.selectedDays
+            .map((day) => DAYS_OF_WEEK.find((option) => option.id === day)?.label || day)
+            .join(", ") || "None"
+        )
+      case "timeRangePreset":
+        return getTimeRangeLabel(values.timeRangePreset)
+      case "startTime":
+      case "endTime":
+        return values[field] ? formatTime(values[field] as string) : "Not set"
+      case "willingToDonate":
+        return values.willingToDonate === "yes" ? "Yes" : "No"
+      case "photoUrls":
+        return `${values.photoUrls?.length || 0} photo(s)`
+      default:
+        return String(values[field] || "Not set")
+    }
+  }
+
   // Format last saved time
   const formatLastSaved = () => {
     if (!lastSaved) return null
@@ -811,7 +989,10 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
                               ))}
                             </div>
                           </FormControl>
-                          <FormDescription>Select at least one day you're available for assistance</FormDescription>
+                          <FormDescription>
+                            Select at least one day you're available for assistance. Days and times are in your time
+                            zone, {timeZone} ({formatTimeZoneOffset(timeZone)}).
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -825,7 +1006,7 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
                           <FormLabel className="text-base font-medium">Time of The Day</FormLabel>
                           <FormControl>
                             <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-                              {Object.entries(TIME_RANGES).map(([key, range]) => (
+                              {Object.keys(TIME_RANGES).map((key) => (
                                 <motion.label
                                   key={key}
                                   whileHover={{ scale: 1.02 }}
@@ -849,7 +1030,9 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
                                     }}
                                     onClick={(e) => e.stopPropagation()}
                                   />
-                                  <span onClick={(e) => e.stopPropagation()}>{range.label}</span>
+                                  <span onClick={(e) => e.stopPropagation()}>
+                                    {getTimeRangeLabel(key as keyof typeof TIME_RANGES)}
+                                  </span>
                                 </motion.label>
                               ))}
                             </div>
@@ -1113,6 +1296,59 @@ export function RequestEditWizard({ booking, onCancel, onSuccess }: RequestEditW
           )}
         </div>
       </CardFooter>
+
+      {/* Conflict Dialog */}
+      <Dialog open={!!conflictBooking} onOpenChange={(open) => !open && setConflictBooking(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>This request was changed elsewhere</DialogTitle>
+            <DialogDescription>
+              Someone updated this request while you were editing it, for example in another tab. Choose which
+              version of each field to keep, or reload the latest version and discard your changes.
+            </DialogDescription>
+          </DialogHeader>
+          {conflictBooking && (
+            <div className="space-y-3 py-2 max-h-[50vh] overflow-y-auto">
+              {Object.keys(conflictChoices).length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Your changes match the latest version, saving will only bring the form up to date.
+                </p>
+              ) : (
+                (Object.keys(conflictChoices) as EditableField[]).map((field) => (
+                  <div key={field} className="rounded-md border p-3 space-y-2">
+                    <p className="text-sm font-medium">{EDITABLE_FIELD_LABELS[field]}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(["mine", "theirs"] as const).map((choice) => (
+                        <Button
+                          key={choice}
+                          type="button"
+                          variant={conflictChoices[field] === choice ? "default" : "outline"}
+                          className="h-auto flex-col items-start whitespace-normal text-left"
+                          onClick={() => setConflictChoices((prev) => ({ ...prev, [field]: choice }))}
+                        >
+                          <span className="text-xs opacity-80">{choice === "mine" ? "Your version" : "Latest"}</span>
+                          <span className="text-sm break-words">
+                            {formatFieldValue(
+                              field,
+                              choice === "mine" ? getLocalValues() : getEditableValues(conflictBooking, timeZone),
+                            )}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={handleReloadFromServer}>
+              Reload Latest
+            </Button>
+            <Button onClick={handleSaveMerged}>Save Merged</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   )
 }
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { getServerSession } from "next-auth"
+import { requireAdmin } from "@/lib/admin-guard"
+import { STAFF_ROLES } from "@/lib/staff-roles"
+import type { StaffRole } from "@/models/staff-user"
+
+vi.mock("next-auth", () => ({ getServerSession: vi.fn() }))
+vi.mock("@/lib/auth-options", () => ({ authOptions: {} }))
+
+const signInAs = (role?: StaffRole) =>
+  vi.mocked(getServerSession).mockResolvedValue({
+    user: { email: "staff@example.com", ...(role ? { role } : {}) },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  })
+
+describe("requireAdmin", () => {
+  beforeEach(() => {
+    vi.mocked(getServerSession).mockReset()
+  })
+
+  it("rejects anonymous callers", async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+
+    const check = await requireAdmin()
+
+    expect(check.authorized).toBe(false)
+    expect(!check.authorized && check.result.code).toBe("forbidden")
+  })
+
+  it("rejects signed-in users without a staff role", async () => {
+    signInAs()
+
+    expect((await requireAdmin()).authorized).toBe(false)
+    expect((await requireAdmin(STAFF_ROLES)).authorized).toBe(false)
+  })
+
+  it("rejects read-only viewers for changes by default", async () => {
+    signInAs("viewer")
+
+    expect((await requireAdmin()).authorized).toBe(false)
+  })
+
+  it("allows viewers where staff roles are accepted", async () => {
+    signInAs("viewer")
+
+    expect((await requireAdmin(STAFF_ROLES)).authorized).toBe(true)
+  })
+
+  it("allows owners and agents to make changes", async () => {
+    for (const role of ["owner", "agent"] as const) {
+      signInAs(role)
+      const check = await requireAdmin()
+
+      expect(check.authorized).toBe(true)
+      expect(check.authorized && check.session.user.role).toBe(role)
+    }
+  })
+
+  it("rejects agents for owner-only actions", async () => {
+    signInAs("agent")
+
+    expect((await requireAdmin(["owner"])).authorized).toBe(false)
+  })
+
+  it("rejects the caller when the session can't be read", async () => {
+    vi.mocked(getServerSession).mockRejectedValue(new Error("Invalid token"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    expect((await requireAdmin()).authorized).toBe(false)
+  })
+})
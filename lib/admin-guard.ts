@@ -0,0 +1,41 @@
+import { getServerSession, type Session } from "next-auth"
+import { authOptions } from "@/lib/auth-options"
+import { EDITOR_ROLES } from "@/lib/staff-roles"
+import type { StaffRole } from "@/models/staff-user"
+
+// Returned by admin actions when the caller is not signed in as an admin
+export interface ForbiddenResult {
+  success: false
+  message: string
+  code: "forbidden"
+}
+
+export type AdminCheck = { authorized: true; session: Session } | { authorized: false; result: ForbiddenResult }
+
+/**
+ * Verifies that the current request comes from a signed-in staff member with one of the given roles.
+ * Server actions are plain POST endpoints, so the /admin middleware does not protect them.
+ * @param roles Roles allowed to perform the action, defaults to roles that can make changes
+ * @returns The admin session, or a forbidden result to hand back to the caller
+ */
+export async function requireAdmin(roles: StaffRole[] = EDITOR_ROLES): Promise<AdminCheck> {
+  try {
+    const session = await getServerSession(authOptions)
+    const role = session?.user?.role
+
+    if (session && role && roles.includes(role)) {
+      return { authorized: true, session }
+    }
+  } catch (error) {
+    console.error("Error reading admin session:", error)
+  }
+
+  return {
+    authorized: false,
+    result: {
+      success: false,
+      message: "You do not have permission to perform this action",
+      code: "forbidden",
+    },
+  }
+}
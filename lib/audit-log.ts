@@ -0,0 +1,52 @@
+import type { Session } from "next-auth"
+import clientPromise from "@/lib/mongodb"
+import { type AuditEntity, type AuditLogEntry, AUDIT_LOG_COLLECTION } from "@/models/audit-log"
+
+// Secrets that must never be copied into the audit log
+const REDACTED_FIELDS = ["editTokenHash", "passwordHash", "totpSecret", "pendingTotpSecret", "calendarFeedTokenHash"]
+
+export interface AuditChange {
+  action: string
+  entity: AuditEntity
+  targetId: string
+  before?: object | null
+  after?: object | null
+}
+
+function toSnapshot(document: object | null | undefined): Record<string, unknown> | null {
+  if (!document) return null
+
+  // Round trip through JSON so ObjectIds and dates are stored as plain values
+  const snapshot = JSON.parse(JSON.stringify(document))
+  for (const field of REDACTED_FIELDS) {
+    delete snapshot[field]
+  }
+  return snapshot
+}
+
+/**
+ * Records one or more admin changes in the audit log.
+ * Failures are logged but never fail the admin action itself.
+ * @param session The admin session returned by requireAdmin
+ * @param changes The changes to record, with before/after snapshots of the target
+ */
+export async function recordAudit(session: Session, changes: AuditChange | AuditChange[]): Promise<void> {
+  const entries: AuditLogEntry[] = (Array.isArray(changes) ? changes : [changes]).map((change) => ({
+    actorEmail: session.user.email || "unknown",
+    action: change.action,
+    entity: change.entity,
+    targetId: change.targetId,
+    before: toSnapshot(change.before),
+    after: toSnapshot(change.after),
+    createdAt: new Date(),
+  }))
+
+  if (entries.length === 0) return
+
+  try {
+    const client = await clientPromise
+    await client.db().collection<AuditLogEntry>(AUDIT_LOG_COLLECTION).insertMany(entries)
+  } catch (error) {
+    console.error("Error writing audit log:", error)
+  }
+}
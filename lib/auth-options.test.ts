@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { CredentialsConfig } from "next-auth/providers/credentials"
+import { authOptions } from "@/lib/auth-options"
+import { checkRateLimit, isRateLimited, recordFailedAttempt } from "@/lib/rate-limit"
+import { findStaffUserByEmail, verifyStaffCredentials } from "@/lib/staff-users"
+import { type StaffUser, CREDENTIALS_ERRORS } from "@/models/staff-user"
+
+vi.mock("@/lib/mongodb", () => ({ default: new Promise(() => {}) }))
+vi.mock("@/lib/customer-adapter", () => ({ customerAdapter: vi.fn() }))
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn(),
+  isRateLimited: vi.fn(),
+  recordFailedAttempt: vi.fn(),
+}))
+vi.mock("@/lib/staff-users", () => ({
+  findStaffUserByEmail: vi.fn(),
+  getStaffRole: vi.fn(),
+  recordStaffSignIn: vi.fn(),
+  verifyStaffCredentials: vi.fn(),
+}))
+
+const STAFF_USER = { id: "staff-1", email: "owner@example.com" }
+
+const { authorize } = (authOptions.providers[0] as unknown as { options: CredentialsConfig }).options
+const signIn = (credentials: Record<string, string>) =>
+  authorize({ email: STAFF_USER.email, password: "correct horse", ...credentials }, {})
+
+describe("staff sign-in limits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true })
+    vi.mocked(isRateLimited).mockResolvedValue(false)
+    vi.mocked(findStaffUserByEmail).mockResolvedValue(null)
+    vi.mocked(verifyStaffCredentials).mockResolvedValue(STAFF_USER)
+  })
+
+  it("counts every attempt against the IP only", async () => {
+    expect(await signIn({})).toEqual(STAFF_USER)
+
+    expect(checkRateLimit).toHaveBeenCalledWith("staffSignIn")
+    expect(recordFailedAttempt).not.toHaveBeenCalled()
+  })
+
+  it("refuses every attempt once the IP is over its limit", async () => {
+    vi.mocked(checkRateLimit).mockResolvedValue({
+      allowed: false,
+      result: { success: false, message: "Too many requests", code: "rate_limited", retryAfter: 60 },
+    })
+
+    await expect(signIn({})).rejects.toThrow(CREDENTIALS_ERRORS.rateLimited)
+    expect(verifyStaffCredentials).not.toHaveBeenCalled()
+  })
+
+  it("counts wrong passwords and codes against the account", async () => {
+    vi.mocked(verifyStaffCredentials).mockRejectedValueOnce(new Error(CREDENTIALS_ERRORS.invalid))
+    await expect(signIn({ password: "wrong" })).rejects.toThrow(CREDENTIALS_ERRORS.invalid)
+
+    vi.mocked(verifyStaffCredentials).mockRejectedValueOnce(new Error(CREDENTIALS_ERRORS.invalidOtp))
+    await expect(signIn({ otp: "000000" })).rejects.toThrow(CREDENTIALS_ERRORS.invalidOtp)
+
+    expect(recordFailedAttempt).toHaveBeenCalledTimes(2)
+    expect(recordFailedAttempt).toHaveBeenCalledWith("staffSignIn", STAFF_USER.email)
+  })
+
+  it("doesn't count being asked for a one-time code", async () => {
+    vi.mocked(verifyStaffCredentials).mockRejectedValueOnce(new Error(CREDENTIALS_ERRORS.otpRequired))
+
+    await expect(signIn({})).rejects.toThrow(CREDENTIALS_ERRORS.otpRequired)
+    expect(recordFailedAttempt).not.toHaveBeenCalled()
+  })
+
+  it("locks an account without a one-time code once it is over its limit", async () => {
+    vi.mocked(isRateLimited).mockResolvedValue(true)
+    vi.mocked(findStaffUserByEmail).mockResolvedValue({ email: STAFF_USER.email } as StaffUser)
+
+    await expect(signIn({})).rejects.toThrow(CREDENTIALS_ERRORS.rateLimited)
+    expect(verifyStaffCredentials).not.toHaveBeenCalled()
+  })
+
+  it("still lets the password and a one-time code in once the account is over its limit", async () => {
+    vi.mocked(isRateLimited).mockResolvedValue(true)
+    vi.mocked(findStaffUserByEmail).mockResolvedValue({ email: STAFF_USER.email, totpSecret: "SECRET" } as StaffUser)
+
+    expect(await signIn({ otp: "123456" })).toEqual(STAFF_USER)
+    expect(verifyStaffCredentials).toHaveBeenCalledWith(STAFF_USER.email, "correct horse", "123456")
+  })
+})
@@ -1,42 +1,105 @@
 import type { NextAuthOptions } from "next-auth"
+import CredentialsProvider from "next-auth/providers/credentials"
+import EmailProvider from "next-auth/providers/email"
 import GoogleProvider from "next-auth/providers/google"
+import { customerAdapter } from "@/lib/customer-adapter"
+import { checkRateLimit, isRateLimited, recordFailedAttempt } from "@/lib/rate-limit"
+import { findStaffUserByEmail, getStaffRole, recordStaffSignIn, verifyStaffCredentials } from "@/lib/staff-users"
+import { CREDENTIALS_ERRORS } from "@/models/staff-user"
 
-// List of admin email addresses that are allowed to access the admin panel
-const ADMIN_EMAILS = [
-  "admin@papapi-gaming.com", // Original admin email
-  "vince.soliza@casualkiosk.com.au", // Added new admin email
-]
+// Wrong passwords and codes count against the account, a missing code just means the form has to ask for one
+const FAILED_SIGN_IN_ERRORS: string[] = [CREDENTIALS_ERRORS.invalid, CREDENTIALS_ERRORS.invalidOtp]
 
 export const authOptions: NextAuthOptions = {
+  adapter: customerAdapter(),
   providers: [
-    GoogleProvider({
-      clientId: process.env.GOOGLE_CLIENT_ID || "",
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET || "",
+    // Staff sign in with the password stored in the staffUsers collection, which works without network access
+    CredentialsProvider({
+      name: "Staff account",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" },
+        otp: { label: "One-time code", type: "text" },
+      },
+      // Every attempt counts against the caller's IP, only failed ones against the account so others can't use up
+      // its budget. Once they have, the account only accepts a password together with a one-time code.
+      async authorize(credentials) {
+        const rateLimit = await checkRateLimit("staffSignIn")
+        if (!rateLimit.allowed) {
+          throw new Error(CREDENTIALS_ERRORS.rateLimited)
+        }
+
+        const email = credentials?.email
+        if (email && (await isRateLimited("staffSignIn", email)) && !(await findStaffUserByEmail(email))?.totpSecret) {
+          throw new Error(CREDENTIALS_ERRORS.rateLimited)
+        }
+
+        try {
+          return await verifyStaffCredentials(email, credentials?.password, credentials?.otp)
+        } catch (error) {
+          if (error instanceof Error && FAILED_SIGN_IN_ERRORS.includes(error.message)) {
+            await recordFailedAttempt("staffSignIn", email)
+          }
+          throw error
+        }
+      },
     }),
+    // Google sign-in for staff, only offered when OAuth credentials are configured
+    ...(process.env.GOOGLE_CLIENT_ID
+      ? [
+          GoogleProvider({
+            clientId: process.env.GOOGLE_CLIENT_ID,
+            clientSecret: process.env.GOOGLE_CLIENT_SECRET || "",
+          }),
+        ]
+      : []),
+    // Magic-link sign-in for customers, only offered when an SMTP server is configured
+    ...(process.env.EMAIL_SERVER
+      ? [
+          EmailProvider({
+            server: process.env.EMAIL_SERVER,
+            from: process.env.EMAIL_FROM || "Papa-Pi Gaming <no-reply@papapi.gg>",
+          }),
+        ]
+      : []),
   ],
-  pages: {
-    signIn: "/admin/login",
-    error: "/admin/login",
+  // The adapter would otherwise switch NextAuth to database sessions
+  session: {
+    strategy: "jwt",
   },
   callbacks: {
-    // Add admin role to the session if the user's email is in the ADMIN_EMAILS list
+    // Expose the account id and staff role on the session
     async session({ session, token }) {
       if (session?.user) {
-        session.user.role = token.role as string
+        session.user.id = token.sub
+        session.user.role = token.role
       }
       return session
     },
-    // Add role to the token
-    async jwt({ token }) {
-      if (token?.email && ADMIN_EMAILS.includes(token.email)) {
-        token.role = "admin"
+    // Refresh the role from the staffUsers collection so role changes and removals apply without a new sign-in.
+    // Email links prove who a customer is, but never grant staff access.
+    async jwt({ token, account }) {
+      if (account) {
+        token.provider = account.provider
       }
+
+      token.role = token.email && token.provider !== "email" ? await getStaffRole(token.email) : undefined
       return token
     },
-    // Only allow sign-in if the user's email is in the ADMIN_EMAILS list
-    async signIn({ user }) {
-      return user?.email ? ADMIN_EMAILS.includes(user.email) : false
+    // Anyone can sign in with an email link; other providers are reserved for emails in the staffUsers collection
+    async signIn({ user, account }) {
+      if (account?.provider === "email") {
+        return true
+      }
+
+      if (!user?.email || !(await getStaffRole(user.email))) {
+        return false
+      }
+
+      await recordStaffSignIn(user.email, user.name)
+      return true
     },
   },
   secret: process.env.NEXTAUTH_SECRET,
+  debug: process.env.NODE_ENV === "development",
 }
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import {
+  blocksAssistanceType,
+  describeBlackoutConflicts,
+  findBlackoutConflicts,
+  findOverlappingBlackouts,
+  isBlackoutActive,
+  overlapsBlackout,
+} from "@/lib/blackouts"
+import type { Blackout } from "@/models/blackout"
+
+// Schedules are in server time (UTC+7), blackouts in UTC. 2030-01-14 is a Monday.
+const MONDAY_MORNING = { selectedDays: ["monday"], startTime: "10:00", endTime: "12:00" }
+const START_OF_WEEK = new Date("2030-01-14T00:00:00Z")
+
+const blackout = (startsAt: string, endsAt: string, changes: Partial<Blackout> = {}): Blackout => ({
+  startsAt: new Date(startsAt),
+  endsAt: new Date(endsAt),
+  reason: "Maintenance",
+  createdAt: new Date("2030-01-01T00:00:00Z"),
+  ...changes,
+})
+
+describe("overlapsBlackout", () => {
+  it("finds an occurrence inside the blackout", () => {
+    const period = blackout("2030-01-14T04:00:00Z", "2030-01-14T04:30:00Z")
+
+    expect(overlapsBlackout(MONDAY_MORNING, period, START_OF_WEEK)).toBe(true)
+  })
+
+  it("lets an occurrence touch either end of the blackout", () => {
+    const before = blackout("2030-01-14T01:00:00Z", "2030-01-14T03:00:00Z")
+    const after = blackout("2030-01-14T05:00:00Z", "2030-01-14T07:00:00Z")
+
+    expect(overlapsBlackout(MONDAY_MORNING, before, START_OF_WEEK)).toBe(false)
+    expect(overlapsBlackout(MONDAY_MORNING, after, START_OF_WEEK)).toBe(false)
+  })
+
+  it("reads the day in server time", () => {
+    // Sunday evening in UTC is early Monday on the server
+    const period = blackout("2030-01-13T22:00:00Z", "2030-01-13T23:30:00Z")
+    const from = new Date("2030-01-13T00:00:00Z")
+    const early = { startTime: "06:00", endTime: "07:00" }
+
+    expect(overlapsBlackout({ ...early, selectedDays: ["monday"] }, period, from)).toBe(true)
+    expect(overlapsBlackout({ ...early, selectedDays: ["sunday"] }, period, from)).toBe(false)
+  })
+
+  it("never overlaps for schedules without days or times", () => {
+    const period = blackout("2030-01-01T00:00:00Z", "2030-02-01T00:00:00Z")
+    const from = new Date("2030-01-01T00:00:00Z")
+
+    expect(overlapsBlackout({ selectedDays: [], startTime: "10:00", endTime: "12:00" }, period, from)).toBe(false)
+    expect(overlapsBlackout({ selectedDays: ["monday"] }, period, from)).toBe(false)
+  })
+
+  it("ignores occurrences before from", () => {
+    const period = blackout("2030-01-14T00:00:00Z", "2030-01-20T00:00:00Z")
+
+    expect(overlapsBlackout(MONDAY_MORNING, period, new Date("2030-01-14T06:00:00Z"))).toBe(false)
+    // An occurrence already under way still counts
+    expect(overlapsBlackout(MONDAY_MORNING, period, new Date("2030-01-14T04:00:00Z"))).toBe(true)
+  })
+
+  it("ignores occurrences from until on", () => {
+    const period = blackout("2030-01-14T00:00:00Z", "2030-02-14T00:00:00Z")
+    const tuesdayMorning = { ...MONDAY_MORNING, selectedDays: ["tuesday"] }
+    const from = new Date("2030-01-14T06:00:00Z")
+
+    expect(overlapsBlackout(tuesdayMorning, period, from, new Date("2030-01-15T03:00:00Z"))).toBe(false)
+    expect(overlapsBlackout(tuesdayMorning, period, from, new Date("2030-01-15T03:01:00Z"))).toBe(true)
+  })
+
+  it("never overlaps a blackout that is already over", () => {
+    const period = blackout("2030-01-07T00:00:00Z", "2030-01-14T00:00:00Z")
+
+    expect(overlapsBlackout(MONDAY_MORNING, period, START_OF_WEEK)).toBe(false)
+  })
+})
+
+describe("isBlackoutActive", () => {
+  it("includes the start and excludes the end", () => {
+    const period = blackout("2030-01-14T00:00:00Z", "2030-01-15T00:00:00Z")
+
+    expect(isBlackoutActive(period, new Date("2030-01-13T23:59:59Z"))).toBe(false)
+    expect(isBlackoutActive(period, new Date("2030-01-14T00:00:00Z"))).toBe(true)
+    expect(isBlackoutActive(period, new Date("2030-01-15T00:00:00Z"))).toBe(false)
+  })
+})
+
+describe("blackout conflicts", () => {
+  const now = new Date("2030-01-14T06:00:00Z")
+  const thisWeek = blackout("2030-01-21T03:30:00Z", "2030-01-21T04:00:00Z", { reason: "Holiday" })
+  const nextWeek = blackout("2030-01-28T03:30:00Z", "2030-01-28T04:00:00Z", { reason: "Holiday" })
+  const active = blackout("2030-01-14T00:00:00Z", "2030-01-14T12:00:00Z")
+
+  it("only refuses new bookings for blackouts in their first week", () => {
+    expect(findBlackoutConflicts(MONDAY_MORNING, [thisWeek, nextWeek, active], now)).toEqual([thisWeek])
+  })
+
+  it("refuses bookings without a schedule only during a blackout", () => {
+    expect(findBlackoutConflicts({ selectedDays: [] }, [thisWeek, nextWeek, active], now)).toEqual([active])
+  })
+
+  it("flags existing bookings for any upcoming blackout", () => {
+    expect(findOverlappingBlackouts(MONDAY_MORNING, [thisWeek, nextWeek, active], now)).toEqual([thisWeek, nextWeek])
+  })
+
+  it("lists each reason once", () => {
+    expect(describeBlackoutConflicts([thisWeek, nextWeek, active])).toContain("(Holiday, Maintenance)")
+    expect(describeBlackoutConflicts([active], false)).toBe(
+      "Bookings are paused right now (Maintenance). Please try again once it's over.",
+    )
+  })
+})
+
+describe("blocksAssistanceType", () => {
+  it("blocks its own type, or every type when it has none", () => {
+    const typeId = "64b7f0c2a1b2c3d4e5f60718"
+    const forType = (assistanceTypeId?: string) => blackout("2030-01-14", "2030-01-15", { assistanceTypeId })
+
+    expect(blocksAssistanceType(forType(), typeId)).toBe(true)
+    expect(blocksAssistanceType(forType(typeId), typeId)).toBe(true)
+    expect(blocksAssistanceType(forType("64b7f0c2a1b2c3d4e5f60719"), typeId)).toBe(false)
+  })
+})
@@ -0,0 +1,91 @@
+import { getTimeZoneOffset, SERVER_TIME_ZONE, WEEK_DAYS, type WeeklySchedule } from "@/lib/schedule-time-zone"
+import type { Blackout } from "@/models/blackout"
+
+const DAY_MS = 24 * 60 * 60000
+
+// New bookings are checked against blackouts in their first week, later ones are flagged for staff in the admin list
+export const BLACKOUT_LOOKAHEAD_DAYS = 7
+
+type BlackoutPeriod = Pick<Blackout, "startsAt" | "endsAt">
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Whether any occurrence of a weekly schedule falls in a blackout.
+ * @param schedule In server time, with its start before its end
+ * @param from Occurrences before this moment are ignored
+ * @param until Occurrences from this moment on are ignored, defaults to the end of the blackout
+ */
+export function overlapsBlackout(
+  schedule: WeeklySchedule,
+  blackout: BlackoutPeriod,
+  from: Date,
+  until?: Date,
+): boolean {
+  const start = Math.max(new Date(blackout.startsAt).getTime(), from.getTime())
+  const end = Math.min(new Date(blackout.endsAt).getTime(), until ? until.getTime() : Infinity)
+  if (start >= end || schedule.selectedDays.length === 0 || !schedule.startTime || !schedule.endTime) return false
+
+  const startMinutes = toMinutes(schedule.startTime)
+  const endMinutes = toMinutes(schedule.endTime)
+  // UTC getters on the shifted times read the server's wall clock, the server zone has no daylight saving time
+  const offset = getTimeZoneOffset(SERVER_TIME_ZONE, new Date(start)) * 60000
+
+  for (let day = Math.floor((start + offset) / DAY_MS) * DAY_MS; day - offset < end; day += DAY_MS) {
+    if (!schedule.selectedDays.includes(WEEK_DAYS[(new Date(day).getUTCDay() + 6) % 7])) continue
+
+    const occurrenceStart = day - offset + startMinutes * 60000
+    const occurrenceEnd = day - offset + endMinutes * 60000
+    if (occurrenceStart < end && occurrenceEnd > start) return true
+  }
+
+  return false
+}
+
+// Whether a blackout covers the given moment
+export function isBlackoutActive(blackout: BlackoutPeriod, at = new Date()): boolean {
+  return new Date(blackout.startsAt) <= at && at < new Date(blackout.endsAt)
+}
+
+/**
+ * The blackouts a new booking would run into in its first week, see BLACKOUT_LOOKAHEAD_DAYS.
+ * Bookings without a schedule are blocked by any blackout in effect now.
+ * @param schedule In server time
+ * @param blackouts Blackouts for the booking's assistance type
+ */
+export function findBlackoutConflicts(schedule: WeeklySchedule, blackouts: Blackout[], now = new Date()): Blackout[] {
+  if (schedule.selectedDays.length === 0) {
+    return blackouts.filter((blackout) => isBlackoutActive(blackout, now))
+  }
+
+  const until = new Date(now.getTime() + BLACKOUT_LOOKAHEAD_DAYS * DAY_MS)
+  return blackouts.filter((blackout) => overlapsBlackout(schedule, blackout, now, until))
+}
+
+// The blackouts an existing booking's upcoming occurrences fall in, for flagging it to staff
+export function findOverlappingBlackouts(
+  schedule: WeeklySchedule,
+  blackouts: Blackout[],
+  now = new Date(),
+): Blackout[] {
+  return blackouts.filter((blackout) => overlapsBlackout(schedule, blackout, now))
+}
+
+// Whether a blackout applies to an assistance type, blackouts without one apply to every type
+export function blocksAssistanceType(blackout: Blackout, assistanceTypeId: string): boolean {
+  return !blackout.assistanceTypeId || blackout.assistanceTypeId === assistanceTypeId
+}
+
+/**
+ * Explains why a booking was refused.
+ * @param hasSchedule Whether the booking has days and times the customer can change
+ */
+export function describeBlackoutConflicts(blackouts: Blackout[], hasSchedule = true): string {
+  const reasons = [...new Set(blackouts.map((blackout) => blackout.reason))].join(", ")
+  return hasSchedule
+    ? `Bookings are paused at the time you picked (${reasons}). Please choose another day or time range.`
+    : `Bookings are paused right now (${reasons}). Please try again once it's over.`
+}
@@ -1,34 +1,31 @@
-import { put, del } from "@vercel/blob"
 import { nanoid } from "nanoid"
+import { getStorage } from "@/lib/storage"
+import { type UploadFolder, UPLOAD_ERROR_MESSAGES, detectImageType } from "@/lib/upload-utils"
 
-export async function uploadImageToBlob(file: File): Promise<string> {
-  try {
-    // Generate a unique filename with the original extension
-    const fileExtension = file.name.split(".").pop()
-    const fileName = `${nanoid()}.${fileExtension}`
+export async function uploadImageToBlob(file: File, folder: UploadFolder): Promise<string> {
+  const bytes = Buffer.from(await file.arrayBuffer())
 
-    // Upload to Vercel Blob
-    const { url } = await put(`featured-toons/${fileName}`, file, {
-      access: "public",
-    })
+  // Trust the file contents, not the client supplied name or type
+  const imageType = detectImageType(bytes.subarray(0, 12))
+  if (!imageType) {
+    throw new Error(UPLOAD_ERROR_MESSAGES.unsupported_type)
+  }
+
+  try {
+    const { url } = await getStorage().put(`${folder}/${nanoid()}.${imageType.extension}`, bytes, imageType.mimeType)
 
     return url
   } catch (error) {
-    console.error("Error uploading to Vercel Blob:", error)
+    console.error("Error uploading image:", error)
     throw new Error("Failed to upload image")
   }
 }
 
 export async function deleteImageFromBlob(url: string): Promise<void> {
   try {
-    // Extract the path from the URL
-    const urlObj = new URL(url)
-    const pathname = urlObj.pathname
-
-    // Delete from Vercel Blob
-    await del(pathname)
+    await getStorage().delete(url)
   } catch (error) {
-    console.error("Error deleting from Vercel Blob:", error)
+    console.error("Error deleting image:", error)
     throw new Error("Failed to delete image")
   }
 }
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import {
+  findCapacityConflicts,
+  getCapacityLevel,
+  getScheduleUsage,
+  getScheduleWindows,
+  getSlotCapacity,
+  holdsSlots,
+  type ScheduledSlots,
+} from "@/lib/booking-capacity"
+
+const booking = (changes: Partial<ScheduledSlots> = {}): ScheduledSlots => ({
+  selectedDays: ["monday"],
+  timeRangePreset: "early",
+  slots: 1,
+  ...changes,
+})
+
+describe("getScheduleWindows", () => {
+  it("takes a preset as its own window", () => {
+    expect(getScheduleWindows({ timeRangePreset: "middle" })).toEqual(["middle"])
+  })
+
+  it("counts a custom range against every window it overlaps", () => {
+    expect(getScheduleWindows({ timeRangePreset: "custom", startTime: "09:00", endTime: "15:00" })).toEqual([
+      "early",
+      "middle",
+      "late",
+    ])
+  })
+
+  it("doesn't count a window the range only touches", () => {
+    expect(getScheduleWindows({ timeRangePreset: "custom", startTime: "10:00", endTime: "14:00" })).toEqual([
+      "middle",
+    ])
+  })
+
+  it("gives no windows for missing, inverted or out of hours ranges", () => {
+    expect(getScheduleWindows({ timeRangePreset: "custom" })).toEqual([])
+    expect(getScheduleWindows({ timeRangePreset: "custom", startTime: "12:00", endTime: "11:00" })).toEqual([])
+    expect(getScheduleWindows({ timeRangePreset: "custom", startTime: "20:00", endTime: "23:00" })).toEqual([])
+  })
+})
+
+describe("getScheduleUsage", () => {
+  it("adds up slots per day and window", () => {
+    const usage = getScheduleUsage([
+      booking({ selectedDays: ["monday", "tuesday"], slots: 2 }),
+      booking({ timeRangePreset: "custom", startTime: "08:00", endTime: "12:00" }),
+    ])
+
+    expect(usage).toEqual({ monday: { early: 3, middle: 1 }, tuesday: { early: 2 } })
+  })
+})
+
+describe("capacity checks", () => {
+  const availability = { capacity: 4, usage: { monday: { early: 3 } } }
+
+  it("reports a window as full once the booking doesn't fit", () => {
+    expect(getCapacityLevel(availability, "monday", "early", 1)).toBe("nearly_full")
+    expect(getCapacityLevel(availability, "monday", "early", 2)).toBe("full")
+    expect(getCapacityLevel(availability, "tuesday", "early", 2)).toBe("available")
+  })
+
+  it("never fills up without a limit", () => {
+    expect(getCapacityLevel({ capacity: 0, usage: { monday: { early: 99 } } }, "monday", "early", 5)).toBe("available")
+  })
+
+  it("lists each day and window the booking doesn't fit into", () => {
+    const schedule = booking({ selectedDays: ["monday", "tuesday"], slots: 2 })
+
+    expect(findCapacityConflicts(availability, schedule)).toEqual([{ day: "monday", window: "early" }])
+  })
+})
+
+describe("getSlotCapacity", () => {
+  it("has no limit for types without scheduling", () => {
+    expect(getSlotCapacity({ allowSchedule: false, maxSlotsPerWindow: 3 })).toBe(0)
+    expect(getSlotCapacity({ allowSchedule: true, maxSlotsPerWindow: 3 })).toBe(3)
+    expect(getSlotCapacity({ allowSchedule: true })).toBe(0)
+  })
+})
+
+describe("holdsSlots", () => {
+  it("is true only while the booking is active", () => {
+    expect(holdsSlots("pending")).toBe(true)
+    expect(holdsSlots("on_hold")).toBe(true)
+    expect(holdsSlots("waitlisted")).toBe(false)
+    expect(holdsSlots("cancelled")).toBe(false)
+    expect(holdsSlots("completed")).toBe(false)
+  })
+})
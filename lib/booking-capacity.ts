@@ -0,0 +1,129 @@
+import type { AssistanceType, Booking, BookingStatus } from "@/models/assistance"
+
+export type ScheduleWindow = "early" | "middle" | "late"
+
+// The preset time ranges capacity is counted in, custom ranges count against every window they overlap
+export const SCHEDULE_WINDOWS: Record<ScheduleWindow, { startTime: string; endTime: string }> = {
+  early: { startTime: "05:00", endTime: "10:00" },
+  middle: { startTime: "10:00", endTime: "14:00" },
+  late: { startTime: "14:00", endTime: "19:00" },
+}
+
+// Bookings that still hold their slots, completed and cancelled ones free them and waitlisted ones don't have any yet
+export const CAPACITY_STATUSES: BookingStatus[] = ["pending", "confirmed", "in_progress", "on_hold"]
+
+export function holdsSlots(status: BookingStatus): boolean {
+  return CAPACITY_STATUSES.includes(status)
+}
+
+// The most slots per day and window a booking of the type may claim, 0 when there is no limit
+export function getSlotCapacity(assistanceType: Pick<AssistanceType, "allowSchedule" | "maxSlotsPerWindow">): number {
+  return assistanceType.allowSchedule === false ? 0 : (assistanceType.maxSlotsPerWindow ?? 0)
+}
+
+// A day and time range counts as nearly full once this share of its slots is taken
+export const NEARLY_FULL_RATIO = 0.75
+
+// Slots taken per day, then per window
+export type ScheduleUsage = Record<string, Partial<Record<ScheduleWindow, number>>>
+
+export interface ScheduleAvailability {
+  capacity: number // Most slots per day and window, 0 when the assistance type has no limit
+  usage: ScheduleUsage
+}
+
+export type CapacityLevel = "available" | "nearly_full" | "full"
+
+export type ScheduledSlots = Pick<Booking, "selectedDays" | "timeRangePreset" | "startTime" | "endTime" | "slots">
+
+export interface CapacityConflict {
+  day: string
+  window: ScheduleWindow
+}
+
+// The windows a schedule occupies, a custom range with missing or inverted times occupies none
+export function getScheduleWindows(
+  schedule: Pick<ScheduledSlots, "timeRangePreset" | "startTime" | "endTime">,
+): ScheduleWindow[] {
+  if (schedule.timeRangePreset !== "custom") return [schedule.timeRangePreset]
+
+  const { startTime, endTime } = schedule
+  if (!startTime || !endTime || startTime >= endTime) return []
+
+  // HH:mm strings compare in time order
+  return (Object.keys(SCHEDULE_WINDOWS) as ScheduleWindow[]).filter(
+    (window) => startTime < SCHEDULE_WINDOWS[window].endTime && endTime > SCHEDULE_WINDOWS[window].startTime,
+  )
+}
+
+// Adds up the slots each booking holds for every day and window it covers, on top of usage when given
+export function getScheduleUsage(bookings: ScheduledSlots[], usage: ScheduleUsage = {}): ScheduleUsage {
+  for (const booking of bookings) {
+    const windows = getScheduleWindows(booking)
+    for (const day of booking.selectedDays) {
+      usage[day] ??= {}
+      for (const window of windows) {
+        usage[day][window] = (usage[day][window] ?? 0) + booking.slots
+      }
+    }
+  }
+
+  return usage
+}
+
+/**
+ * How full a day and window would be after adding a booking.
+ * @param slots The slots the new booking needs, 0 to describe the window as it is
+ */
+export function getCapacityLevel(
+  availability: ScheduleAvailability,
+  day: string,
+  window: ScheduleWindow,
+  slots = 0,
+): CapacityLevel {
+  const { capacity, usage } = availability
+  if (capacity <= 0) return "available"
+
+  const used = usage[day]?.[window] ?? 0
+  if (used + Math.max(slots, 1) > capacity) return "full"
+  return (used + slots) / capacity >= NEARLY_FULL_RATIO ? "nearly_full" : "available"
+}
+
+// The fullest level across a set of days and windows
+export function getWorstCapacityLevel(
+  availability: ScheduleAvailability,
+  days: string[],
+  windows: ScheduleWindow[],
+  slots = 0,
+): CapacityLevel {
+  const levels = days.flatMap((day) => windows.map((window) => getCapacityLevel(availability, day, window, slots)))
+  if (levels.includes("full")) return "full"
+  return levels.includes("nearly_full") ? "nearly_full" : "available"
+}
+
+// The days and windows a booking doesn't fit into
+export function findCapacityConflicts(availability: ScheduleAvailability, booking: ScheduledSlots): CapacityConflict[] {
+  const windows = getScheduleWindows(booking)
+
+  return booking.selectedDays.flatMap((day) =>
+    windows
+      .filter((window) => getCapacityLevel(availability, day, window, booking.slots) === "full")
+      .map((window) => ({ day, window })),
+  )
+}
+
+function formatConflicts(conflicts: CapacityConflict[]): string {
+  return conflicts.map(({ day, window }) => `${day.charAt(0).toUpperCase()}${day.slice(1)} ${window}`).join(", ")
+}
+
+export function describeCapacityConflicts(conflicts: CapacityConflict[]): string {
+  return `There aren't enough slots left for ${formatConflicts(conflicts)}. Please choose another day or time range.`
+}
+
+// New bookings that don't fit join the waitlist rather than being refused
+export function describeWaitlistConflicts(conflicts: CapacityConflict[]): string {
+  return (
+    `There aren't enough slots left for ${formatConflicts(conflicts)}. ` +
+    "You can still send your request, it will join the waitlist and move forward automatically when a slot opens up."
+  )
+}
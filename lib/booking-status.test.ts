@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import {
+  BOOKING_STATUSES,
+  canTransition,
+  describeRejectedTransition,
+  getAllowedTransitions,
+} from "@/lib/booking-status"
+
+describe("staff status transitions", () => {
+  it("moves bookings along the usual path", () => {
+    expect(canTransition("pending", "confirmed")).toBe(true)
+    expect(canTransition("confirmed", "in_progress")).toBe(true)
+    expect(canTransition("in_progress", "completed")).toBe(true)
+  })
+
+  it("puts bookings on hold and back", () => {
+    expect(canTransition("in_progress", "on_hold")).toBe(true)
+    expect(canTransition("on_hold", "in_progress")).toBe(true)
+    expect(canTransition("on_hold", "pending")).toBe(true)
+  })
+
+  it("keeps completed bookings final", () => {
+    expect(getAllowedTransitions("completed")).toEqual([])
+  })
+
+  it("only reopens cancelled bookings as pending", () => {
+    expect(getAllowedTransitions("cancelled")).toEqual(["pending"])
+    expect(canTransition("cancelled", "confirmed")).toBe(false)
+  })
+
+  it("moves waitlisted bookings forward or cancels them", () => {
+    expect(getAllowedTransitions("waitlisted")).toEqual(["pending", "cancelled"])
+    expect(canTransition("waitlisted", "confirmed")).toBe(false)
+  })
+
+  it("refuses skipping ahead or going back to the waitlist", () => {
+    expect(canTransition("pending", "in_progress")).toBe(false)
+    expect(canTransition("pending", "completed")).toBe(false)
+    for (const status of BOOKING_STATUSES) {
+      expect(canTransition(status, "waitlisted")).toBe(false)
+    }
+  })
+
+  it("never moves a booking to the status it already has", () => {
+    for (const status of BOOKING_STATUSES) {
+      expect(canTransition(status, status)).toBe(false)
+    }
+  })
+})
+
+describe("customer status transitions", () => {
+  it("cancels bookings that haven't started", () => {
+    for (const status of ["waitlisted", "pending", "confirmed", "on_hold"] as const) {
+      expect(getAllowedTransitions(status, "customer")).toEqual(["cancelled"])
+    }
+  })
+
+  it("can't cancel once work has started or the booking is closed", () => {
+    expect(canTransition("in_progress", "cancelled", "customer")).toBe(false)
+    expect(canTransition("completed", "cancelled", "customer")).toBe(false)
+    expect(canTransition("cancelled", "pending", "customer")).toBe(false)
+  })
+
+  it("can't do what only staff can", () => {
+    expect(canTransition("pending", "confirmed", "customer")).toBe(false)
+    expect(canTransition("pending", "confirmed", "staff")).toBe(true)
+  })
+})
+
+describe("describeRejectedTransition", () => {
+  it("explains why the status didn't change", () => {
+    expect(describeRejectedTransition("completed", "pending")).toBe("A completed request can't be moved to pending")
+    expect(describeRejectedTransition("on_hold", "on_hold")).toBe("The request is already on hold")
+  })
+})
@@ -0,0 +1,69 @@
+import type { BookingStatus, BookingStatusChange } from "@/models/assistance"
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "waitlisted",
+  "pending",
+  "confirmed",
+  "in_progress",
+  "on_hold",
+  "completed",
+  "cancelled",
+]
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  waitlisted: "Waitlisted",
+  pending: "Pending",
+  confirmed: "Confirmed",
+  in_progress: "In Progress",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+}
+
+// The statuses staff may move a booking to from each status. Completed is final, cancelled can only be reopened.
+// Waitlisted bookings are normally moved forward automatically, staff can do it by hand to override capacity.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  waitlisted: ["pending", "cancelled"],
+  pending: ["confirmed", "on_hold", "cancelled"],
+  confirmed: ["pending", "in_progress", "on_hold", "completed", "cancelled"],
+  in_progress: ["on_hold", "completed", "cancelled"],
+  on_hold: ["pending", "confirmed", "in_progress", "cancelled"],
+  completed: [],
+  cancelled: ["pending"],
+}
+
+// Customers can only withdraw their own booking, and not once work on it has started
+const CUSTOMER_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  waitlisted: ["cancelled"],
+  pending: ["cancelled"],
+  confirmed: ["cancelled"],
+  in_progress: [],
+  on_hold: ["cancelled"],
+  completed: [],
+  cancelled: [],
+}
+
+export function getAllowedTransitions(
+  from: BookingStatus,
+  actorType: BookingStatusChange["actorType"] = "staff",
+): BookingStatus[] {
+  return actorType === "staff" ? BOOKING_STATUS_TRANSITIONS[from] : CUSTOMER_STATUS_TRANSITIONS[from]
+}
+
+export function canTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  actorType: BookingStatusChange["actorType"] = "staff",
+): boolean {
+  return getAllowedTransitions(from, actorType).includes(to)
+}
+
+// Explains why a transition was refused, for action results
+export function describeRejectedTransition(from: BookingStatus, to: BookingStatus): string {
+  if (from === to) {
+    return `The request is already ${BOOKING_STATUS_LABELS[to].toLowerCase()}`
+  }
+
+  const fromLabel = BOOKING_STATUS_LABELS[from].toLowerCase()
+  return `A ${fromLabel} request can't be moved to ${BOOKING_STATUS_LABELS[to].toLowerCase()}`
+}
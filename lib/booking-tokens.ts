@@ -0,0 +1,30 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+
+/**
+ * Generates a secret edit token for a new booking.
+ * Only the hash is stored; the token itself is shown to the customer once.
+ * @returns The token to hand to the customer and the hash to store on the booking
+ */
+export function generateEditToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString("base64url")
+  return { token, hash: hashEditToken(token) }
+}
+
+export function hashEditToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+/**
+ * Checks a customer supplied token against the hash stored on a booking
+ * @param token The token sent by the customer
+ * @param hash The editTokenHash stored on the booking
+ * @returns True if the token matches
+ */
+export function verifyEditToken(token: string | undefined, hash: string | undefined): boolean {
+  if (!token || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = Buffer.from(hashEditToken(token), "hex")
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
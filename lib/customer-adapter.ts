@@ -0,0 +1,122 @@
+import { ObjectId, type WithId } from "mongodb"
+import type { Adapter, AdapterUser, AdapterAccount } from "next-auth/adapters"
+import clientPromise from "@/lib/mongodb"
+import { normalizeEmail } from "@/lib/staff-users"
+import {
+  type Customer,
+  type CustomerAccount,
+  type VerificationToken,
+  CUSTOMERS_COLLECTION,
+  CUSTOMER_ACCOUNTS_COLLECTION,
+  VERIFICATION_TOKENS_COLLECTION,
+} from "@/models/customer"
+
+async function getCollections() {
+  const client = await clientPromise
+  const db = client.db()
+
+  return {
+    customers: db.collection<Customer>(CUSTOMERS_COLLECTION),
+    accounts: db.collection<CustomerAccount>(CUSTOMER_ACCOUNTS_COLLECTION),
+    verificationTokens: db.collection<VerificationToken>(VERIFICATION_TOKENS_COLLECTION),
+  }
+}
+
+function toAdapterUser(customer: WithId<Customer>): AdapterUser {
+  return {
+    id: customer._id.toString(),
+    email: customer.email,
+    name: customer.name,
+    image: customer.image,
+    emailVerified: customer.emailVerified,
+  }
+}
+
+function toObjectId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null
+}
+
+/**
+ * NextAuth adapter backed by our MongoDB connection.
+ * Sessions stay in the JWT, so only users, linked accounts and email verification tokens are stored.
+ */
+export function customerAdapter(): Adapter {
+  return {
+    async createUser(user: Omit<AdapterUser, "id">) {
+      const { customers } = await getCollections()
+      const customer: Customer = {
+        email: normalizeEmail(user.email),
+        name: user.name,
+        image: user.image,
+        emailVerified: user.emailVerified,
+        createdAt: new Date(),
+      }
+
+      const result = await customers.insertOne(customer)
+      return toAdapterUser({ ...customer, _id: result.insertedId })
+    },
+
+    async getUser(id) {
+      const objectId = toObjectId(id)
+      if (!objectId) return null
+
+      const { customers } = await getCollections()
+      const customer = await customers.findOne({ _id: objectId })
+      return customer ? toAdapterUser(customer) : null
+    },
+
+    async getUserByEmail(email) {
+      const { customers } = await getCollections()
+      const customer = await customers.findOne({ email: normalizeEmail(email) })
+      return customer ? toAdapterUser(customer) : null
+    },
+
+    async getUserByAccount({ provider, providerAccountId }) {
+      const { customers, accounts } = await getCollections()
+      const account = await accounts.findOne({ provider, providerAccountId })
+      if (!account) return null
+
+      const customer = await customers.findOne({ _id: account.userId })
+      return customer ? toAdapterUser(customer) : null
+    },
+
+    async updateUser({ id, ...updates }) {
+      const { customers } = await getCollections()
+      const customer = await customers.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: { ...updates, ...(updates.email ? { email: normalizeEmail(updates.email) } : {}) } },
+        { returnDocument: "after" },
+      )
+
+      if (!customer) {
+        throw new Error(`Customer ${id} not found`)
+      }
+
+      return toAdapterUser(customer)
+    },
+
+    async linkAccount(account: AdapterAccount) {
+      const { accounts } = await getCollections()
+      await accounts.insertOne({ ...account, userId: new ObjectId(account.userId) })
+    },
+
+    async createVerificationToken(verificationToken) {
+      const { verificationTokens } = await getCollections()
+      await verificationTokens.insertOne({ ...verificationToken })
+      return verificationToken
+    },
+
+    // Tokens are deleted on use so a sign-in link only works once
+    async useVerificationToken({ identifier, token }) {
+      const { verificationTokens } = await getCollections()
+      const verificationToken = await verificationTokens.findOneAndDelete({ identifier, token })
+      if (!verificationToken) return null
+
+      return {
+        identifier: verificationToken.identifier,
+        token: verificationToken.token,
+        expires: verificationToken.expires,
+      }
+    },
+  }
+}
@@ -0,0 +1,49 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth-options"
+import { verifyEditToken } from "@/lib/booking-tokens"
+import { isStaffRole } from "@/lib/staff-roles"
+
+export interface CustomerIdentity {
+  id: string
+  email: string
+}
+
+// The signed-in customer account, or null for guests and staff sessions
+export async function getCustomerSession(): Promise<CustomerIdentity | null> {
+  try {
+    const session = await getServerSession(authOptions)
+    const user = session?.user
+
+    if (!user?.id || !user.email || isStaffRole(user.role)) {
+      return null
+    }
+
+    return { id: user.id, email: user.email }
+  } catch (error) {
+    console.error("Error reading customer session:", error)
+    return null
+  }
+}
+
+/**
+ * Checks whether the caller may change a booking, either with the booking's edit token
+ * or by being signed in to the customer account the booking is linked to.
+ * @param booking The stored booking, including its editTokenHash and customerId
+ * @param editToken The token sent by the customer, if any
+ * @returns True if the change is allowed
+ */
+export async function canManageBooking(
+  booking: { editTokenHash?: string; customerId?: string },
+  editToken?: string | null,
+): Promise<boolean> {
+  if (verifyEditToken(editToken || undefined, booking.editTokenHash)) {
+    return true
+  }
+
+  if (!booking.customerId) {
+    return false
+  }
+
+  const customer = await getCustomerSession()
+  return customer?.id === booking.customerId
+}
@@ -0,0 +1,31 @@
+// Browser-side storage for booking edit tokens, keyed by booking ID
+const EDIT_TOKENS_KEY = "papapi-booking-tokens"
+
+function readTokens(): Record<string, string> {
+  try {
+    const tokens = JSON.parse(localStorage.getItem(EDIT_TOKENS_KEY) || "{}")
+    return tokens && typeof tokens === "object" ? tokens : {}
+  } catch (error) {
+    console.error("Error reading edit tokens:", error)
+    return {}
+  }
+}
+
+export function getStoredEditToken(bookingId: string): string | null {
+  return readTokens()[bookingId] || null
+}
+
+export function storeEditToken(bookingId: string, token: string): void {
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify({ ...readTokens(), [bookingId]: token }))
+}
+
+export function removeStoredEditToken(bookingId: string): void {
+  const tokens = readTokens()
+  delete tokens[bookingId]
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify(tokens))
+}
+
+// Every booking this browser holds a token for, used to link guest bookings to a customer account
+export function getAllStoredEditTokens(): { bookingId: string; editToken: string }[] {
+  return Object.entries(readTokens()).map(([bookingId, editToken]) => ({ bookingId, editToken }))
+}
@@ -0,0 +1,163 @@
+import { BOOKING_STATUS_LABELS } from "@/lib/booking-status"
+import {
+  SERVER_TIME_ZONE,
+  WEEK_DAYS,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  getTimeZoneOffset,
+} from "@/lib/schedule-time-zone"
+import type { Booking, BookingStatus } from "@/models/assistance"
+
+// Calendar apps can't sign in, so the feed route is reached with a secret token in its URL
+export const CALENDAR_FEED_PATH = "/api/calendar/feed"
+
+const PRODUCT_ID = "-//Papapi Gaming//Assistance Requests//EN"
+
+const RRULE_DAYS: Record<string, string> = {
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+  sunday: "SU",
+}
+
+const EVENT_STATUSES: Record<BookingStatus, "TENTATIVE" | "CONFIRMED" | "CANCELLED"> = {
+  waitlisted: "TENTATIVE",
+  pending: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  in_progress: "CONFIRMED",
+  on_hold: "TENTATIVE",
+  completed: "CONFIRMED",
+  cancelled: "CANCELLED",
+}
+
+// Content lines are limited to 75 octets, longer ones continue on lines starting with a space
+const MAX_LINE_OCTETS = 75
+
+interface CalendarOptions {
+  name: string // Shown by calendar apps that subscribe to the feed
+  baseUrl: string // Origin the request page links are built from
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ""
+
+  for (const character of line) {
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (Buffer.byteLength(current + character) > limit) {
+      parts.push(current)
+      current = ""
+    }
+    current += character
+  }
+  parts.push(current)
+
+  return parts.join("\r\n ")
+}
+
+// e.g. 20250102T030405Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+// The first selected day on or after the booking was made, as a server time date like 20250102
+function getFirstOccurrence(booking: Booking): string {
+  const createdAt = new Date(booking.createdAt)
+  // UTC getters on this date read the server's wall clock
+  const serverDate = new Date(createdAt.getTime() + getTimeZoneOffset(SERVER_TIME_ZONE, createdAt) * 60000)
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = new Date(serverDate.getTime() + offset * 24 * 60 * 60000)
+    if (booking.selectedDays.includes(WEEK_DAYS[(date.getUTCDay() + 6) % 7])) {
+      return date.toISOString().slice(0, 10).replace(/-/g, "")
+    }
+  }
+
+  return serverDate.toISOString().slice(0, 10).replace(/-/g, "")
+}
+
+// The server zone has no daylight saving time, so a single standard offset describes it
+function timeZoneLines(): string[] {
+  const offset = getTimeZoneOffset(SERVER_TIME_ZONE)
+  const hours = Math.floor(Math.abs(offset) / 60)
+  const minutes = Math.abs(offset) % 60
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  const utcOffset = `${offset < 0 ? "-" : "+"}${pad(hours)}${pad(minutes)}`
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${SERVER_TIME_ZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    `TZOFFSETFROM:${utcOffset}`,
+    `TZOFFSETTO:${utcOffset}`,
+    `TZNAME:${formatTimeZoneOffset(SERVER_TIME_ZONE)}`,
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ]
+}
+
+// A weekly recurring event for the booking, nothing for bookings without a schedule
+function eventLines(booking: Booking, baseUrl: string): string[] {
+  const { selectedDays, startTime, endTime } = getServerSchedule(booking)
+  if (selectedDays.length === 0 || !startTime || !endTime) return []
+
+  const date = getFirstOccurrence(booking)
+  const byDay = WEEK_DAYS.filter((day) => selectedDays.includes(day)).map((day) => RRULE_DAYS[day])
+  const lastChanged = new Date(booking.updatedAt ?? booking.createdAt)
+  // Finished requests stop repeating from when they were closed
+  const isClosed = booking.status === "completed" || booking.status === "cancelled"
+  const until = isClosed ? `;UNTIL=${formatUtc(lastChanged)}` : ""
+  const url = `${baseUrl}/request/${booking._id}`
+
+  const description = [
+    `Request: ${booking.requestNumber}`,
+    `Character ID: ${booking.characterId}`,
+    `Slots: ${booking.slots}`,
+    `Status: ${BOOKING_STATUS_LABELS[booking.status]}`,
+    url,
+  ].join("\n")
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${booking._id}@papapi-gaming`,
+    `DTSTAMP:${formatUtc(lastChanged)}`,
+    `DTSTART;TZID=${SERVER_TIME_ZONE}:${date}T${startTime.replace(":", "")}00`,
+    `DTEND;TZID=${SERVER_TIME_ZONE}:${date}T${endTime.replace(":", "")}00`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${byDay.join(",")}${until}`,
+    `SUMMARY:${escapeText(`${booking.assistanceTypeName || "Assistance"} (${booking.requestNumber})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `STATUS:${EVENT_STATUSES[booking.status]}`,
+    "END:VEVENT",
+  ]
+}
+
+/**
+ * Builds an iCalendar file with a weekly recurring event per booking.
+ * Events are in server time with the zone included, so calendar apps show them in their own zone.
+ */
+export function buildCalendar(bookings: Booking[], { name, baseUrl }: CalendarOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${SERVER_TIME_ZONE}`,
+    ...timeZoneLines(),
+    ...bookings.flatMap((booking) => eventLines(booking, baseUrl)),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
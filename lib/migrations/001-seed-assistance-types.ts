@@ -0,0 +1,88 @@
+import type { Migration } from "@/lib/migrations/types"
+import { ASSISTANCE_TEMPLATES_COLLECTION } from "@/models/assistance-template"
+import { ASSISTANCE_TYPES_COLLECTION, BOOKINGS_COLLECTION } from "@/models/assistance"
+
+const DEFAULT_ASSISTANCE_TYPES = [
+  {
+    name: "Leveling Assistance",
+    description: "Help with power leveling your character",
+    isActive: true,
+    listOrder: 1,
+    allowPhotoUpload: false,
+    allowSchedule: true,
+  },
+  {
+    name: "Boss Hunting",
+    description: "Assistance with defeating MVP or mini-boss monsters",
+    isActive: true,
+    listOrder: 2,
+    allowPhotoUpload: true, // Enable photo uploads for boss hunting
+    allowSchedule: true,
+  },
+  {
+    name: "Quest Completion",
+    description: "Help completing difficult quests or missions",
+    isActive: true,
+    listOrder: 3,
+    allowPhotoUpload: true, // Enable photo uploads for quest completion
+    allowSchedule: true,
+  },
+  {
+    name: "Item Farming",
+    description: "Assistance with farming specific items or materials",
+    isActive: true,
+    listOrder: 4,
+    allowPhotoUpload: false,
+    allowSchedule: true,
+  },
+  {
+    name: "Build Consultation",
+    description: "Expert advice on character builds and skill allocation",
+    isActive: true,
+    listOrder: 5,
+    allowPhotoUpload: false,
+    allowSchedule: false, // Disable scheduling for consultation
+  },
+  {
+    name: "Equipment Enhancement",
+    description: "Help with upgrading and enhancing equipment",
+    isActive: true,
+    listOrder: 6,
+    allowPhotoUpload: true, // Enable photo uploads for equipment enhancement
+    allowSchedule: false, // Disable scheduling for enhancement
+  },
+]
+
+// Adds the default assistance types to an empty database
+export const seedAssistanceTypes: Migration = {
+  version: 1,
+  name: "seed-assistance-types",
+
+  async up(db) {
+    const collection = db.collection(ASSISTANCE_TYPES_COLLECTION)
+
+    // Databases that already have types were set up by hand, leave them alone
+    if ((await collection.countDocuments()) > 0) return
+
+    await collection.insertMany(DEFAULT_ASSISTANCE_TYPES.map((type) => ({ ...type })))
+  },
+
+  // Removes the default types again, keeping any that bookings or templates still point at
+  async down(db) {
+    const collection = db.collection(ASSISTANCE_TYPES_COLLECTION)
+    const defaults = await collection
+      .find({ name: { $in: DEFAULT_ASSISTANCE_TYPES.map((type) => type.name) } })
+      .toArray()
+
+    for (const type of defaults) {
+      const reference = { assistanceTypeId: { $in: [type._id, type._id.toString()] } }
+      const inUse =
+        (await db.collection(BOOKINGS_COLLECTION).countDocuments(reference, { limit: 1 })) > 0 ||
+        (await db.collection(ASSISTANCE_TEMPLATES_COLLECTION).countDocuments(reference, { limit: 1 })) > 0
+
+      if (!inUse) {
+        await collection.deleteOne({ _id: type._id })
+      }
+    }
+  },
+}
@@ -0,0 +1,35 @@
+import type { Migration } from "@/lib/migrations/types"
+import { ASSISTANCE_TYPES_COLLECTION } from "@/models/assistance"
+
+// Fills in listOrder, allowPhotoUpload and allowSchedule on assistance types created before those fields existed
+export const backfillAssistanceTypeFlags: Migration = {
+  version: 2,
+  name: "backfill-assistance-type-flags",
+
+  async up(db) {
+    const collection = db.collection(ASSISTANCE_TYPES_COLLECTION)
+
+    // Types without a position keep their current order, after the ones that have one
+    const unordered = await collection
+      .find({ listOrder: { $exists: false } })
+      .sort({ _id: 1 })
+      .toArray()
+    const [last] = await collection
+      .find({ listOrder: { $exists: true } })
+      .sort({ listOrder: -1 })
+      .limit(1)
+      .toArray()
+    const start = (last?.listOrder ?? 0) + 1
+
+    for (const [index, type] of unordered.entries()) {
+      await collection.updateOne({ _id: type._id }, { $set: { listOrder: start + index } })
+    }
+
+    // Existing types keep photos off and scheduling on, as they behaved before the flags were added
+    await collection.updateMany({ allowPhotoUpload: { $exists: false } }, { $set: { allowPhotoUpload: false } })
+    await collection.updateMany({ allowSchedule: { $exists: false } }, { $set: { allowSchedule: true } })
+  },
+
+  // Backfilled values can't be told apart from ones staff have since set, so they are left in place
+  async down() {},
+}
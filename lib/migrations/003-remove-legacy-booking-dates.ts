@@ -0,0 +1,28 @@
+import type { Migration } from "@/lib/migrations/types"
+import { BOOKINGS_COLLECTION } from "@/models/assistance"
+
+const ONE_HOUR_MS = 60 * 60 * 1000
+
+// Drops startDateTime and endDateTime from bookings, the schedule lives in selectedDays and the time range
+export const removeLegacyBookingDates: Migration = {
+  version: 3,
+  name: "remove-legacy-booking-dates",
+
+  async up(db) {
+    await db
+      .collection(BOOKINGS_COLLECTION)
+      .updateMany(
+        { $or: [{ startDateTime: { $exists: true } }, { endDateTime: { $exists: true } }] },
+        { $unset: { startDateTime: "", endDateTime: "" } },
+      )
+  },
+
+  // The original values are gone, so restore the placeholder the booking form used to write: one hour from creation
+  async down(db) {
+    await db
+      .collection(BOOKINGS_COLLECTION)
+      .updateMany({ startDateTime: { $exists: false } }, [
+        { $set: { startDateTime: "$createdAt", endDateTime: { $add: ["$createdAt", ONE_HOUR_MS] } } },
+      ])
+  },
+}
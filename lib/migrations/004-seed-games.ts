@@ -0,0 +1,51 @@
+import type { Migration } from "@/lib/migrations/types"
+import { ASSISTANCE_TEMPLATES_COLLECTION } from "@/models/assistance-template"
+import { ASSISTANCE_TYPES_COLLECTION } from "@/models/assistance"
+import { FEATURED_TOON_COLLECTION } from "@/models/featured-toon"
+import { GAMES_COLLECTION } from "@/models/game"
+
+// The only game before games were stored, everything that exists so far belongs to it
+const FIRST_GAME = {
+  slug: "ragnarok-m-classic",
+  name: "Ragnarok M Classic",
+  logo: "/romc-logo.png",
+  description: "Book a session with our expert gamers to help you with your Ragnarok M Classic journey",
+  isActive: true,
+  listOrder: 1,
+}
+
+const SCOPED_COLLECTIONS = [ASSISTANCE_TYPES_COLLECTION, ASSISTANCE_TEMPLATES_COLLECTION, FEATURED_TOON_COLLECTION]
+
+// Creates the games collection with Ragnarok M Classic and assigns existing types, templates and toons to it
+export const seedGames: Migration = {
+  version: 4,
+  name: "seed-games",
+
+  async up(db) {
+    const games = db.collection(GAMES_COLLECTION)
+    await games.updateOne(
+      { slug: FIRST_GAME.slug },
+      { $setOnInsert: { ...FIRST_GAME, createdAt: new Date() } },
+      { upsert: true },
+    )
+    const game = await games.findOne({ slug: FIRST_GAME.slug })
+    if (!game) throw new Error(`Could not create the ${FIRST_GAME.name} game`)
+
+    for (const collection of SCOPED_COLLECTIONS) {
+      await db.collection(collection).updateMany({ gameId: { $exists: false } }, { $set: { gameId: game._id } })
+    }
+  },
+
+  // Games added since can't be merged back into one, so this only reverts when the first game is the only one
+  async down(db) {
+    const games = db.collection(GAMES_COLLECTION)
+    if ((await games.countDocuments({ slug: { $ne: FIRST_GAME.slug } })) > 0) {
+      throw new Error("Other games have been added, remove them before reverting seed-games")
+    }
+
+    for (const collection of SCOPED_COLLECTIONS) {
+      await db.collection(collection).updateMany({}, { $unset: { gameId: "" } })
+    }
+    await games.deleteMany({})
+  },
+}
@@ -0,0 +1,33 @@
+import { MongoServerError } from "mongodb"
+import type { Migration } from "@/lib/migrations/types"
+import { ACTIVE_BOOKING_INDEX, BOOKINGS_COLLECTION } from "@/models/assistance"
+
+// NamespaceNotFound and IndexNotFound, nothing to drop
+const MISSING_INDEX_CODES = [26, 27]
+
+// Converts the assistanceTypeId the original booking form stored as a hex string to an ObjectId,
+// the repositories only filter on ObjectIds so unconverted bookings drop out of duplicate and capacity checks
+export const convertBookingAssistanceTypeIds: Migration = {
+  version: 5,
+  name: "convert-booking-assistance-type-ids",
+
+  async up(db) {
+    const collection = db.collection(BOOKINGS_COLLECTION)
+
+    // An index built before the conversion holds a legacy booking and a new one for the same type as different values,
+    // so converting would fail part way on the first duplicate. The migrate script rebuilds it afterwards,
+    // reporting any duplicates that surface.
+    try {
+      await collection.dropIndex(ACTIVE_BOOKING_INDEX)
+    } catch (error) {
+      if (!(error instanceof MongoServerError) || !MISSING_INDEX_CODES.includes(error.code as number)) throw error
+    }
+
+    await collection.updateMany({ assistanceTypeId: { $type: "string", $regex: /^[0-9a-f]{24}$/i } }, [
+      { $set: { assistanceTypeId: { $toObjectId: "$assistanceTypeId" } } },
+    ])
+  },
+
+  // Converted ids can't be told apart from ones stored as ObjectIds since, and the schema reads both, so they stay
+  async down() {},
+}
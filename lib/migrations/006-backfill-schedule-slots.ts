@@ -0,0 +1,49 @@
+import type { Migration } from "@/lib/migrations/types"
+import { CAPACITY_STATUSES, getScheduleWindows } from "@/lib/booking-capacity"
+import { BOOKINGS_COLLECTION } from "@/models/assistance"
+import { type ScheduleSlotCount, SCHEDULE_SLOTS_COLLECTION, scheduleSlotId } from "@/models/schedule-slot"
+
+// Counts the slots existing bookings hold into the counters capacity is now claimed from
+export const backfillScheduleSlots: Migration = {
+  version: 6,
+  name: "backfill-schedule-slots",
+
+  async up(db) {
+    const bookings = await db
+      .collection(BOOKINGS_COLLECTION)
+      .find(
+        { status: { $in: CAPACITY_STATUSES }, "selectedDays.0": { $exists: true } },
+        {
+          projection: { assistanceTypeId: 1, selectedDays: 1, timeRangePreset: 1, startTime: 1, endTime: 1, slots: 1 },
+        },
+      )
+      .toArray()
+
+    const counts = new Map<string, number>()
+    for (const booking of bookings) {
+      const windows = getScheduleWindows({
+        timeRangePreset: booking.timeRangePreset ?? "early",
+        startTime: booking.startTime ?? undefined,
+        endTime: booking.endTime ?? undefined,
+      })
+
+      for (const day of booking.selectedDays as string[]) {
+        for (const window of windows) {
+          const id = scheduleSlotId(booking.assistanceTypeId.toString(), day, window)
+          counts.set(id, (counts.get(id) ?? 0) + (booking.slots ?? 1))
+        }
+      }
+    }
+
+    // Bookings made while this was pending may have claimed slots already, they are in the count above
+    const collection = db.collection<ScheduleSlotCount>(SCHEDULE_SLOTS_COLLECTION)
+    await collection.deleteMany({})
+    if (counts.size > 0) {
+      await collection.insertMany([...counts].map(([_id, used]) => ({ _id, used })))
+    }
+  },
+
+  async down(db) {
+    await db.collection(SCHEDULE_SLOTS_COLLECTION).deleteMany({})
+  },
+}
@@ -0,0 +1,17 @@
+import { seedAssistanceTypes } from "@/lib/migrations/001-seed-assistance-types"
+import { backfillAssistanceTypeFlags } from "@/lib/migrations/002-backfill-assistance-type-flags"
+import { removeLegacyBookingDates } from "@/lib/migrations/003-remove-legacy-booking-dates"
+import { seedGames } from "@/lib/migrations/004-seed-games"
+import { convertBookingAssistanceTypeIds } from "@/lib/migrations/005-convert-booking-assistance-type-ids"
+import { backfillScheduleSlots } from "@/lib/migrations/006-backfill-schedule-slots"
+import type { Migration } from "@/lib/migrations/types"
+
+// Every migration in version order, add new files to the end of this list
+export const MIGRATIONS: Migration[] = [
+  seedAssistanceTypes,
+  backfillAssistanceTypeFlags,
+  removeLegacyBookingDates,
+  seedGames,
+  convertBookingAssistanceTypeIds,
+  backfillScheduleSlots,
+]
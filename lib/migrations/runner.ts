@@ -0,0 +1,86 @@
+import type { Db } from "mongodb"
+import { MIGRATIONS } from "@/lib/migrations"
+import type { Migration } from "@/lib/migrations/types"
+import { type MigrationRecord, MIGRATIONS_COLLECTION } from "@/models/migration"
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  appliedAt: Date | null
+}
+
+// Catches a migration added out of order or with a reused number before anything runs
+function getOrderedMigrations(migrations: Migration[]): Migration[] {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) is out of order`)
+    }
+  })
+
+  return migrations
+}
+
+async function getAppliedRecords(db: Db): Promise<Map<number, MigrationRecord>> {
+  const records = await db.collection<MigrationRecord>(MIGRATIONS_COLLECTION).find({}).toArray()
+  return new Map(records.map((record) => [record._id, record]))
+}
+
+// Every known migration with when it was applied, or null if it is still pending
+export async function getMigrationStatus(db: Db, migrations = MIGRATIONS): Promise<MigrationStatus[]> {
+  const applied = await getAppliedRecords(db)
+
+  return getOrderedMigrations(migrations).map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.appliedAt ?? null,
+  }))
+}
+
+// Whether any known migration has not been applied yet
+export async function hasPendingMigrations(db: Db, migrations = MIGRATIONS): Promise<boolean> {
+  const applied = await getAppliedRecords(db)
+  return migrations.some((migration) => !applied.has(migration.version))
+}
+
+/**
+ * Applies pending migrations in version order.
+ * Each one is recorded as soon as it succeeds, so a failed run can be fixed and run again.
+ * @param db The database to migrate
+ * @param targetVersion The last version to apply, defaults to all of them
+ * @returns The migrations that were applied
+ */
+export async function migrateUp(db: Db, targetVersion = Infinity, migrations = MIGRATIONS): Promise<Migration[]> {
+  const applied = await getAppliedRecords(db)
+  const pending = getOrderedMigrations(migrations).filter(
+    (migration) => migration.version <= targetVersion && !applied.has(migration.version),
+  )
+
+  for (const migration of pending) {
+    await migration.up(db)
+    await db
+      .collection<MigrationRecord>(MIGRATIONS_COLLECTION)
+      .insertOne({ _id: migration.version, name: migration.name, appliedAt: new Date() })
+  }
+
+  return pending
+}
+
+/**
+ * Reverts applied migrations, newest first.
+ * @param db The database to migrate
+ * @param targetVersion The version to return to, migrations after it are reverted and it stays applied
+ * @returns The migrations that were reverted
+ */
+export async function migrateDown(db: Db, targetVersion: number, migrations = MIGRATIONS): Promise<Migration[]> {
+  const applied = await getAppliedRecords(db)
+  const reverting = getOrderedMigrations(migrations)
+    .filter((migration) => migration.version > targetVersion && applied.has(migration.version))
+    .reverse()
+
+  for (const migration of reverting) {
+    await migration.down(db)
+    await db.collection<MigrationRecord>(MIGRATIONS_COLLECTION).deleteOne({ _id: migration.version })
+  }
+
+  return reverting
+}
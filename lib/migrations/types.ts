@@ -0,0 +1,12 @@
+import type { Db } from "mongodb"
+
+/**
+ * A numbered change to the stored data.
+ * Migrations work on the raw collections rather than the repositories, so they keep working as the schemas evolve.
+ */
+export interface Migration {
+  version: number
+  name: string
+  up: (db: Db) => Promise<void>
+  down: (db: Db) => Promise<void>
+}
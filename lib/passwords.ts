@@ -0,0 +1,42 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+
+export const MIN_PASSWORD_LENGTH = 10
+
+/**
+ * Hashes a staff password with scrypt and a random salt
+ * @param password The plain text password
+ * @returns A string of the form scrypt$<salt>$<hash> to store on the staff user
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`
+}
+
+/**
+ * Checks a password against a hash created by hashPassword
+ * @param password The plain text password
+ * @param storedHash The passwordHash stored on the staff user
+ * @returns True if the password matches
+ */
+export async function verifyPassword(password: string, storedHash: string | undefined): Promise<boolean> {
+  const [scheme, salt, hash] = (storedHash || "").split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, "hex")
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length)
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function validatePasswordStrength(password: string): string | null {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  return null
+}
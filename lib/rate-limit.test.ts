@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest"
+import { headers } from "next/headers"
+import { getClientIp } from "@/lib/rate-limit"
+
+vi.mock("next/headers", () => ({ headers: vi.fn() }))
+vi.mock("@/lib/mongodb", () => ({ default: new Promise(() => {}) }))
+
+const requestWith = (values: Record<string, string>) =>
+  vi.mocked(headers).mockResolvedValue(new Headers(values) as Awaited<ReturnType<typeof headers>>)
+
+describe("getClientIp", () => {
+  it("ignores addresses the client put in X-Forwarded-For", async () => {
+    requestWith({ "x-forwarded-for": "1.1.1.1, 2.2.2.2, 203.0.113.7" })
+
+    expect(await getClientIp()).toBe("203.0.113.7")
+  })
+
+  it("prefers the address the platform reports", async () => {
+    requestWith({ "x-vercel-forwarded-for": "198.51.100.4", "x-forwarded-for": "1.1.1.1, 203.0.113.7" })
+
+    expect(await getClientIp()).toBe("198.51.100.4")
+  })
+
+  it("falls back to X-Real-IP without a forwarded header", async () => {
+    requestWith({ "x-real-ip": "203.0.113.9" })
+
+    expect(await getClientIp()).toBe("203.0.113.9")
+  })
+
+  it("groups requests without any address together", async () => {
+    requestWith({})
+
+    expect(await getClientIp()).toBe("unknown")
+  })
+})
@@ -0,0 +1,168 @@
+import { headers } from "next/headers"
+import clientPromise from "@/lib/mongodb"
+
+export const RATE_LIMITS_COLLECTION = "rateLimits"
+
+// Request budgets per endpoint, counted separately for the caller's IP and for the character or contact they use
+export const RATE_LIMITS = {
+  createBooking: { limit: 5, windowMs: 60 * 60 * 1000 },
+  addComment: { limit: 20, windowMs: 10 * 60 * 1000 },
+  upload: { limit: 30, windowMs: 10 * 60 * 1000 },
+  lookupBooking: { limit: 30, windowMs: 10 * 60 * 1000 },
+  staffSignIn: { limit: 10, windowMs: 15 * 60 * 1000 },
+} as const
+
+export type RateLimitedEndpoint = keyof typeof RATE_LIMITS
+
+// Returned by actions and routes when a caller has used up their budget
+export interface RateLimitedResult {
+  success: false
+  message: string
+  code: "rate_limited"
+  retryAfter: number // Seconds until the caller can try again
+}
+
+export type RateLimitCheck = { allowed: true } | { allowed: false; result: RateLimitedResult }
+
+interface RateLimitBucket {
+  _id: string // endpoint:kind:value
+  count: number
+  expiresAt: Date // End of the current window, also used by the TTL index to clean up old buckets
+}
+
+let indexesEnsured = false
+
+async function getBuckets() {
+  const client = await clientPromise
+  const collection = client.db().collection<RateLimitBucket>(RATE_LIMITS_COLLECTION)
+
+  if (!indexesEnsured) {
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    indexesEnsured = true
+  }
+
+  return collection
+}
+
+// Proxies in front of the app that append to X-Forwarded-For, TRUSTED_PROXY_HOPS when there is more than one
+const TRUSTED_PROXY_HOPS = Math.max(1, Number.parseInt(process.env.TRUSTED_PROXY_HOPS || "", 10) || 1)
+
+/**
+ * The client IP for the current request.
+ * Clients can send their own X-Forwarded-For, so only the entry added by the outermost trusted proxy is used,
+ * and the platform's own header wins when it is there.
+ */
+export async function getClientIp(): Promise<string> {
+  const headerList = await headers()
+
+  // Vercel sets this from the connection and drops any value the client sent
+  const platformIp = headerList.get("x-vercel-forwarded-for")?.split(",")[0].trim()
+  if (platformIp) return platformIp
+
+  const forwardedFor = (headerList.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry)
+
+  return forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS] || headerList.get("x-real-ip") || "unknown"
+}
+
+function identifierKey(endpoint: RateLimitedEndpoint, identifier: string): string {
+  return `${endpoint}:id:${identifier.trim().toLowerCase()}`
+}
+
+// Counts one request against a bucket and returns the count including it
+async function consume(collection: Awaited<ReturnType<typeof getBuckets>>, id: string, windowMs: number) {
+  const now = new Date()
+
+  // Start a new window when the previous one has ended
+  await collection.deleteOne({ _id: id, expiresAt: { $lte: now } })
+
+  const bucket = await collection.findOneAndUpdate(
+    { _id: id },
+    { $inc: { count: 1 }, $setOnInsert: { expiresAt: new Date(now.getTime() + windowMs) } },
+    { upsert: true, returnDocument: "after" },
+  )
+
+  return bucket ?? { _id: id, count: 1, expiresAt: new Date(now.getTime() + windowMs) }
+}
+
+/**
+ * Counts a request against the endpoint budget for the caller's IP and each extra identifier.
+ * Fails open if the database is unavailable so legitimate requests are not blocked.
+ * @param endpoint The endpoint being called
+ * @param identifiers Extra keys such as the character ID or contact info, empty values are ignored
+ * @returns Whether the request may proceed, or a rate limited result to hand back to the caller
+ */
+export async function checkRateLimit(
+  endpoint: RateLimitedEndpoint,
+  identifiers: (string | undefined | null)[] = [],
+): Promise<RateLimitCheck> {
+  const { limit, windowMs } = RATE_LIMITS[endpoint]
+
+  try {
+    const collection = await getBuckets()
+    const keys = [
+      `${endpoint}:ip:${await getClientIp()}`,
+      ...identifiers
+        .filter((identifier): identifier is string => !!identifier?.trim())
+        .map((identifier) => identifierKey(endpoint, identifier)),
+    ]
+
+    const buckets = await Promise.all(keys.map((key) => consume(collection, key, windowMs)))
+    const exceeded = buckets.filter((bucket) => bucket.count > limit)
+
+    if (exceeded.length === 0) {
+      return { allowed: true }
+    }
+
+    const resetAt = Math.max(...exceeded.map((bucket) => bucket.expiresAt.getTime()))
+
+    return {
+      allowed: false,
+      result: {
+        success: false,
+        message: "Too many requests. Please wait a little while before trying again.",
+        code: "rate_limited",
+        retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+      },
+    }
+  } catch (error) {
+    console.error("Error checking rate limit:", error)
+    return { allowed: true }
+  }
+}
+
+/**
+ * Whether an identifier has used up its endpoint budget, without counting the current request.
+ * Used with recordFailedAttempt where only failures should count. Fails open like checkRateLimit.
+ */
+export async function isRateLimited(endpoint: RateLimitedEndpoint, identifier: string | undefined): Promise<boolean> {
+  if (!identifier?.trim()) return false
+
+  try {
+    const collection = await getBuckets()
+    const bucket = await collection.findOne({
+      _id: identifierKey(endpoint, identifier),
+      expiresAt: { $gt: new Date() },
+    })
+    return !!bucket && bucket.count >= RATE_LIMITS[endpoint].limit
+  } catch (error) {
+    console.error("Error checking rate limit:", error)
+    return false
+  }
+}
+
+// Counts a failed attempt against an identifier's endpoint budget, see isRateLimited
+export async function recordFailedAttempt(
+  endpoint: RateLimitedEndpoint,
+  identifier: string | undefined,
+): Promise<void> {
+  if (!identifier?.trim()) return
+
+  try {
+    await consume(await getBuckets(), identifierKey(endpoint, identifier), RATE_LIMITS[endpoint].windowMs)
+  } catch (error) {
+    console.error("Error recording failed attempt:", error)
+  }
+}
@@ -0,0 +1,163 @@
+import { z } from "zod"
+import { type AssistanceTemplate, ASSISTANCE_TEMPLATES_COLLECTION } from "@/models/assistance-template"
+import {
+  getDb,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  timeRangePresetSchema,
+  toObjectId,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// An assistance template as stored in MongoDB
+export const assistanceTemplateDocumentSchema = z.object({
+  _id: objectIdSchema,
+  title: z.string(),
+  description: z.string().default(""),
+  assistanceTypeId: objectIdSchema,
+  gameId: optionalField(objectIdSchema),
+  additionalInfo: z.string().default(""),
+  imageUrl: optionalField(z.string()),
+  selectedDays: optionalField(z.array(z.string())),
+  timeRangePreset: optionalField(timeRangePresetSchema),
+  startTime: optionalField(z.string()),
+  endTime: optionalField(z.string()),
+  slots: optionalField(z.number().int().min(1)),
+  isActive: z.boolean().default(true),
+  listOrder: z.number().default(0),
+  createdAt: z.coerce.date(),
+  updatedAt: optionalField(z.coerce.date()),
+})
+
+export type AssistanceTemplateDocument = z.output<typeof assistanceTemplateDocumentSchema>
+
+const newAssistanceTemplateDocumentSchema = assistanceTemplateDocumentSchema.omit({ _id: true })
+const assistanceTemplateChangesSchema = newAssistanceTemplateDocumentSchema.partial()
+
+// Fields for a new document, ids may be given as strings
+export type NewAssistanceTemplate = z.input<typeof newAssistanceTemplateDocumentSchema>
+export type AssistanceTemplateDocumentChanges = z.input<typeof assistanceTemplateChangesSchema>
+
+// Template fields edited from the admin form
+export const assistanceTemplateInputSchema = z.object({
+  title: z.string().trim().min(1, "Title, assistance type, and additional info are required"),
+  description: z.string().default(""),
+  assistanceTypeId: z.string().min(1, "Title, assistance type, and additional info are required"),
+  additionalInfo: z.string().min(1, "Title, assistance type, and additional info are required"),
+  isActive: z.boolean(),
+})
+
+export type AssistanceTemplateInput = z.output<typeof assistanceTemplateInputSchema>
+
+export function toAssistanceTemplate(document: AssistanceTemplateDocument): AssistanceTemplate {
+  return {
+    ...document,
+    _id: document._id.toString(),
+    assistanceTypeId: document.assistanceTypeId.toString(),
+    gameId: document.gameId?.toString(),
+  }
+}
+
+function parse(document: unknown): AssistanceTemplate | null {
+  const parsed = parseDocument(assistanceTemplateDocumentSchema, document, ASSISTANCE_TEMPLATES_COLLECTION)
+  return parsed ? toAssistanceTemplate(parsed) : null
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<AssistanceTemplateDocument>(ASSISTANCE_TEMPLATES_COLLECTION)
+}
+
+// Templates in list order, optionally only the active ones or those for one game
+export async function findAssistanceTemplates({
+  activeOnly = false,
+  gameId,
+}: { activeOnly?: boolean; gameId?: string } = {}): Promise<AssistanceTemplate[]> {
+  const gameObjectId = toObjectId(gameId)
+  if (gameId && !gameObjectId) return []
+
+  const collection = await getCollection()
+  const documents = await collection
+    .find({ ...(activeOnly ? { isActive: true } : {}), ...(gameObjectId ? { gameId: gameObjectId } : {}) })
+    .sort({ listOrder: 1 })
+    .toArray()
+
+  return parseDocuments(assistanceTemplateDocumentSchema, documents, ASSISTANCE_TEMPLATES_COLLECTION).map(
+    toAssistanceTemplate,
+  )
+}
+
+// Every image URL used by a template, read without schema parsing so a malformed template still counts
+export async function findAssistanceTemplateImageUrls(): Promise<string[]> {
+  const collection = await getCollection()
+  const urls = await collection.distinct("imageUrl")
+  return urls.filter((url): url is string => typeof url === "string" && url !== "")
+}
+
+export async function findAssistanceTemplateById(id: string): Promise<AssistanceTemplate | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOne({ _id: objectId })
+  return document ? parse(document) : null
+}
+
+// The list order for a new template, after all existing ones
+export async function getNextTemplateListOrder(): Promise<number> {
+  const collection = await getCollection()
+  const last = await collection.find({}).sort({ listOrder: -1 }).limit(1).toArray()
+  return last.length > 0 ? last[0].listOrder + 1 : 1
+}
+
+export async function insertAssistanceTemplate(template: NewAssistanceTemplate): Promise<AssistanceTemplate> {
+  const document = withoutUndefined(newAssistanceTemplateDocumentSchema.parse(template))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as AssistanceTemplateDocument)
+
+  return toAssistanceTemplate({ ...document, _id: result.insertedId })
+}
+
+/**
+ * Sets fields on an assistance template.
+ * @param id The template id
+ * @param changes The fields to set
+ * @returns The template before the update, or null if it does not exist
+ */
+export async function updateAssistanceTemplateById(
+  id: string,
+  changes: AssistanceTemplateDocumentChanges,
+): Promise<AssistanceTemplate | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const before = await collection.findOneAndUpdate(
+    { _id: objectId },
+    { $set: withoutUndefined(assistanceTemplateChangesSchema.parse(changes)) },
+  )
+  return before ? parse(before) : null
+}
+
+// Moves the templates of an assistance type to the game the type now belongs to
+export async function updateTemplatesGameForType(assistanceTypeId: string, gameId: string): Promise<number> {
+  const typeObjectId = toObjectId(assistanceTypeId)
+  const gameObjectId = toObjectId(gameId)
+  if (!typeObjectId || !gameObjectId) return 0
+
+  const collection = await getCollection()
+  const result = await collection.updateMany({ assistanceTypeId: typeObjectId }, { $set: { gameId: gameObjectId } })
+  return result.modifiedCount
+}
+
+// Deletes a template and returns it, or null if it does not exist
+export async function deleteAssistanceTemplateById(id: string): Promise<AssistanceTemplate | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const deleted = await collection.findOneAndDelete({ _id: objectId })
+  return deleted ? parse(deleted) : null
+}
@@ -0,0 +1,89 @@
+import { z } from "zod"
+import { type AssistanceType, ASSISTANCE_TYPES_COLLECTION } from "@/models/assistance"
+import {
+  getDb,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  toObjectId,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// An assistance type as stored in MongoDB
+export const assistanceTypeDocumentSchema = z.object({
+  _id: objectIdSchema,
+  gameId: optionalField(objectIdSchema),
+  name: z.string(),
+  description: optionalField(z.string()),
+  icon: optionalField(z.string()),
+  isActive: z.boolean().default(true),
+  listOrder: z.number().default(0),
+  allowPhotoUpload: z.boolean().default(false),
+  allowSchedule: z.boolean().default(true),
+  maxSlotsPerWindow: z.number().int().min(0).default(0),
+})
+
+export type AssistanceTypeDocument = z.output<typeof assistanceTypeDocumentSchema>
+
+const assistanceTypeChangesSchema = assistanceTypeDocumentSchema.omit({ _id: true }).partial()
+
+export type AssistanceTypeDocumentChanges = z.input<typeof assistanceTypeChangesSchema>
+
+export function toAssistanceType(document: AssistanceTypeDocument): AssistanceType {
+  return { ...document, _id: document._id.toString(), gameId: document.gameId?.toString() }
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<AssistanceTypeDocument>(ASSISTANCE_TYPES_COLLECTION)
+}
+
+// Assistance types in list order, optionally only the active ones or those for one game
+export async function findAssistanceTypes({
+  activeOnly = false,
+  gameId,
+}: { activeOnly?: boolean; gameId?: string } = {}): Promise<AssistanceType[]> {
+  const gameObjectId = toObjectId(gameId)
+  if (gameId && !gameObjectId) return []
+
+  const collection = await getCollection()
+  const documents = await collection
+    .find({ ...(activeOnly ? { isActive: true } : {}), ...(gameObjectId ? { gameId: gameObjectId } : {}) })
+    .sort({ listOrder: 1 })
+    .toArray()
+
+  return parseDocuments(assistanceTypeDocumentSchema, documents, ASSISTANCE_TYPES_COLLECTION).map(toAssistanceType)
+}
+
+export async function findAssistanceTypeById(id: string): Promise<AssistanceType | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOne({ _id: objectId })
+  const parsed = document ? parseDocument(assistanceTypeDocumentSchema, document, ASSISTANCE_TYPES_COLLECTION) : null
+  return parsed ? toAssistanceType(parsed) : null
+}
+
+/**
+ * Sets fields on an assistance type.
+ * @param id The assistance type id
+ * @param changes The fields to set
+ * @returns The assistance type before the update, or null if it does not exist
+ */
+export async function updateAssistanceTypeById(
+  id: string,
+  changes: AssistanceTypeDocumentChanges,
+): Promise<AssistanceType | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const before = await collection.findOneAndUpdate(
+    { _id: objectId },
+    { $set: withoutUndefined(assistanceTypeChangesSchema.parse(changes)) },
+  )
+  const parsed = before ? parseDocument(assistanceTypeDocumentSchema, before, ASSISTANCE_TYPES_COLLECTION) : null
+  return parsed ? toAssistanceType(parsed) : null
+}
@@ -0,0 +1,127 @@
+import type { Filter } from "mongodb"
+import { z } from "zod"
+import { type Blackout, BLACKOUTS_COLLECTION } from "@/models/blackout"
+import {
+  getDb,
+  isObjectIdString,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  toObjectId,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// A blackout as stored in MongoDB
+export const blackoutDocumentSchema = z.object({
+  _id: objectIdSchema,
+  assistanceTypeId: optionalField(objectIdSchema),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string(),
+  createdBy: optionalField(z.string()),
+  createdAt: z.coerce.date(),
+  updatedAt: optionalField(z.coerce.date()),
+})
+
+export type BlackoutDocument = z.output<typeof blackoutDocumentSchema>
+
+const newBlackoutDocumentSchema = blackoutDocumentSchema.omit({ _id: true })
+const blackoutChangesSchema = newBlackoutDocumentSchema.partial()
+
+// Fields for a new document, ids may be given as strings
+export type NewBlackout = z.input<typeof newBlackoutDocumentSchema>
+export type BlackoutDocumentChanges = z.input<typeof blackoutChangesSchema>
+
+// Blackout fields edited from the admin form, an empty assistance type blocks every type
+export const blackoutInputSchema = z
+  .object({
+    assistanceTypeId: z
+      .string()
+      .trim()
+      .default("")
+      .refine((id) => id === "" || isObjectIdString(id), "Invalid assistance type ID"),
+    startsAt: z.coerce.date({ errorMap: () => ({ message: "Please enter when the blackout starts" }) }),
+    endsAt: z.coerce.date({ errorMap: () => ({ message: "Please enter when the blackout ends" }) }),
+    reason: z.string().trim().min(1, "Reason is required").max(200, "Reason must be 200 characters or less"),
+  })
+  .refine((input) => input.endsAt > input.startsAt, { message: "The blackout must end after it starts" })
+
+export type BlackoutInput = z.output<typeof blackoutInputSchema>
+
+export function toBlackout(document: BlackoutDocument): Blackout {
+  const { _id, assistanceTypeId, ...fields } = document
+
+  return {
+    ...fields,
+    _id: _id.toString(),
+    ...(assistanceTypeId ? { assistanceTypeId: assistanceTypeId.toString() } : {}),
+  }
+}
+
+function parse(document: unknown): Blackout | null {
+  const parsed = parseDocument(blackoutDocumentSchema, document, BLACKOUTS_COLLECTION)
+  return parsed ? toBlackout(parsed) : null
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<BlackoutDocument>(BLACKOUTS_COLLECTION)
+}
+
+/**
+ * Blackouts in start order.
+ * @param endingAfter Leave out blackouts that ended before this moment
+ * @param assistanceTypeId Only blackouts that block this assistance type, including those blocking every type
+ */
+export async function findBlackouts({
+  endingAfter,
+  assistanceTypeId,
+}: { endingAfter?: Date; assistanceTypeId?: string } = {}): Promise<Blackout[]> {
+  const filter: Filter<BlackoutDocument> = endingAfter ? { endsAt: { $gt: endingAfter } } : {}
+
+  const typeId = assistanceTypeId ? toObjectId(assistanceTypeId) : null
+  if (typeId) {
+    filter.$or = [{ assistanceTypeId: { $exists: false } }, { assistanceTypeId: typeId }]
+  }
+
+  const collection = await getCollection()
+  const documents = await collection.find(filter).sort({ startsAt: 1 }).toArray()
+  return parseDocuments(blackoutDocumentSchema, documents, BLACKOUTS_COLLECTION).map(toBlackout)
+}
+
+export async function insertBlackout(blackout: NewBlackout): Promise<Blackout> {
+  const document = withoutUndefined(newBlackoutDocumentSchema.parse(blackout))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as BlackoutDocument)
+
+  return toBlackout({ ...document, _id: result.insertedId })
+}
+
+/**
+ * Replaces a blackout's period, reason and assistance type.
+ * @param changes The fields to set, an unset assistanceTypeId makes the blackout apply to every type
+ * @returns The blackout before the update, or null if it does not exist
+ */
+export async function updateBlackoutById(id: string, changes: BlackoutDocumentChanges): Promise<Blackout | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const { assistanceTypeId, ...fields } = withoutUndefined(blackoutChangesSchema.parse(changes))
+  const collection = await getCollection()
+  const before = await collection.findOneAndUpdate(
+    { _id: objectId },
+    assistanceTypeId ? { $set: { ...fields, assistanceTypeId } } : { $set: fields, $unset: { assistanceTypeId: "" } },
+  )
+  return before ? parse(before) : null
+}
+
+// Deletes a blackout, returning it for the audit log, or null if it does not exist
+export async function deleteBlackoutById(id: string): Promise<Blackout | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOneAndDelete({ _id: objectId })
+  return document ? parse(document) : null
+}
@@ -0,0 +1,640 @@
+import type { Filter, ObjectId } from "mongodb"
+import { z } from "zod"
+import {
+  CAPACITY_STATUSES,
+  getScheduleUsage,
+  getSlotCapacity,
+  type ScheduleAvailability,
+  type ScheduledSlots,
+} from "@/lib/booking-capacity"
+import { isValidTimeZone, SERVER_TIME_ZONE } from "@/lib/schedule-time-zone"
+import {
+  type AssistanceType,
+  type Booking,
+  type BookingStatus,
+  ACTIVE_BOOKING_STATUSES,
+  BOOKINGS_COLLECTION,
+  UNASSIGNED_FILTER,
+} from "@/models/assistance"
+import {
+  getDb,
+  isObjectIdString,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  timeRangePresetSchema,
+  toObjectId,
+  toObjectIds,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+export const bookingStatusSchema = z.enum([
+  "waitlisted",
+  "pending",
+  "confirmed",
+  "in_progress",
+  "on_hold",
+  "completed",
+  "cancelled",
+])
+
+export const bookingStatusChangeSchema = z.object({
+  from: optionalField(bookingStatusSchema),
+  to: bookingStatusSchema,
+  actorType: z.enum(["staff", "customer", "system"]),
+  actor: z.string(),
+  reason: optionalField(z.string()),
+  changedAt: z.coerce.date(),
+})
+
+// A booking as stored in MongoDB
+export const bookingDocumentSchema = z.object({
+  _id: objectIdSchema,
+  requestNumber: z.string(),
+  characterId: z.string(),
+  contactInfo: z.string(),
+  assistanceTypeId: objectIdSchema,
+  assistanceTypeName: optionalField(z.string()),
+  additionalInfo: z.string().default(""),
+  photoUrls: optionalField(z.array(z.string())),
+  selectedDays: z.array(z.string()).default([]),
+  timeRangePreset: timeRangePresetSchema.default("early"),
+  startTime: optionalField(z.string()),
+  endTime: optionalField(z.string()),
+  slots: z.number().int().min(1).default(1),
+  willingToDonate: z.enum(["yes", "no"]).default("no"),
+  timeZone: optionalField(z.string()),
+  status: bookingStatusSchema,
+  statusHistory: z.array(bookingStatusChangeSchema).default([]),
+  editTokenHash: optionalField(z.string()),
+  customerId: optionalField(z.string()),
+  assignedTo: optionalField(objectIdSchema),
+  version: z.number().int().min(0).default(0),
+  createdAt: z.coerce.date(),
+  updatedAt: optionalField(z.coerce.date()),
+})
+
+export type BookingDocument = z.output<typeof bookingDocumentSchema>
+
+const newBookingDocumentSchema = bookingDocumentSchema.omit({ _id: true })
+// Status changes go through updateBookingStatus so every one is checked and recorded in the history,
+// and the version is only ever incremented by the writes below
+const bookingDocumentChangesSchema = newBookingDocumentSchema
+  .omit({ status: true, statusHistory: true, version: true })
+  .partial()
+
+// Fields for a new document, ids may be given as strings
+export type NewBooking = z.input<typeof newBookingDocumentSchema>
+export type BookingDocumentChanges = z.input<typeof bookingDocumentChangesSchema>
+
+// Fields a customer may change on their own booking, anything else sent by the browser is dropped
+export const bookingChangesSchema = z
+  .object({
+    characterId: z.string().trim().regex(/^\d+$/, "Character ID must contain only numbers"),
+    contactInfo: z.string().trim().min(1, "Contact information is required"),
+    assistanceTypeId: z.string().refine(isObjectIdString, "Invalid assistance type ID"),
+    additionalInfo: z.string().trim().min(1, "Additional information is required"),
+    photoUrls: z.array(z.string()),
+    selectedDays: z.array(z.string()),
+    timeRangePreset: timeRangePresetSchema,
+    startTime: z.string(),
+    endTime: z.string(),
+    slots: z.number().int().min(1),
+    willingToDonate: z.enum(["yes", "no"]),
+    // Zone the edited schedule was picked in, schedules sent without one are taken as server time
+    timeZone: z.string().refine(isValidTimeZone, "Invalid time zone"),
+  })
+  .partial()
+
+export type BookingChanges = z.output<typeof bookingChangesSchema>
+
+// A new booking as submitted from the booking wizard
+export const bookingInputSchema = z.object({
+  characterId: z
+    .string()
+    .trim()
+    .min(1, "Character ID is required")
+    .regex(/^\d+$/, "Character ID must contain only numbers"),
+  contactInfo: z.string().trim().min(1, "Contact information is required"),
+  assistanceTypeId: z
+    .string()
+    .trim()
+    .min(1, "Please select an assistance type")
+    .refine(isObjectIdString, "Invalid assistance type selected"),
+  additionalInfo: z.string().trim().min(1, "Additional information is required"),
+  photoUrls: z.array(z.string()).default([]),
+  selectedDays: z.array(z.string()).default([]),
+  timeRangePreset: timeRangePresetSchema.default("early"),
+  startTime: z.string().default(""),
+  endTime: z.string().default(""),
+  slots: z.number().int().min(1).catch(1),
+  willingToDonate: z.enum(["yes", "no"]).catch("no"),
+  // Zone the schedule was picked in, bookings from browsers that don't report a valid one are taken as server time
+  timeZone: z.string().refine(isValidTimeZone).catch(SERVER_TIME_ZONE),
+})
+
+export type BookingInput = z.output<typeof bookingInputSchema>
+
+// Converts a stored booking to the plain shape sent to the browser, leaving out the edit token hash
+export function toBooking(document: BookingDocument): Booking {
+  const { _id, assistanceTypeId, assignedTo, editTokenHash, ...fields } = document
+
+  return {
+    ...fields,
+    _id: _id.toString(),
+    assistanceTypeId: assistanceTypeId.toString(),
+    ...(assignedTo ? { assignedTo: assignedTo.toString() } : {}),
+  }
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<BookingDocument>(BOOKINGS_COLLECTION)
+}
+
+async function findMany(filter: Filter<BookingDocument>): Promise<Booking[]> {
+  const collection = await getCollection()
+  const documents = await collection.find(filter).sort({ createdAt: -1 }).toArray()
+  return parseDocuments(bookingDocumentSchema, documents, BOOKINGS_COLLECTION).map(toBooking)
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// A staff user id, or UNASSIGNED_FILTER for bookings nobody has picked up
+const assigneeFilterSchema = z.union([
+  z.literal(UNASSIGNED_FILTER),
+  z.string().refine(isObjectIdString, "Invalid staff member ID"),
+])
+
+// The value has been checked by assigneeFilterSchema
+function assigneeFilter(assignedTo: string): Filter<BookingDocument> {
+  const staffId = assignedTo === UNASSIGNED_FILTER ? null : toObjectId(assignedTo)
+  return staffId ? { assignedTo: staffId } : { assignedTo: { $exists: false } }
+}
+
+// Filters, sort and page for the admin request list
+export const bookingQuerySchema = z.object({
+  status: bookingStatusSchema.optional(),
+  typeId: z.string().refine(isObjectIdString, "Invalid assistance type ID").optional(),
+  assignedTo: assigneeFilterSchema.optional(),
+  search: z.string().trim().max(100).optional(),
+  dateRange: z
+    .object({
+      from: z.string().regex(DATE_PATTERN).optional(), // yyyy-MM-dd, inclusive
+      to: z.string().regex(DATE_PATTERN).optional(), // yyyy-MM-dd, inclusive
+    })
+    .optional(),
+  sort: z.enum(["newest", "oldest"]).default("newest"),
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(25),
+})
+
+export type BookingQuery = z.input<typeof bookingQuerySchema>
+
+export interface BookingPage {
+  bookings: Booking[]
+  nextCursor: string | null // Pass back as cursor for the next page, null on the last page
+  totalCount: number // Bookings matching the filters across all pages
+  waitlistPositions: Record<string, number> // Queue positions of the waitlisted bookings on the page, by id
+}
+
+// Cursors point just after the last booking of a page by its creation time, with the id breaking ties
+function encodeCursor(document: { createdAt: Date; _id: ObjectId }): string {
+  return Buffer.from(`${new Date(document.createdAt).getTime()}_${document._id.toHexString()}`).toString("base64url")
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: ObjectId } | null {
+  const [time, id] = Buffer.from(cursor, "base64url").toString().split("_")
+  const createdAt = new Date(Number(time))
+  const objectId = toObjectId(id)
+  return objectId && !Number.isNaN(createdAt.getTime()) ? { createdAt, id: objectId } : null
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * One page of bookings matching the filters, served by the createdAt indexes in lib/repositories/indexes.ts.
+ * @param query Validated with bookingQuerySchema, an invalid cursor restarts from the first page
+ */
+export async function queryBookings(query: z.output<typeof bookingQuerySchema>): Promise<BookingPage> {
+  const filter: Filter<BookingDocument> = query.assignedTo ? assigneeFilter(query.assignedTo) : {}
+
+  if (query.status) {
+    filter.status = query.status
+  }
+
+  const typeId = query.typeId ? toObjectId(query.typeId) : null
+  if (typeId) {
+    filter.assistanceTypeId = typeId
+  }
+
+  if (query.dateRange?.from || query.dateRange?.to) {
+    filter.createdAt = {
+      ...(query.dateRange.from ? { $gte: new Date(`${query.dateRange.from}T00:00:00`) } : {}),
+      ...(query.dateRange.to ? { $lte: new Date(`${query.dateRange.to}T23:59:59.999`) } : {}),
+    }
+  }
+
+  if (query.search) {
+    const pattern = new RegExp(escapeRegex(query.search), "i")
+    filter.$or = [
+      { requestNumber: pattern },
+      { characterId: pattern },
+      { contactInfo: pattern },
+      { assistanceTypeName: pattern },
+    ]
+  }
+
+  const collection = await getCollection()
+  const totalCount = await collection.countDocuments(filter)
+
+  const direction = query.sort === "oldest" ? 1 : -1
+  const after = query.cursor ? decodeCursor(query.cursor) : null
+  const pageFilter: Filter<BookingDocument> = after
+    ? {
+        $and: [
+          filter,
+          {
+            $or: [
+              { createdAt: direction === 1 ? { $gt: after.createdAt } : { $lt: after.createdAt } },
+              { createdAt: after.createdAt, _id: direction === 1 ? { $gt: after.id } : { $lt: after.id } },
+            ],
+          },
+        ],
+      }
+    : filter
+
+  // Fetch one extra to know whether there is another page
+  const documents = await collection
+    .find(pageFilter)
+    .sort({ createdAt: direction, _id: direction })
+    .limit(query.limit + 1)
+    .toArray()
+  const page = documents.slice(0, query.limit)
+  // The cursor comes from the raw documents, so one that fails to parse doesn't shift the next page
+  const last = documents.length > query.limit ? page[page.length - 1] : undefined
+
+  const bookings = parseDocuments(bookingDocumentSchema, page, BOOKINGS_COLLECTION).map(toBooking)
+  const waitlisted = bookings.filter((booking) => booking.status === "waitlisted")
+  const positions = await Promise.all(waitlisted.map(findWaitlistPosition))
+
+  return {
+    bookings,
+    nextCursor: last ? encodeCursor(last) : null,
+    totalCount,
+    waitlistPositions: Object.fromEntries(waitlisted.map((booking, index) => [booking._id, positions[index]])),
+  }
+}
+
+// Filters for the admin calendar
+export const calendarQuerySchema = z.object({
+  statuses: z.array(bookingStatusSchema).min(1).default(CAPACITY_STATUSES),
+  typeId: z.string().refine(isObjectIdString, "Invalid assistance type ID").optional(),
+  assignedTo: assigneeFilterSchema.optional(),
+  createdBefore: z.coerce.date().optional(),
+})
+
+export type CalendarQuery = z.input<typeof calendarQuerySchema>
+
+/**
+ * Bookings with a schedule, for laying out on the admin calendar.
+ * @param query The statuses to include, an optional assistance type and assignee, and a cut-off for bookings made later
+ */
+export async function findCalendarBookings(query: z.output<typeof calendarQuerySchema>): Promise<Booking[]> {
+  const filter: Filter<BookingDocument> = {
+    ...(query.assignedTo ? assigneeFilter(query.assignedTo) : {}),
+    status: { $in: query.statuses },
+    "selectedDays.0": { $exists: true },
+  }
+
+  const typeId = query.typeId ? toObjectId(query.typeId) : null
+  if (typeId) {
+    filter.assistanceTypeId = typeId
+  }
+  if (query.createdBefore) {
+    filter.createdAt = { $lt: query.createdBefore }
+  }
+
+  return findMany(filter)
+}
+
+export async function findBookingsByIds(ids: string[]): Promise<Booking[]> {
+  const objectIds = toObjectIds(ids)
+  if (objectIds.length === 0) return []
+
+  return findMany({ _id: { $in: objectIds } })
+}
+
+export async function findBookingsByCustomer(customerId: string): Promise<Booking[]> {
+  return findMany({ customerId })
+}
+
+/**
+ * Looks up a single booking by its exact request number, for customers finding their request without a link.
+ * @param characterId When given, the booking must also belong to this character
+ */
+export async function findBookingByRequestNumber(requestNumber: string, characterId?: string): Promise<Booking | null> {
+  const collection = await getCollection()
+  const document = await collection.findOne({ requestNumber, ...(characterId ? { characterId } : {}) })
+  const booking = document ? parseDocument(bookingDocumentSchema, document, BOOKINGS_COLLECTION) : null
+  return booking ? toBooking(booking) : null
+}
+
+// Whether the character already has an active booking for the assistance type, see ACTIVE_BOOKING_INDEX
+export async function hasActiveBooking(characterId: string, assistanceTypeId: string): Promise<boolean> {
+  const objectId = toObjectId(assistanceTypeId)
+  if (!objectId) return false
+
+  const collection = await getCollection()
+  const booking = await collection.findOne(
+    { characterId, assistanceTypeId: objectId, status: { $in: ACTIVE_BOOKING_STATUSES } },
+    { projection: { _id: 1 } },
+  )
+  return !!booking
+}
+
+// An assistance type's waitlist in queue order, the earliest booked first
+export async function findWaitlistedBookings(assistanceTypeId: string): Promise<Booking[]> {
+  const objectId = toObjectId(assistanceTypeId)
+  if (!objectId) return []
+
+  const collection = await getCollection()
+  const documents = await collection
+    .find({ assistanceTypeId: objectId, status: "waitlisted" })
+    .sort({ createdAt: 1, _id: 1 })
+    .toArray()
+  return parseDocuments(bookingDocumentSchema, documents, BOOKINGS_COLLECTION).map(toBooking)
+}
+
+// A waitlisted booking's place in its assistance type's queue, starting at 1
+export async function findWaitlistPosition(booking: Booking): Promise<number> {
+  const id = toObjectId(booking._id)
+  const typeId = toObjectId(booking.assistanceTypeId)
+  if (!id || !typeId) return 1
+
+  const createdAt = new Date(booking.createdAt)
+  const collection = await getCollection()
+  const ahead = await collection.countDocuments({
+    assistanceTypeId: typeId,
+    status: "waitlisted",
+    $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: id } }],
+  })
+  return ahead + 1
+}
+
+const scheduledSlotsSchema = bookingDocumentSchema.pick({
+  selectedDays: true,
+  timeRangePreset: true,
+  startTime: true,
+  endTime: true,
+  slots: true,
+})
+
+/**
+ * The schedules of the bookings holding slots for an assistance type, for capacity checks.
+ * @param excludeId A booking to leave out, so an edit isn't counted against itself
+ */
+export async function findScheduledSlots(assistanceTypeId: string, excludeId?: string): Promise<ScheduledSlots[]> {
+  const typeObjectId = toObjectId(assistanceTypeId)
+  if (!typeObjectId) return []
+
+  const excludeObjectId = toObjectId(excludeId)
+  const collection = await getCollection()
+  const documents = await collection
+    .find(
+      {
+        assistanceTypeId: typeObjectId,
+        status: { $in: CAPACITY_STATUSES },
+        ...(excludeObjectId ? { _id: { $ne: excludeObjectId } } : {}),
+      },
+      { projection: { selectedDays: 1, timeRangePreset: 1, startTime: 1, endTime: 1, slots: 1 } },
+    )
+    .toArray()
+
+  return parseDocuments(scheduledSlotsSchema, documents, BOOKINGS_COLLECTION)
+}
+
+// The slot limit of an assistance type with the slots already taken, see findScheduledSlots
+export async function findScheduleAvailability(
+  assistanceType: AssistanceType,
+  excludeId?: string,
+): Promise<ScheduleAvailability> {
+  const capacity = getSlotCapacity(assistanceType)
+  if (capacity <= 0 || !assistanceType._id) return { capacity: 0, usage: {} }
+
+  return { capacity, usage: getScheduleUsage(await findScheduledSlots(assistanceType._id, excludeId)) }
+}
+
+export async function findBookingById(id: string): Promise<Booking | null> {
+  const document = await findBookingDocument(id)
+  return document ? toBooking(document) : null
+}
+
+// The stored booking including its edit token hash, for ownership checks on the server only
+export async function findBookingDocument(id: string): Promise<BookingDocument | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOne({ _id: objectId })
+  return document ? parseDocument(bookingDocumentSchema, document, BOOKINGS_COLLECTION) : null
+}
+
+export async function findBookingDocuments(ids: string[]): Promise<BookingDocument[]> {
+  const objectIds = toObjectIds(ids)
+  if (objectIds.length === 0) return []
+
+  const collection = await getCollection()
+  const documents = await collection.find({ _id: { $in: objectIds } }).toArray()
+  return parseDocuments(bookingDocumentSchema, documents, BOOKINGS_COLLECTION)
+}
+
+// Every photo URL used by any booking. Read without schema parsing so a malformed booking still counts.
+export async function findBookingPhotoUrls(): Promise<string[]> {
+  const collection = await getCollection()
+  const urls = await collection.distinct("photoUrls")
+  return urls.filter((url): url is string => typeof url === "string")
+}
+
+/**
+ * Stores a new booking.
+ * Throws a duplicate key error for the ACTIVE_BOOKING_INDEX when the character already has an active booking
+ * for the assistance type, see isDuplicateKeyError.
+ */
+export async function insertBooking(booking: NewBooking): Promise<Booking> {
+  const document = withoutUndefined(newBookingDocumentSchema.parse(booking))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as BookingDocument)
+
+  return toBooking({ ...document, _id: result.insertedId })
+}
+
+// Bookings stored before versioning have no version field and count as version 0
+function versionFilter(version: number): Filter<BookingDocument> {
+  return version === 0 ? { $or: [{ version: 0 }, { version: { $exists: false } }] } : { version }
+}
+
+/**
+ * Applies validated changes to a booking.
+ * @param id The booking id
+ * @param changes Stored fields to set, with assistanceTypeId already converted to an ObjectId
+ * @param expectedVersion The version the changes were made against, the update is skipped if it has moved on
+ * @returns The booking after the update, or null if it does not exist or is no longer at the expected version
+ */
+export async function updateBookingById(
+  id: string,
+  changes: BookingDocumentChanges,
+  expectedVersion?: number,
+): Promise<Booking | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOneAndUpdate(
+    expectedVersion === undefined ? { _id: objectId } : { _id: objectId, ...versionFilter(expectedVersion) },
+    {
+      $set: { ...withoutUndefined(bookingDocumentChangesSchema.parse(changes)), updatedAt: new Date() },
+      $inc: { version: 1 },
+    },
+    { returnDocument: "after" },
+  )
+
+  const parsed = document ? parseDocument(bookingDocumentSchema, document, BOOKINGS_COLLECTION) : null
+  return parsed ? toBooking(parsed) : null
+}
+
+/**
+ * Moves a booking to a new status and appends the change to its history.
+ * The update only applies while the booking is still in the status the caller checked the transition from,
+ * so two concurrent changes can't both pass the transition rules.
+ * @param id The booking id
+ * @param change The transition, its from status is the status the booking is expected to be in
+ * @returns The booking after the update, or null if it does not exist or its status has changed since
+ */
+export async function updateBookingStatus(
+  id: string,
+  change: Omit<z.input<typeof bookingStatusChangeSchema>, "changedAt"> & { from: Booking["status"] },
+): Promise<Booking | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const now = new Date()
+  const entry = withoutUndefined(bookingStatusChangeSchema.parse({ ...change, changedAt: now }))
+  const collection = await getCollection()
+  const document = await collection.findOneAndUpdate(
+    { _id: objectId, status: change.from },
+    { $set: { status: change.to, updatedAt: now }, $push: { statusHistory: entry }, $inc: { version: 1 } },
+    { returnDocument: "after" },
+  )
+
+  const parsed = document ? parseDocument(bookingDocumentSchema, document, BOOKINGS_COLLECTION) : null
+  return parsed ? toBooking(parsed) : null
+}
+
+// Links guest bookings to a customer account, skipping any that already belong to one
+export async function linkBookingsToCustomer(ids: string[], customerId: string): Promise<number> {
+  const objectIds = toObjectIds(ids)
+  if (objectIds.length === 0) return 0
+
+  const collection = await getCollection()
+  const result = await collection.updateMany(
+    { _id: { $in: objectIds }, customerId: { $exists: false } },
+    { $set: { customerId, updatedAt: new Date() }, $inc: { version: 1 } },
+  )
+  return result.modifiedCount
+}
+
+/**
+ * Hands bookings to a staff member, or back to the shared queue.
+ * @param staffId The staff user id, null to unassign
+ * @returns The number of bookings whose assignee changed
+ */
+export async function assignBookings(ids: string[], staffId: string | null): Promise<number> {
+  const objectIds = toObjectIds(ids)
+  const staffObjectId = staffId ? toObjectId(staffId) : null
+  if (objectIds.length === 0 || (staffId && !staffObjectId)) return 0
+
+  const collection = await getCollection()
+  const result = staffObjectId
+    ? await collection.updateMany(
+        { _id: { $in: objectIds }, assignedTo: { $ne: staffObjectId } },
+        { $set: { assignedTo: staffObjectId, updatedAt: new Date() }, $inc: { version: 1 } },
+      )
+    : await collection.updateMany(
+        { _id: { $in: objectIds }, assignedTo: { $exists: true } },
+        { $unset: { assignedTo: "" }, $set: { updatedAt: new Date() }, $inc: { version: 1 } },
+      )
+  return result.modifiedCount
+}
+
+// Returns a removed staff member's bookings to the shared queue
+export async function unassignBookingsFrom(staffId: string): Promise<number> {
+  const staffObjectId = toObjectId(staffId)
+  if (!staffObjectId) return 0
+
+  const collection = await getCollection()
+  const result = await collection.updateMany(
+    { assignedTo: staffObjectId },
+    { $unset: { assignedTo: "" }, $set: { updatedAt: new Date() }, $inc: { version: 1 } },
+  )
+  return result.modifiedCount
+}
+
+export interface AssigneeWorkload {
+  assignedTo: string | null // Staff user id, null for open bookings nobody has picked up
+  counts: Partial<Record<BookingStatus, number>>
+  total: number
+}
+
+// Open bookings per assignee, counting the statuses that still hold slots, busiest first
+export async function findAssigneeWorkload(): Promise<AssigneeWorkload[]> {
+  const collection = await getCollection()
+  const rows = await collection
+    .aggregate<{ _id: { assignedTo?: ObjectId; status: BookingStatus }; count: number }>([
+      { $match: { status: { $in: CAPACITY_STATUSES } } },
+      { $group: { _id: { assignedTo: "$assignedTo", status: "$status" }, count: { $sum: 1 } } },
+    ])
+    .toArray()
+
+  const workloads = new Map<string | null, AssigneeWorkload>()
+  for (const { _id, count } of rows) {
+    const assignedTo = _id.assignedTo ? _id.assignedTo.toString() : null
+    const workload = workloads.get(assignedTo) ?? { assignedTo, counts: {}, total: 0 }
+    workload.counts[_id.status] = (workload.counts[_id.status] ?? 0) + count
+    workload.total += count
+    workloads.set(assignedTo, workload)
+  }
+
+  return [...workloads.values()].sort((a, b) => b.total - a.total)
+}
+
+/**
+ * Deletes a booking.
+ * @param status Only delete it while it is still in this status
+ */
+export async function deleteBookingById(id: string, status?: BookingStatus): Promise<boolean> {
+  const objectId = toObjectId(id)
+  if (!objectId) return false
+
+  const collection = await getCollection()
+  const result = await collection.deleteOne({ _id: objectId, ...(status ? { status } : {}) })
+  return result.deletedCount > 0
+}
+
+// Deletes bookings one at a time, returning each as it was at the moment it was removed
+export async function deleteBookingsByIds(ids: string[]): Promise<Booking[]> {
+  const objectIds = toObjectIds(ids)
+  const collection = await getCollection()
+  const deleted: Booking[] = []
+
+  for (const objectId of objectIds) {
+    const document = await collection.findOneAndDelete({ _id: objectId })
+    const parsed = document ? parseDocument(bookingDocumentSchema, document, BOOKINGS_COLLECTION) : null
+    if (parsed) deleted.push(toBooking(parsed))
+  }
+
+  return deleted
+}
@@ -0,0 +1,85 @@
+import { z } from "zod"
+import { type Comment, COMMENTS_COLLECTION } from "@/models/comment"
+import {
+  getDb,
+  objectIdSchema,
+  optionalField,
+  parseDocuments,
+  toObjectId,
+  toObjectIds,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// A comment as stored in MongoDB
+export const commentDocumentSchema = z.object({
+  _id: objectIdSchema,
+  requestId: objectIdSchema,
+  content: z.string(),
+  createdAt: z.coerce.date(),
+  isAdmin: z.boolean(),
+  authorName: optionalField(z.string()),
+  isRead: z.boolean().default(false),
+})
+
+export type CommentDocument = z.output<typeof commentDocumentSchema>
+
+const newCommentDocumentSchema = commentDocumentSchema.omit({ _id: true })
+
+// Fields for a new document, ids may be given as strings
+export type NewComment = z.input<typeof newCommentDocumentSchema>
+
+export function toComment(document: CommentDocument): Comment {
+  return { ...document, _id: document._id.toString(), requestId: document.requestId.toString() }
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<CommentDocument>(COMMENTS_COLLECTION)
+}
+
+// Comments on a request, oldest first
+export async function findCommentsByRequest(requestId: string): Promise<Comment[]> {
+  const objectId = toObjectId(requestId)
+  if (!objectId) return []
+
+  const collection = await getCollection()
+  const documents = await collection.find({ requestId: objectId }).sort({ createdAt: 1 }).toArray()
+  return parseDocuments(commentDocumentSchema, documents, COMMENTS_COLLECTION).map(toComment)
+}
+
+export async function insertComment(comment: NewComment): Promise<Comment> {
+  const document = withoutUndefined(newCommentDocumentSchema.parse(comment))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as CommentDocument)
+
+  return toComment({ ...document, _id: result.insertedId })
+}
+
+/**
+ * Marks the comments written by one party on a request as read.
+ * @param requestId The request the comments belong to
+ * @param fromAdmin True to mark staff comments as read, false for customer comments
+ */
+export async function markCommentsRead(requestId: string, fromAdmin: boolean): Promise<void> {
+  const objectId = toObjectId(requestId)
+  if (!objectId) return
+
+  const collection = await getCollection()
+  await collection.updateMany({ requestId: objectId, isAdmin: fromAdmin, isRead: false }, { $set: { isRead: true } })
+}
+
+// Unread comments written by one party, counted per request id
+export async function countUnreadComments(requestIds: string[], fromAdmin: boolean): Promise<Record<string, number>> {
+  const objectIds = toObjectIds(requestIds)
+  if (objectIds.length === 0) return {}
+
+  const collection = await getCollection()
+  const groups = await collection
+    .aggregate<{ _id: CommentDocument["requestId"]; count: number }>([
+      { $match: { requestId: { $in: objectIds }, isAdmin: fromAdmin, isRead: false } },
+      { $group: { _id: "$requestId", count: { $sum: 1 } } },
+    ])
+    .toArray()
+
+  return Object.fromEntries(groups.map((group) => [group._id.toString(), group.count]))
+}
@@ -0,0 +1,16 @@
+import { getDb } from "@/lib/repositories/shared"
+import { type Counter, COUNTERS_COLLECTION } from "@/models/counter"
+
+// Returns the next value of a named sequence, starting at 1. Safe to call concurrently.
+export async function nextSequence(name: string): Promise<number> {
+  const db = await getDb()
+  const counter = await db
+    .collection<Counter>(COUNTERS_COLLECTION)
+    .findOneAndUpdate({ _id: name }, { $inc: { seq: 1 } }, { upsert: true, returnDocument: "after" })
+
+  if (!counter) {
+    throw new Error(`Failed to increment the ${name} counter`)
+  }
+
+  return counter.seq
+}
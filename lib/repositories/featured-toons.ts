@@ -0,0 +1,129 @@
+import { z } from "zod"
+import { type FeaturedToon, FEATURED_TOON_COLLECTION } from "@/models/featured-toon"
+import {
+  getDb,
+  isObjectIdString,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  toObjectId,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// A featured toon as stored in MongoDB
+export const featuredToonDocumentSchema = z.object({
+  _id: objectIdSchema,
+  gameId: optionalField(objectIdSchema),
+  characterClass: z.string(),
+  displayName: z.string(),
+  imageUrl: z.string().default(""),
+  description: optionalField(z.string()),
+  createdAt: optionalField(z.coerce.date()),
+  updatedAt: optionalField(z.coerce.date()),
+})
+
+export type FeaturedToonDocument = z.output<typeof featuredToonDocumentSchema>
+
+const newFeaturedToonDocumentSchema = featuredToonDocumentSchema.omit({ _id: true })
+const featuredToonChangesSchema = newFeaturedToonDocumentSchema.partial()
+
+// Fields for a new document, ids may be given as strings
+export type NewFeaturedToon = z.input<typeof newFeaturedToonDocumentSchema>
+export type FeaturedToonDocumentChanges = z.input<typeof featuredToonChangesSchema>
+
+// Featured toon fields edited from the admin form
+export const featuredToonInputSchema = z.object({
+  characterClass: z.string().trim().min(1, "Character class and display name are required"),
+  displayName: z.string().trim().min(1, "Character class and display name are required"),
+  description: z.string().default(""),
+  gameId: z.string().refine(isObjectIdString, "Select the game this toon belongs to"),
+})
+
+export function toFeaturedToon(document: FeaturedToonDocument): FeaturedToon {
+  return { ...document, _id: document._id.toString(), gameId: document.gameId?.toString() }
+}
+
+function parse(document: unknown): FeaturedToon | null {
+  const parsed = parseDocument(featuredToonDocumentSchema, document, FEATURED_TOON_COLLECTION)
+  return parsed ? toFeaturedToon(parsed) : null
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<FeaturedToonDocument>(FEATURED_TOON_COLLECTION)
+}
+
+// All featured toons, or those for one game, ordered by character class
+export async function findFeaturedToons({ gameId }: { gameId?: string } = {}): Promise<FeaturedToon[]> {
+  const gameObjectId = toObjectId(gameId)
+  if (gameId && !gameObjectId) return []
+
+  const collection = await getCollection()
+  const documents = await collection
+    .find(gameObjectId ? { gameId: gameObjectId } : {})
+    .sort({ characterClass: 1 })
+    .toArray()
+  return parseDocuments(featuredToonDocumentSchema, documents, FEATURED_TOON_COLLECTION).map(toFeaturedToon)
+}
+
+// Every image URL used by a featured toon, read without schema parsing so a malformed toon still counts
+export async function findFeaturedToonImageUrls(): Promise<string[]> {
+  const collection = await getCollection()
+  const urls = await collection.distinct("imageUrl")
+  return urls.filter((url): url is string => typeof url === "string" && url !== "")
+}
+
+export async function findFeaturedToonById(id: string): Promise<FeaturedToon | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOne({ _id: objectId })
+  return document ? parse(document) : null
+}
+
+export async function findFeaturedToonByClass(characterClass: string): Promise<FeaturedToon | null> {
+  const collection = await getCollection()
+  const document = await collection.findOne({ characterClass })
+  return document ? parse(document) : null
+}
+
+export async function insertFeaturedToon(toon: NewFeaturedToon): Promise<FeaturedToon> {
+  const document = withoutUndefined(newFeaturedToonDocumentSchema.parse(toon))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as FeaturedToonDocument)
+
+  return toFeaturedToon({ ...document, _id: result.insertedId })
+}
+
+/**
+ * Sets fields on a featured toon.
+ * @param id The featured toon id
+ * @param changes The fields to set
+ * @returns The featured toon before the update, or null if it does not exist
+ */
+export async function updateFeaturedToonById(
+  id: string,
+  changes: FeaturedToonDocumentChanges,
+): Promise<FeaturedToon | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const before = await collection.findOneAndUpdate(
+    { _id: objectId },
+    { $set: withoutUndefined(featuredToonChangesSchema.parse(changes)) },
+  )
+  return before ? parse(before) : null
+}
+
+// Deletes a featured toon and returns it, or null if it does not exist
+export async function deleteFeaturedToonById(id: string): Promise<FeaturedToon | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const deleted = await collection.findOneAndDelete({ _id: objectId })
+  return deleted ? parse(deleted) : null
+}
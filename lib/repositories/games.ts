@@ -0,0 +1,131 @@
+import { z } from "zod"
+import { type Game, GAMES_COLLECTION } from "@/models/game"
+import {
+  getDb,
+  objectIdSchema,
+  optionalField,
+  parseDocument,
+  parseDocuments,
+  toObjectId,
+  withoutUndefined,
+} from "@/lib/repositories/shared"
+
+// A game as stored in MongoDB
+export const gameDocumentSchema = z.object({
+  _id: objectIdSchema,
+  slug: z.string(),
+  name: z.string(),
+  logo: optionalField(z.string()),
+  description: optionalField(z.string()),
+  isActive: z.boolean().default(true),
+  listOrder: z.number().default(0),
+  createdAt: z.coerce.date(),
+  updatedAt: optionalField(z.coerce.date()),
+})
+
+export type GameDocument = z.output<typeof gameDocumentSchema>
+
+const newGameDocumentSchema = gameDocumentSchema.omit({ _id: true })
+const gameChangesSchema = newGameDocumentSchema.partial()
+
+export type NewGame = z.input<typeof newGameDocumentSchema>
+export type GameDocumentChanges = z.input<typeof gameChangesSchema>
+
+// Game fields edited from the admin form
+export const gameInputSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug must contain only lowercase letters, numbers and dashes"),
+  name: z.string().trim().min(1, "Name is required"),
+  logo: z.string().trim().default(""),
+  description: z.string().trim().default(""),
+  isActive: z.boolean(),
+})
+
+export type GameInput = z.output<typeof gameInputSchema>
+
+export function toGame(document: GameDocument): Game {
+  return { ...document, _id: document._id.toString() }
+}
+
+function parse(document: unknown): Game | null {
+  const parsed = parseDocument(gameDocumentSchema, document, GAMES_COLLECTION)
+  return parsed ? toGame(parsed) : null
+}
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<GameDocument>(GAMES_COLLECTION)
+}
+
+// Games in list order, optionally only the active ones
+export async function findGames({ activeOnly = false } = {}): Promise<Game[]> {
+  const collection = await getCollection()
+  const documents = await collection
+    .find(activeOnly ? { isActive: true } : {})
+    .sort({ listOrder: 1, name: 1 })
+    .toArray()
+
+  return parseDocuments(gameDocumentSchema, documents, GAMES_COLLECTION).map(toGame)
+}
+
+export async function findGameById(id: string): Promise<Game | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const collection = await getCollection()
+  const document = await collection.findOne({ _id: objectId })
+  return document ? parse(document) : null
+}
+
+export async function findGameBySlug(slug: string): Promise<Game | null> {
+  const collection = await getCollection()
+  const document = await collection.findOne({ slug })
+  return document ? parse(document) : null
+}
+
+// The list order for a new game, after all existing ones
+export async function getNextGameListOrder(): Promise<number> {
+  const collection = await getCollection()
+  const last = await collection.find({}).sort({ listOrder: -1 }).limit(1).toArray()
+  return last.length > 0 ? last[0].listOrder + 1 : 1
+}
+
+/**
+ * Stores a new game.
+ * Throws a duplicate key error for the GAME_SLUG_INDEX when the slug is taken, see isDuplicateKeyError.
+ */
+export async function insertGame(game: NewGame): Promise<Game> {
+  const document = withoutUndefined(newGameDocumentSchema.parse(game))
+  const collection = await getCollection()
+  const result = await collection.insertOne(document as GameDocument)
+
+  return toGame({ ...document, _id: result.insertedId })
+}
+
+// Optional fields the admin form can empty, removed from the game when given as undefined
+const CLEARABLE_FIELDS = ["logo", "description"] as const
+
+/**
+ * Sets fields on a game.
+ * @param id The game id
+ * @param changes The fields to set, a logo or description given as undefined is removed
+ * @returns The game before the update, or null if it does not exist
+ */
+export async function updateGameById(id: string, changes: GameDocumentChanges): Promise<Game | null> {
+  const objectId = toObjectId(id)
+  if (!objectId) return null
+
+  const cleared = CLEARABLE_FIELDS.filter((field) => field in changes && changes[field] === undefined)
+  const fields = withoutUndefined(gameChangesSchema.parse(changes))
+  const collection = await getCollection()
+  const before = await collection.findOneAndUpdate(
+    { _id: objectId },
+    cleared.length > 0
+      ? { $set: fields, $unset: Object.fromEntries(cleared.map((field) => [field, ""])) }
+      : { $set: fields },
+  )
+  return before ? parse(before) : null
+}
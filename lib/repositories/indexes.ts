@@ -0,0 +1,96 @@
+import { MongoServerError, type CreateIndexesOptions, type Db, type IndexSpecification } from "mongodb"
+import {
+  ACTIVE_BOOKING_INDEX,
+  ACTIVE_BOOKING_STATUSES,
+  BOOKINGS_COLLECTION,
+  REQUEST_NUMBER_INDEX,
+} from "@/models/assistance"
+import { BLACKOUTS_COLLECTION } from "@/models/blackout"
+import { GAME_SLUG_INDEX, GAMES_COLLECTION } from "@/models/game"
+
+interface IndexDefinition {
+  collection: string
+  key: IndexSpecification
+  options: CreateIndexesOptions & { name: string }
+}
+
+// Indexes the data layer relies on, for correctness or to keep admin queries off collection scans
+export const INDEXES: IndexDefinition[] = [
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { requestNumber: 1 },
+    options: { name: REQUEST_NUMBER_INDEX, unique: true },
+  },
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { characterId: 1, assistanceTypeId: 1 },
+    options: {
+      name: ACTIVE_BOOKING_INDEX,
+      unique: true,
+      partialFilterExpression: { status: { $in: ACTIVE_BOOKING_STATUSES } },
+    },
+  },
+  // The admin request list pages by creation time, optionally filtered by status, type or assignee, see queryBookings
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { createdAt: -1, _id: -1 },
+    options: { name: "createdAt" },
+  },
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { status: 1, createdAt: -1, _id: -1 },
+    options: { name: "statusCreatedAt" },
+  },
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { assistanceTypeId: 1, createdAt: -1, _id: -1 },
+    options: { name: "assistanceTypeCreatedAt" },
+  },
+  {
+    collection: BOOKINGS_COLLECTION,
+    key: { assignedTo: 1, createdAt: -1, _id: -1 },
+    options: { name: "assignedToCreatedAt" },
+  },
+  {
+    collection: GAMES_COLLECTION,
+    key: { slug: 1 },
+    options: { name: GAME_SLUG_INDEX, unique: true },
+  },
+  // Booking checks only look at blackouts that haven't ended yet, see findBlackouts
+  {
+    collection: BLACKOUTS_COLLECTION,
+    key: { endsAt: 1 },
+    options: { name: "blackoutEndsAt" },
+  },
+]
+
+// Error codes MongoDB returns when an index with the same name exists with a different definition
+const INDEX_CONFLICT_CODES = [85, 86]
+
+/**
+ * Creates the indexes in INDEXES, replacing any whose definition has changed.
+ * Each index is created independently, so one failure (for example existing duplicate data) doesn't block the rest.
+ * @param db The database to create the indexes in
+ * @returns The names of the indexes that could not be created
+ */
+export async function ensureIndexes(db: Db): Promise<string[]> {
+  const failed: string[] = []
+
+  for (const { collection, key, options } of INDEXES) {
+    try {
+      try {
+        await db.collection(collection).createIndex(key, options)
+      } catch (error) {
+        if (!(error instanceof MongoServerError) || !INDEX_CONFLICT_CODES.includes(error.code as number)) throw error
+
+        await db.collection(collection).dropIndex(options.name)
+        await db.collection(collection).createIndex(key, options)
+      }
+    } catch (error) {
+      console.error(`Error creating index ${options.name} on ${collection}:`, error)
+      failed.push(options.name)
+    }
+  }
+
+  return failed
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { MongoServerError } from "mongodb"
+import {
+  type SlotHolder,
+  moveScheduleSlots,
+  releaseScheduleSlots,
+  reserveScheduleSlots,
+} from "@/lib/repositories/schedule-slots"
+
+// The counters, kept in memory by a collection that only knows the updates the repository sends
+const counters = new Map<string, number>()
+
+const collection = {
+  async updateOne(
+    filter: { _id: string; used?: { $lte: number } },
+    update: { $inc: { used: number } },
+    options?: { upsert?: boolean },
+  ) {
+    const used = counters.get(filter._id)
+    const matches = used !== undefined && (!filter.used || used <= filter.used.$lte)
+
+    if (matches) {
+      counters.set(filter._id, used + update.$inc.used)
+    } else if (options?.upsert) {
+      // Like MongoDB, a failed filter makes the upsert insert a second counter with the same id
+      if (used !== undefined) throw new MongoServerError({ message: "E11000 duplicate key error", code: 11000 })
+      counters.set(filter._id, update.$inc.used)
+    }
+    return {}
+  },
+}
+
+vi.mock("@/lib/mongodb", () => ({ default: new Promise(() => {}) }))
+vi.mock("@/lib/repositories/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/repositories/shared")>()),
+  getDb: async () => ({ collection: () => collection }),
+}))
+
+const TYPE_ID = "64b7f0c2a1b2c3d4e5f60718"
+
+const holder = (changes: Partial<SlotHolder> = {}): SlotHolder => ({
+  assistanceTypeId: TYPE_ID,
+  selectedDays: ["monday"],
+  timeRangePreset: "early",
+  slots: 1,
+  ...changes,
+})
+
+const counter = (day: string, window: string) => counters.get(`${TYPE_ID}:${day}:${window}`)
+
+describe("schedule slot counters", () => {
+  beforeEach(() => counters.clear())
+
+  it("claims every day and window of a schedule", async () => {
+    const schedule = holder({
+      selectedDays: ["monday", "friday"],
+      timeRangePreset: "custom",
+      startTime: "09:00",
+      endTime: "12:00",
+      slots: 2,
+    })
+
+    expect(await reserveScheduleSlots(schedule, 4)).toBe(true)
+
+    expect(Object.fromEntries(counters)).toEqual({
+      [`${TYPE_ID}:monday:early`]: 2,
+      [`${TYPE_ID}:monday:middle`]: 2,
+      [`${TYPE_ID}:friday:early`]: 2,
+      [`${TYPE_ID}:friday:middle`]: 2,
+    })
+  })
+
+  it("refuses a booking that doesn't fit and hands back what it claimed first", async () => {
+    counters.set(`${TYPE_ID}:tuesday:early`, 2)
+
+    expect(await reserveScheduleSlots(holder({ selectedDays: ["monday", "tuesday"] }), 2)).toBe(false)
+
+    expect(counter("monday", "early")).toBe(0)
+    expect(counter("tuesday", "early")).toBe(2)
+  })
+
+  it("fills a window up to its capacity exactly", async () => {
+    expect(await reserveScheduleSlots(holder({ slots: 2 }), 3)).toBe(true)
+    expect(await reserveScheduleSlots(holder(), 3)).toBe(true)
+    expect(await reserveScheduleSlots(holder(), 3)).toBe(false)
+
+    expect(counter("monday", "early")).toBe(3)
+  })
+
+  it("refuses a booking with more slots than the capacity", async () => {
+    expect(await reserveScheduleSlots(holder({ slots: 3 }), 2)).toBe(false)
+    expect(counters.size).toBe(0)
+  })
+
+  it("claims without a limit for capacity 0", async () => {
+    counters.set(`${TYPE_ID}:monday:early`, 50)
+
+    expect(await reserveScheduleSlots(holder({ slots: 5 }), 0)).toBe(true)
+    expect(counter("monday", "early")).toBe(55)
+  })
+
+  it("only claims what a moved schedule needs on top of what it holds", async () => {
+    counters.set(`${TYPE_ID}:monday:early`, 2)
+
+    // Monday is full, but the booking already holds its slot there
+    const moved = await moveScheduleSlots(holder(), holder({ selectedDays: ["monday", "tuesday"] }), 2)
+
+    expect(moved).toBe(true)
+    expect(counter("monday", "early")).toBe(2)
+    expect(counter("tuesday", "early")).toBe(1)
+  })
+
+  it("releases the days and windows a moved schedule no longer covers", async () => {
+    counters.set(`${TYPE_ID}:monday:early`, 1)
+
+    expect(await moveScheduleSlots(holder(), holder({ timeRangePreset: "late" }), 2)).toBe(true)
+
+    expect(counter("monday", "early")).toBe(0)
+    expect(counter("monday", "late")).toBe(1)
+  })
+
+  it("leaves everything as it was when the moved schedule doesn't fit", async () => {
+    counters.set(`${TYPE_ID}:monday:early`, 1)
+    counters.set(`${TYPE_ID}:monday:late`, 2)
+
+    expect(await moveScheduleSlots(holder(), holder({ timeRangePreset: "late" }), 2)).toBe(false)
+
+    expect(counter("monday", "early")).toBe(1)
+    expect(counter("monday", "late")).toBe(2)
+  })
+
+  it("moves slots between assistance types", async () => {
+    const otherType = "64b7f0c2a1b2c3d4e5f60719"
+    counters.set(`${TYPE_ID}:monday:early`, 1)
+
+    expect(await moveScheduleSlots(holder(), holder({ assistanceTypeId: otherType }), 2)).toBe(true)
+
+    expect(counter("monday", "early")).toBe(0)
+    expect(counters.get(`${otherType}:monday:early`)).toBe(1)
+  })
+
+  it("hands back a booking's slots on release", async () => {
+    await reserveScheduleSlots(holder({ slots: 2 }), 0)
+    await releaseScheduleSlots(holder({ slots: 2 }))
+
+    expect(counter("monday", "early")).toBe(0)
+  })
+})
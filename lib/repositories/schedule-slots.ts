@@ -0,0 +1,96 @@
+import type { Collection } from "mongodb"
+import { getScheduleWindows, type ScheduledSlots } from "@/lib/booking-capacity"
+import { getDb, isDuplicateKeyError } from "@/lib/repositories/shared"
+import type { Booking } from "@/models/assistance"
+import { type ScheduleSlotCount, SCHEDULE_SLOTS_COLLECTION, scheduleSlotId } from "@/models/schedule-slot"
+
+// The parts of a booking that decide which slots it holds
+export type SlotHolder = Pick<Booking, "assistanceTypeId"> & ScheduledSlots
+
+async function getCollection() {
+  const db = await getDb()
+  return db.collection<ScheduleSlotCount>(SCHEDULE_SLOTS_COLLECTION)
+}
+
+// The slots a booking holds on each counter, one per day and window of its schedule
+function getSlotCounts(holder: SlotHolder | null): Map<string, number> {
+  const counts = new Map<string, number>()
+  if (!holder) return counts
+
+  for (const day of holder.selectedDays) {
+    for (const window of getScheduleWindows(holder)) {
+      counts.set(scheduleSlotId(holder.assistanceTypeId, day, window), holder.slots)
+    }
+  }
+  return counts
+}
+
+// Adds slots to one counter as long as it stays within capacity, 0 for no limit
+async function claim(collection: Collection<ScheduleSlotCount>, id: string, slots: number, capacity: number) {
+  if (capacity > 0 && slots > capacity) return false
+
+  const filter = capacity > 0 ? { _id: id, used: { $lte: capacity - slots } } : { _id: id }
+
+  // A full counter fails the filter, so the upsert tries to create a second one with the same id and is rejected.
+  // The first attempt can also lose a race to create the counter, the second then finds it.
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await collection.updateOne(filter, { $inc: { used: slots } }, { upsert: true })
+      return true
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) throw error
+    }
+  }
+
+  return false
+}
+
+/**
+ * Moves the slots a booking holds from one schedule to another.
+ * Slots are only claimed where the new schedule needs more than the old one, each with a single conditional update,
+ * so concurrent bookings can't overfill a day and window. Nothing changes when any of them doesn't fit.
+ * @param from What the booking holds now, null when it holds nothing yet
+ * @param to What it should hold, null to release everything
+ * @param capacity The most slots per day and window for to's assistance type, 0 to claim without a limit
+ * @returns Whether the new slots were claimed
+ */
+export async function moveScheduleSlots(
+  from: SlotHolder | null,
+  to: SlotHolder | null,
+  capacity: number,
+): Promise<boolean> {
+  const before = getSlotCounts(from)
+  const after = getSlotCounts(to)
+  const changes = new Map<string, number>()
+  for (const [id, slots] of after) changes.set(id, slots - (before.get(id) ?? 0))
+  for (const [id, slots] of before) if (!after.has(id)) changes.set(id, -slots)
+
+  const collection = await getCollection()
+  const claimed: [string, number][] = []
+
+  for (const [id, slots] of changes) {
+    if (slots <= 0) continue
+
+    if (!(await claim(collection, id, slots, capacity))) {
+      // Hand back what was claimed before the one that didn't fit
+      await Promise.all(claimed.map(([id, slots]) => collection.updateOne({ _id: id }, { $inc: { used: -slots } })))
+      return false
+    }
+    claimed.push([id, slots])
+  }
+
+  const released = [...changes].filter(([, slots]) => slots < 0)
+  await Promise.all(released.map(([id, slots]) => collection.updateOne({ _id: id }, { $inc: { used: slots } })))
+
+  return true
+}
+
+// Claims the slots for a booking that doesn't hold any yet, see moveScheduleSlots
+export async function reserveScheduleSlots(holder: SlotHolder, capacity: number): Promise<boolean> {
+  return moveScheduleSlots(null, holder, capacity)
+}
+
+// Hands back the slots of a booking that no longer holds them
+export async function releaseScheduleSlots(holder: SlotHolder): Promise<void> {
+  await moveScheduleSlots(holder, null, 0)
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from "vitest"
+import { hasPendingMigrations } from "@/lib/migrations/runner"
+import { ensureIndexes } from "@/lib/repositories/indexes"
+import { getDb } from "@/lib/repositories/shared"
+
+vi.mock("@/lib/mongodb", () => ({ default: Promise.resolve({ db: () => ({}) }) }))
+vi.mock("@/lib/migrations/runner", () => ({ hasPendingMigrations: vi.fn(async () => false) }))
+vi.mock("@/lib/repositories/indexes", () => ({ ensureIndexes: vi.fn() }))
+
+describe("getDb", () => {
+  it("tries the indexes again after a failed attempt, then keeps the result", async () => {
+    vi.mocked(hasPendingMigrations).mockRejectedValueOnce(new Error("Connection reset"))
+
+    await expect(getDb()).rejects.toThrow("Connection reset")
+    await expect(getDb()).resolves.toBeDefined()
+    await getDb()
+
+    expect(hasPendingMigrations).toHaveBeenCalledTimes(2)
+    expect(ensureIndexes).toHaveBeenCalledTimes(1)
+  })
+})
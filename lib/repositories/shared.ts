@@ -0,0 +1,111 @@
+import { MongoServerError, ObjectId, type Db } from "mongodb"
+import { z } from "zod"
+import { hasPendingMigrations } from "@/lib/migrations/runner"
+import clientPromise from "@/lib/mongodb"
+import { ensureIndexes } from "@/lib/repositories/indexes"
+
+let indexesEnsured: Promise<unknown> | null = null
+
+// Indexes built before a migration converts the data they cover would miss duplicates across the old and new forms,
+// so while migrations are pending they are left to the migrate script, which creates them after migrating
+async function ensureIndexesWhenMigrated(db: Db): Promise<void> {
+  if (await hasPendingMigrations(db)) {
+    console.warn("Database migrations are pending, run `npm run migrate` to apply them and create the indexes")
+    return
+  }
+
+  await ensureIndexes(db)
+}
+
+// The app database, with the indexes the repositories rely on created on first use.
+// A failed attempt isn't kept, so a transient error fails that call and the next one tries again.
+export async function getDb(): Promise<Db> {
+  const client = await clientPromise
+  const db = client.db()
+
+  indexesEnsured ??= ensureIndexesWhenMigrated(db).catch((error) => {
+    indexesEnsured = null
+    throw error
+  })
+  await indexesEnsured
+
+  return db
+}
+
+// Whether an insert or update was rejected by a unique index, optionally a specific one
+export function isDuplicateKeyError(error: unknown, indexName?: string): boolean {
+  if (!(error instanceof MongoServerError) || error.code !== 11000) return false
+  return !indexName || error.message.includes(indexName)
+}
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i
+
+export function isObjectIdString(id: unknown): id is string {
+  return typeof id === "string" && OBJECT_ID_PATTERN.test(id)
+}
+
+// Parses an id sent by the browser, returning null instead of throwing when it is malformed
+export function toObjectId(id: string | null | undefined): ObjectId | null {
+  return isObjectIdString(id) ? new ObjectId(id) : null
+}
+
+// Parses a list of ids, dropping any that are malformed
+export function toObjectIds(ids: (string | null | undefined)[]): ObjectId[] {
+  return ids.map(toObjectId).filter((id): id is ObjectId => id !== null)
+}
+
+// Stored references were written both as ObjectIds and as hex strings, so accept either and always read an ObjectId
+export const objectIdSchema = z
+  .union([z.instanceof(ObjectId), z.string().refine(isObjectIdString, "Invalid id")])
+  .transform((id) => (typeof id === "string" ? new ObjectId(id) : id))
+
+// Optional fields may have been stored as null by older writes, read them back as undefined
+export function optionalField<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined)
+}
+
+export const timeRangePresetSchema = z.enum(["early", "middle", "late", "custom"])
+
+/**
+ * Validates a stored document against its schema.
+ * Documents that no longer match are logged and skipped rather than failing the whole read.
+ * @param schema The collection's document schema
+ * @param document The raw document read from MongoDB
+ * @param collection The collection name, used in the log message
+ * @returns The parsed document, or null if it is invalid
+ */
+export function parseDocument<T extends z.ZodTypeAny>(
+  schema: T,
+  document: unknown,
+  collection: string,
+): z.output<T> | null {
+  const result = schema.safeParse(document)
+
+  if (!result.success) {
+    const id = (document as { _id?: unknown } | null)?._id
+    console.error(`Invalid document in ${collection} (${String(id)}):`, result.error.issues)
+    return null
+  }
+
+  return result.data
+}
+
+export function parseDocuments<T extends z.ZodTypeAny>(
+  schema: T,
+  documents: unknown[],
+  collection: string,
+): z.output<T>[] {
+  return documents
+    .map((document) => parseDocument(schema, document, collection))
+    .filter((document): document is z.output<T> => document !== null)
+}
+
+// Drops undefined values so optional fields are left out of the stored document instead of being written as null
+export function withoutUndefined<T extends object>(document: T): T {
+  return Object.fromEntries(Object.entries(document).filter(([, value]) => value !== undefined)) as T
+}
+
+// The first validation message, for returning to the caller as a plain error
+export function firstIssueMessage(error: z.ZodError, fallback = "Invalid input"): string {
+  return error.issues[0]?.message || fallback
+}
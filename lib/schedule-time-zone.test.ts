@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+import {
+  SERVER_TIME_ZONE,
+  convertSchedule,
+  crossesMidnight,
+  formatTimeZoneOffset,
+  getServerSchedule,
+  getTimeZoneOffset,
+  shiftDay,
+} from "@/lib/schedule-time-zone"
+
+// New York is on standard time in January and daylight saving time in July
+const JANUARY = new Date("2030-01-15T12:00:00Z")
+const JULY = new Date("2030-07-15T12:00:00Z")
+
+describe("time zone offsets", () => {
+  it("reads the offset of a zone at a moment", () => {
+    expect(getTimeZoneOffset(SERVER_TIME_ZONE, JANUARY)).toBe(7 * 60)
+    expect(getTimeZoneOffset("America/New_York", JANUARY)).toBe(-5 * 60)
+    expect(getTimeZoneOffset("America/New_York", JULY)).toBe(-4 * 60)
+    expect(getTimeZoneOffset("Asia/Kolkata", JANUARY)).toBe(5 * 60 + 30)
+  })
+
+  it("formats offsets with minutes only when there are any", () => {
+    expect(formatTimeZoneOffset(SERVER_TIME_ZONE, JANUARY)).toBe("GMT+7")
+    expect(formatTimeZoneOffset("America/New_York", JANUARY)).toBe("GMT-5")
+    expect(formatTimeZoneOffset("Asia/Kolkata", JANUARY)).toBe("GMT+5:30")
+    expect(formatTimeZoneOffset("UTC", JANUARY)).toBe("GMT")
+  })
+})
+
+describe("shiftDay", () => {
+  it("wraps around the week", () => {
+    expect(shiftDay("sunday", 1)).toBe("monday")
+    expect(shiftDay("monday", -1)).toBe("sunday")
+    expect(shiftDay("wednesday", 0)).toBe("wednesday")
+  })
+})
+
+describe("convertSchedule", () => {
+  it("moves an evening range to the next day in server time", () => {
+    const schedule = { selectedDays: ["monday", "sunday"], startTime: "20:00", endTime: "22:00" }
+
+    expect(convertSchedule(schedule, "America/New_York", SERVER_TIME_ZONE, JANUARY)).toEqual({
+      selectedDays: ["monday", "tuesday"],
+      startTime: "08:00",
+      endTime: "10:00",
+      dayShift: 1,
+    })
+  })
+
+  it("moves a morning range back a day for zones behind server time", () => {
+    const schedule = { selectedDays: ["monday"], startTime: "05:00", endTime: "10:00" }
+
+    expect(convertSchedule(schedule, SERVER_TIME_ZONE, "America/New_York", JANUARY)).toEqual({
+      selectedDays: ["sunday"],
+      startTime: "17:00",
+      endTime: "22:00",
+      dayShift: -1,
+    })
+  })
+
+  it("follows daylight saving time in the customer's zone", () => {
+    const schedule = { selectedDays: ["monday"], startTime: "20:00", endTime: "22:00" }
+
+    expect(convertSchedule(schedule, "America/New_York", SERVER_TIME_ZONE, JULY).startTime).toBe("07:00")
+  })
+
+  it("keeps half hour offsets", () => {
+    const schedule = { selectedDays: ["friday"], startTime: "10:00", endTime: "11:00" }
+
+    expect(convertSchedule(schedule, "Asia/Kolkata", SERVER_TIME_ZONE, JANUARY)).toMatchObject({
+      selectedDays: ["friday"],
+      startTime: "11:30",
+      endTime: "12:30",
+    })
+  })
+
+  it("leaves the schedule alone between the same zone or without times", () => {
+    const schedule = { selectedDays: ["monday"], startTime: "20:00", endTime: "22:00" }
+
+    expect(convertSchedule(schedule, SERVER_TIME_ZONE, SERVER_TIME_ZONE, JANUARY)).toEqual({ ...schedule, dayShift: 0 })
+    expect(convertSchedule({ selectedDays: ["monday"] }, "America/New_York", SERVER_TIME_ZONE, JANUARY)).toEqual({
+      selectedDays: ["monday"],
+      dayShift: 0,
+    })
+  })
+
+  it("converts back to the schedule it started from", () => {
+    const schedule = { selectedDays: ["saturday", "sunday"], startTime: "21:30", endTime: "23:00" }
+    const serverSchedule = convertSchedule(schedule, "America/New_York", SERVER_TIME_ZONE, JANUARY)
+
+    expect(convertSchedule(serverSchedule, SERVER_TIME_ZONE, "America/New_York", JANUARY)).toMatchObject(schedule)
+  })
+})
+
+describe("crossesMidnight", () => {
+  it("flags a range that runs past midnight once converted", () => {
+    const schedule = { selectedDays: ["monday"], startTime: "11:00", endTime: "13:00" }
+    const serverSchedule = convertSchedule(schedule, "America/New_York", SERVER_TIME_ZONE, JANUARY)
+
+    expect(serverSchedule).toMatchObject({ startTime: "23:00", endTime: "01:00" })
+    expect(crossesMidnight(serverSchedule)).toBe(true)
+  })
+
+  it("accepts ranges that end before midnight, and schedules without times", () => {
+    expect(crossesMidnight({ selectedDays: ["monday"], startTime: "22:00", endTime: "23:30" })).toBe(false)
+    expect(crossesMidnight({ selectedDays: ["monday"] })).toBe(false)
+  })
+
+  it("flags a range that ends at midnight", () => {
+    expect(crossesMidnight({ selectedDays: ["monday"], startTime: "22:00", endTime: "00:00" })).toBe(true)
+  })
+})
+
+describe("getServerSchedule", () => {
+  it("fills in a preset's times", () => {
+    expect(getServerSchedule({ selectedDays: ["monday"], timeRangePreset: "late" })).toEqual({
+      selectedDays: ["monday"],
+      startTime: "14:00",
+      endTime: "19:00",
+    })
+  })
+
+  it("keeps a custom range's own times", () => {
+    const schedule = {
+      selectedDays: ["monday"],
+      timeRangePreset: "custom" as const,
+      startTime: "06:00",
+      endTime: "07:00",
+    }
+
+    expect(getServerSchedule(schedule)).toEqual({ selectedDays: ["monday"], startTime: "06:00", endTime: "07:00" })
+  })
+})
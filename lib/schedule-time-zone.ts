@@ -0,0 +1,124 @@
+import { SCHEDULE_WINDOWS } from "@/lib/booking-capacity"
+import type { Booking } from "@/models/assistance"
+
+// The game server's zone (UTC+7), presets, capacity windows and stored schedules are all in server time
+export const SERVER_TIME_ZONE = "Asia/Bangkok"
+
+export const WEEK_DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
+
+const MINUTES_PER_DAY = 24 * 60
+
+export type WeeklySchedule = Pick<Booking, "selectedDays" | "startTime" | "endTime">
+
+export interface ConvertedSchedule extends WeeklySchedule {
+  dayShift: number // Days the schedule moved by, -1, 0 or 1
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The browser's zone, server time when it can't be read
+export function getViewerTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : SERVER_TIME_ZONE
+}
+
+// Minutes the zone is ahead of UTC at the given moment
+export function getTimeZoneOffset(timeZone: string, at = new Date()): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(at)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value)
+
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"))
+  return Math.round((wallClock - Math.floor(at.getTime() / 60000) * 60000) / 60000)
+}
+
+// e.g. "GMT+7" or "GMT-3:30"
+export function formatTimeZoneOffset(timeZone: string, at = new Date()): string {
+  const offset = getTimeZoneOffset(timeZone, at)
+  if (offset === 0) return "GMT"
+
+  const hours = Math.floor(Math.abs(offset) / 60)
+  const minutes = Math.abs(offset) % 60
+  return `GMT${offset < 0 ? "-" : "+"}${hours}${minutes ? `:${minutes.toString().padStart(2, "0")}` : ""}`
+}
+
+function toMinutes(time: string): number | null {
+  const match = time.match(/^(\d{2}):(\d{2})$/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+function fromMinutes(minutes: number): string {
+  const time = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return `${Math.floor(time / 60)
+    .toString()
+    .padStart(2, "0")}:${(time % 60).toString().padStart(2, "0")}`
+}
+
+export function shiftDay(day: string, shift: number): string {
+  const index = WEEK_DAYS.indexOf(day)
+  return index === -1 ? day : WEEK_DAYS[(index + shift + 7) % 7]
+}
+
+/**
+ * Moves a weekly schedule from one zone to another.
+ * Schedules repeat every week, so the zones' offsets this week are used for every occurrence.
+ * @returns The schedule in the target zone, its end time is before its start when it runs past midnight
+ */
+export function convertSchedule(
+  schedule: WeeklySchedule,
+  fromTimeZone: string,
+  toTimeZone: string,
+  at = new Date(),
+): ConvertedSchedule {
+  const start = schedule.startTime ? toMinutes(schedule.startTime) : null
+  const end = schedule.endTime ? toMinutes(schedule.endTime) : null
+  if (start === null || end === null || fromTimeZone === toTimeZone) return { ...schedule, dayShift: 0 }
+
+  const difference = getTimeZoneOffset(toTimeZone, at) - getTimeZoneOffset(fromTimeZone, at)
+  const dayShift = Math.floor((start + difference) / MINUTES_PER_DAY)
+  const selectedDays = schedule.selectedDays.map((day) => shiftDay(day, dayShift))
+
+  return {
+    selectedDays: WEEK_DAYS.filter((day) => selectedDays.includes(day)),
+    startTime: fromMinutes(start + difference),
+    endTime: fromMinutes(end + difference),
+    dayShift,
+  }
+}
+
+// Stored schedules need their start before their end on the same day
+export function crossesMidnight(schedule: WeeklySchedule): boolean {
+  return Boolean(schedule.startTime && schedule.endTime && schedule.endTime <= schedule.startTime)
+}
+
+// Why a schedule that crosses midnight in server time was refused
+export function describeCrossesMidnight(): string {
+  return (
+    `Your time range runs past midnight in game server time (${formatTimeZoneOffset(SERVER_TIME_ZONE)}). ` +
+    "Please pick a range that ends before then."
+  )
+}
+
+// A booking's schedule in server time, filling in the preset's times for bookings stored without them
+export function getServerSchedule(
+  booking: Pick<Booking, "selectedDays" | "timeRangePreset" | "startTime" | "endTime">,
+): WeeklySchedule {
+  const { selectedDays, timeRangePreset } = booking
+  return timeRangePreset === "custom"
+    ? { selectedDays, startTime: booking.startTime, endTime: booking.endTime }
+    : { selectedDays, ...SCHEDULE_WINDOWS[timeRangePreset] }
+}
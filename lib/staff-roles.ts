@@ -0,0 +1,23 @@
+import type { StaffRole } from "@/models/staff-user"
+
+export const STAFF_ROLES: StaffRole[] = ["owner", "agent", "viewer"]
+
+// Roles allowed to change requests and site configuration
+export const EDITOR_ROLES: StaffRole[] = ["owner", "agent"]
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: "Owner",
+  agent: "Agent",
+  viewer: "Read-only Viewer",
+}
+
+export const STAFF_ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  owner: "Full access, including staff management",
+  agent: "Can manage requests, templates and site content",
+  viewer: "Can view the admin console but cannot make changes",
+}
+
+// Check whether a session or token role grants access to the admin console
+export function isStaffRole(role: unknown): role is StaffRole {
+  return typeof role === "string" && STAFF_ROLES.includes(role as StaffRole)
+}
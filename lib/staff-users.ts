@@ -0,0 +1,156 @@
+import { createHash, randomBytes } from "crypto"
+import { ObjectId } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { hashPassword, verifyPassword } from "@/lib/passwords"
+import { findTotpStep } from "@/lib/totp"
+import { type StaffRole, type StaffUser, CREDENTIALS_ERRORS, STAFF_USERS_COLLECTION } from "@/models/staff-user"
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Seeds the staff collection with owners from STAFF_OWNER_EMAILS when it is empty,
+ * so a fresh deployment has someone who can sign in and invite the rest of the team.
+ * STAFF_OWNER_PASSWORD gives the seeded owners a password for offline sign-in.
+ */
+async function bootstrapOwners(): Promise<void> {
+  const ownerEmails = (process.env.STAFF_OWNER_EMAILS || "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter((email) => email)
+
+  if (ownerEmails.length === 0) return
+
+  const client = await clientPromise
+  const collection = client.db().collection<StaffUser>(STAFF_USERS_COLLECTION)
+
+  if ((await collection.estimatedDocumentCount()) > 0) return
+
+  const now = new Date()
+  const ownerPassword = process.env.STAFF_OWNER_PASSWORD
+  const passwordHash = ownerPassword ? await hashPassword(ownerPassword) : undefined
+  await collection.insertMany(
+    ownerEmails.map((email) => ({ email, role: "owner" as const, invitedAt: now, passwordHash })),
+  )
+}
+
+// Look up the staff role for an email address, or undefined if the email is not staff
+export async function getStaffRole(email: string): Promise<StaffRole | undefined> {
+  try {
+    await bootstrapOwners()
+
+    const client = await clientPromise
+    const staffUser = await client
+      .db()
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .findOne({ email: normalizeEmail(email) })
+
+    return staffUser?.role
+  } catch (error) {
+    console.error("Error looking up staff role:", error)
+    return undefined
+  }
+}
+
+// Record a successful sign-in, which also marks a pending invite as accepted
+export async function recordStaffSignIn(email: string, name?: string | null): Promise<void> {
+  try {
+    const client = await clientPromise
+    const update: Partial<StaffUser> = { lastSignInAt: new Date() }
+    if (name) update.name = name
+
+    await client
+      .db()
+      .collection<StaffUser>(STAFF_USERS_COLLECTION)
+      .updateOne({ email: normalizeEmail(email) }, { $set: update })
+  } catch (error) {
+    console.error("Error recording staff sign-in:", error)
+  }
+}
+
+/**
+ * Checks staff credentials for the credentials provider.
+ * Throws one of CREDENTIALS_ERRORS so the login form can ask for a one-time code when needed.
+ * @returns The staff user to sign in
+ */
+export async function verifyStaffCredentials(
+  email: string | undefined,
+  password: string | undefined,
+  otp: string | undefined,
+): Promise<{ id: string; email: string; name?: string }> {
+  if (!email || !password) {
+    throw new Error(CREDENTIALS_ERRORS.invalid)
+  }
+
+  await bootstrapOwners()
+
+  const client = await clientPromise
+  const collection = client.db().collection<StaffUser>(STAFF_USERS_COLLECTION)
+  const staffUser = await collection.findOne({ email: normalizeEmail(email) })
+
+  if (!staffUser || !(await verifyPassword(password, staffUser.passwordHash))) {
+    throw new Error(CREDENTIALS_ERRORS.invalid)
+  }
+
+  if (staffUser.totpSecret) {
+    if (!otp) {
+      throw new Error(CREDENTIALS_ERRORS.otpRequired)
+    }
+
+    const step = findTotpStep(staffUser.totpSecret, otp)
+    if (step === null) {
+      throw new Error(CREDENTIALS_ERRORS.invalidOtp)
+    }
+
+    // Each code is accepted once, its step is recorded with a conditional update so a replay racing it is refused too
+    const { modifiedCount } = await collection.updateOne(
+      { _id: staffUser._id, totpLastStep: { $not: { $gte: step } } },
+      { $set: { totpLastStep: step } },
+    )
+    if (modifiedCount === 0) {
+      throw new Error(CREDENTIALS_ERRORS.invalidOtp)
+    }
+  }
+
+  return { id: staffUser._id.toString(), email: staffUser.email, name: staffUser.name }
+}
+
+function hashCalendarFeedToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+// A new calendar feed token, only its hash is stored on the staff user
+export function generateCalendarFeedToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString("base64url")
+  return { token, hash: hashCalendarFeedToken(token) }
+}
+
+// The staff member a calendar feed token belongs to, or null for unknown or revoked tokens
+export async function findStaffUserByCalendarFeedToken(token: string | null): Promise<StaffUser | null> {
+  if (!token) return null
+
+  const client = await clientPromise
+  return client
+    .db()
+    .collection<StaffUser>(STAFF_USERS_COLLECTION)
+    .findOne({ calendarFeedTokenHash: hashCalendarFeedToken(token) })
+}
+
+export async function findStaffUserByEmail(email: string): Promise<StaffUser | null> {
+  const client = await clientPromise
+  return client
+    .db()
+    .collection<StaffUser>(STAFF_USERS_COLLECTION)
+    .findOne({ email: normalizeEmail(email) })
+}
+
+export async function findStaffUserById(id: string): Promise<StaffUser | null> {
+  if (!ObjectId.isValid(id)) return null
+
+  const client = await clientPromise
+  return client
+    .db()
+    .collection<StaffUser>(STAFF_USERS_COLLECTION)
+    .findOne({ _id: new ObjectId(id) })
+}
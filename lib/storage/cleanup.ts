@@ -0,0 +1,85 @@
+import { findAssistanceTemplateImageUrls } from "@/lib/repositories/assistance-templates"
+import { findBookingPhotoUrls } from "@/lib/repositories/bookings"
+import { findFeaturedToonImageUrls } from "@/lib/repositories/featured-toons"
+import { getStorage, type StorageProvider } from "@/lib/storage"
+import type { StoredFileInfo } from "@/lib/storage/types"
+import { UPLOAD_FOLDERS } from "@/lib/upload-utils"
+
+// Uploads younger than this are kept even when unreferenced, they may belong to a booking or form still being filled in
+export const ORPHAN_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface OrphanReport {
+  provider: string
+  generatedAt: Date
+  scannedCount: number // Files in the upload folders
+  referencedCount: number
+  recentCount: number // Unreferenced but still within the grace period
+  orphans: StoredFileInfo[] // Unreferenced and older than the grace period, oldest first
+  orphanBytes: number
+}
+
+// URLs stored on bookings, templates and featured toons
+async function findReferencedUrls(): Promise<Set<string>> {
+  const [photoUrls, templateImageUrls, toonImageUrls] = await Promise.all([
+    findBookingPhotoUrls(),
+    findAssistanceTemplateImageUrls(),
+    findFeaturedToonImageUrls(),
+  ])
+
+  return new Set([...photoUrls, ...templateImageUrls, ...toonImageUrls])
+}
+
+/**
+ * Lists uploaded files that nothing references any more.
+ * Only the upload folders are scanned, so anything else kept in the same store is never touched.
+ * @param storage The provider to scan, defaults to the configured one
+ * @param now The time the grace period is measured from
+ */
+export async function findOrphanedFiles(
+  storage: StorageProvider = getStorage(),
+  now = new Date(),
+): Promise<OrphanReport> {
+  // List before reading references, so a file uploaded and saved in between is seen as referenced
+  const files = (await Promise.all(UPLOAD_FOLDERS.map((folder) => storage.list(`${folder}/`)))).flat()
+  const referenced = await findReferencedUrls()
+  const cutoff = now.getTime() - ORPHAN_GRACE_PERIOD_MS
+
+  const unreferenced = files.filter((file) => !referenced.has(file.url))
+  const orphans = unreferenced
+    .filter((file) => file.uploadedAt.getTime() < cutoff)
+    .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime())
+
+  return {
+    provider: storage.name,
+    generatedAt: now,
+    scannedCount: files.length,
+    referencedCount: files.length - unreferenced.length,
+    recentCount: unreferenced.length - orphans.length,
+    orphans,
+    orphanBytes: orphans.reduce((total, file) => total + file.size, 0),
+  }
+}
+
+/**
+ * Deletes the orphans in a report. Each file is deleted on its own, so one failure doesn't stop the rest.
+ * @returns The files that were deleted and the URLs that could not be
+ */
+export async function deleteOrphanedFiles(
+  report: OrphanReport,
+  storage: StorageProvider = getStorage(),
+): Promise<{ deleted: StoredFileInfo[]; failed: string[] }> {
+  const deleted: StoredFileInfo[] = []
+  const failed: string[] = []
+
+  for (const file of report.orphans) {
+    try {
+      await storage.delete(file.url)
+      deleted.push(file)
+    } catch (error) {
+      console.error(`Error deleting orphaned file ${file.url}:`, error)
+      failed.push(file.url)
+    }
+  }
+
+  return { deleted, failed }
+}
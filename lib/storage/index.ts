@@ -0,0 +1,28 @@
+import { localDiskStorage } from "@/lib/storage/local-disk"
+import type { StorageProvider } from "@/lib/storage/types"
+import { vercelBlobStorage } from "@/lib/storage/vercel-blob"
+
+export type { StorageProvider, StoredFile } from "@/lib/storage/types"
+
+const PROVIDERS: Record<string, StorageProvider> = {
+  "vercel-blob": vercelBlobStorage,
+  local: localDiskStorage,
+}
+
+/**
+ * The storage provider uploads go to, set with STORAGE_PROVIDER ("vercel-blob" or "local").
+ * Without it, Vercel Blob is used when BLOB_READ_WRITE_TOKEN is set and local disk otherwise,
+ * so a fresh checkout can upload images without any cloud credentials.
+ */
+export function getStorage(): StorageProvider {
+  const configured = process.env.STORAGE_PROVIDER
+  if (configured) {
+    const provider = PROVIDERS[configured]
+    if (!provider) {
+      throw new Error(`Unknown STORAGE_PROVIDER "${configured}", expected ${Object.keys(PROVIDERS).join(" or ")}`)
+    }
+    return provider
+  }
+
+  return process.env.BLOB_READ_WRITE_TOKEN ? vercelBlobStorage : localDiskStorage
+}
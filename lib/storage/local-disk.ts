@@ -0,0 +1,106 @@
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from "fs/promises"
+import path from "path"
+import type { StorageProvider, StoredFileInfo } from "@/lib/storage/types"
+
+// Local files are served by app/api/files/[...path]/route.ts
+export const LOCAL_FILES_ROUTE = "/api/files"
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+}
+
+export function getLocalStorageRoot(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || ".uploads")
+}
+
+/**
+ * Resolves a pathname inside the storage root.
+ * @returns The absolute file path, or null if the pathname would escape the root
+ */
+export function resolveLocalPath(pathname: string): string | null {
+  const root = getLocalStorageRoot()
+  const filePath = path.resolve(root, pathname)
+  return filePath.startsWith(root + path.sep) ? filePath : null
+}
+
+// Reads a stored file for the files route, or null if it doesn't exist
+export async function readLocalFile(pathname: string): Promise<{ body: Buffer; contentType: string } | null> {
+  const filePath = resolveLocalPath(pathname)
+  if (!filePath) return null
+
+  try {
+    const body = await readFile(filePath)
+    const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()] || "application/octet-stream"
+    return { body, contentType }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+function toPathname(url: string): string | null {
+  // URLs are stored relative to the site, but accept absolute ones in case they were copied with the host
+  const { pathname } = new URL(url, "http://localhost")
+  const prefix = `${LOCAL_FILES_ROUTE}/`
+  return pathname.startsWith(prefix) ? decodeURIComponent(pathname.slice(prefix.length)) : null
+}
+
+// Files on the server's disk, for development and self-hosting without Vercel Blob
+export const localDiskStorage: StorageProvider = {
+  name: "local",
+
+  async put(pathname, body) {
+    const filePath = resolveLocalPath(pathname)
+    if (!filePath) {
+      throw new Error(`Invalid storage path "${pathname}"`)
+    }
+
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, body)
+
+    return { url: `${LOCAL_FILES_ROUTE}/${pathname}`, pathname }
+  },
+
+  async delete(url) {
+    const pathname = toPathname(url)
+    const filePath = pathname ? resolveLocalPath(pathname) : null
+    if (!filePath) {
+      throw new Error(`Not a local storage URL: ${url}`)
+    }
+
+    try {
+      await unlink(filePath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+  },
+
+  async list(prefix) {
+    const root = getLocalStorageRoot()
+
+    let entries: string[]
+    try {
+      entries = await readdir(root, { recursive: true })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw error
+    }
+
+    const files: StoredFileInfo[] = []
+    for (const entry of entries) {
+      const pathname = entry.split(path.sep).join("/")
+      if (!pathname.startsWith(prefix)) continue
+
+      const stats = await stat(path.join(root, entry))
+      if (stats.isFile()) {
+        files.push({ url: `${LOCAL_FILES_ROUTE}/${pathname}`, pathname, size: stats.size, uploadedAt: stats.mtime })
+      }
+    }
+
+    return files
+  },
+}
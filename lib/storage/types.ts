@@ -0,0 +1,28 @@
+export interface StoredFile {
+  url: string // Public URL the file is served from
+  pathname: string // Path within the store, e.g. "templates/abc123.png"
+}
+
+export interface StoredFileInfo extends StoredFile {
+  size: number // Bytes
+  uploadedAt: Date
+}
+
+// Where uploaded images are kept, see getStorage for how the provider is chosen
+export interface StorageProvider {
+  name: string
+
+  /**
+   * Stores a file under a pathname the caller has made unique.
+   * @param pathname Path within the store, starting with one of the upload folders
+   * @param body The file contents
+   * @param contentType MIME type to serve the file with
+   */
+  put(pathname: string, body: Buffer, contentType: string): Promise<StoredFile>
+
+  // Removes a file by the URL put returned, files that are already gone are ignored
+  delete(url: string): Promise<void>
+
+  // Every stored file whose pathname starts with the prefix, e.g. "templates/"
+  list(prefix: string): Promise<StoredFileInfo[]>
+}
@@ -0,0 +1,32 @@
+import { del, list, put } from "@vercel/blob"
+import type { StorageProvider, StoredFileInfo } from "@/lib/storage/types"
+
+// Vercel Blob, authenticated with BLOB_READ_WRITE_TOKEN
+export const vercelBlobStorage: StorageProvider = {
+  name: "vercel-blob",
+
+  async put(pathname, body, contentType) {
+    const blob = await put(pathname, body, { access: "public", contentType })
+    return { url: blob.url, pathname: blob.pathname }
+  },
+
+  async delete(url) {
+    await del(url)
+  },
+
+  async list(prefix) {
+    const files: StoredFileInfo[] = []
+    let cursor: string | undefined
+
+    // Results come in pages of up to 1000
+    do {
+      const page = await list({ prefix, cursor, limit: 1000 })
+      files.push(
+        ...page.blobs.map(({ url, pathname, size, uploadedAt }) => ({ url, pathname, size, uploadedAt })),
+      )
+      cursor = page.hasMore ? page.cursor : undefined
+    } while (cursor)
+
+    return files
+  },
+}
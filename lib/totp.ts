@@ -0,0 +1,75 @@
+import { createHmac, randomBytes } from "crypto"
+
+// RFC 6238 time-based one-time passwords, compatible with common authenticator apps
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+const PERIOD_SECONDS = 30
+const DIGITS = 6
+const TOTP_ISSUER = "Papa-Pi Gaming"
+
+function base32Encode(buffer: Buffer): string {
+  let bits = ""
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, "0")
+  }
+
+  let output = ""
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[Number.parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)]
+  }
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = ""
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) continue
+    bits += index.toString(2).padStart(5, "0")
+  }
+
+  const bytes: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(Number.parseInt(bits.slice(i, i + 8), 2))
+  }
+  return Buffer.from(bytes)
+}
+
+function generateCode(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0")
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+// otpauth:// URI that authenticator apps can import
+export function getTotpUri(secret: string, email: string): string {
+  const issuer = encodeURIComponent(TOTP_ISSUER)
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`)
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}&digits=${DIGITS}&period=${PERIOD_SECONDS}`
+}
+
+/**
+ * Finds the time step a one-time code belongs to, allowing one period of clock drift either way
+ * @param secret The base32 secret stored on the staff user
+ * @param code The code entered by the user
+ * @returns The step the code was generated for, or null if it isn't valid for the current time
+ */
+export function findTotpStep(secret: string | undefined, code: string | undefined): number | null {
+  if (!secret || !code || !/^\d{6}$/.test(code.trim())) return null
+
+  const counter = Math.floor(Date.now() / 1000 / PERIOD_SECONDS)
+  return [-1, 0, 1].map((drift) => counter + drift).find((step) => generateCode(secret, step) === code.trim()) ?? null
+}
+
+// Checks a one-time code, see findTotpStep
+export function verifyTotp(secret: string | undefined, code: string | undefined): boolean {
+  return findTotpStep(secret, code) !== null
+}
@@ -1,9 +1,61 @@
-import { put } from "@vercel/blob"
-import { nanoid } from "nanoid"
-
-// Maximum file size in bytes (1MB)
+// Maximum file size in bytes (1MB), enforced by the upload route after the browser has compressed the image
 export const MAX_FILE_SIZE = 1 * 1024 * 1024
 
+// Folders the upload route is allowed to write to
+export const UPLOAD_FOLDERS = ["booking-photos", "featured-toons", "templates"] as const
+
+export type UploadFolder = (typeof UPLOAD_FOLDERS)[number]
+
+// Folders open to callers who aren't signed in as staff, the rest hold site content only staff may add
+export const PUBLIC_UPLOAD_FOLDERS: UploadFolder[] = ["booking-photos"]
+
+// Machine-readable error codes returned by the upload route, with the message to show for each
+export const UPLOAD_ERROR_MESSAGES = {
+  no_file: "No file was provided",
+  invalid_folder: "Uploads are not allowed to this location",
+  file_too_large: `Images must be ${MAX_FILE_SIZE / (1024 * 1024)}MB or smaller`,
+  unsupported_type: "Only JPEG, PNG, GIF and WebP images are allowed",
+  rate_limited: "Too many uploads. Please wait a little while before trying again.",
+  upload_failed: "Failed to upload file",
+} as const
+
+export type UploadErrorCode = keyof typeof UPLOAD_ERROR_MESSAGES
+
+// Image formats accepted by the upload route, identified by their leading bytes
+const IMAGE_SIGNATURES: { mimeType: string; extension: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  {
+    mimeType: "image/jpeg",
+    extension: "jpg",
+    matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  },
+  {
+    mimeType: "image/png",
+    extension: "png",
+    matches: (bytes) => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte),
+  },
+  {
+    mimeType: "image/gif",
+    extension: "gif",
+    matches: (bytes) => ["GIF87a", "GIF89a"].includes(String.fromCharCode(...bytes.slice(0, 6))),
+  },
+  {
+    mimeType: "image/webp",
+    extension: "webp",
+    matches: (bytes) =>
+      String.fromCharCode(...bytes.slice(0, 4)) === "RIFF" && String.fromCharCode(...bytes.slice(8, 12)) === "WEBP",
+  },
+]
+
+/**
+ * Detects the image format from the file contents rather than the name or the type sent by the browser
+ * @param bytes The start of the file, at least 12 bytes
+ * @returns The detected MIME type and extension, or null if the file is not a supported image
+ */
+export function detectImageType(bytes: Uint8Array): { mimeType: string; extension: string } | null {
+  const signature = IMAGE_SIGNATURES.find((candidate) => candidate.matches(bytes))
+  return signature ? { mimeType: signature.mimeType, extension: signature.extension } : null
+}
+
 /**
  * Compresses an image file to reduce its size
  * @param file The image file to compress
@@ -70,33 +122,3 @@ export async function compressImage(file: File, maxSizeInBytes: number = MAX_FIL
     }
   })
 }
-
-/**
- * Uploads a file to Vercel Blob storage
- * @param file The file to upload
- * @param folder The folder path within blob storage
- * @returns A promise that resolves to the URL of the uploaded file
- */
-export async function uploadToBlob(file: File, folder = "uploads"): Promise<string> {
-  try {
-    // Compress the image if it's too large
-    let fileToUpload = file
-    if (file.type.startsWith("image/") && file.size > MAX_FILE_SIZE) {
-      fileToUpload = await compressImage(file)
-    }
-
-    // Generate a unique filename with the original extension
-    const fileExtension = file.name.split(".").pop() || "jpg"
-    const fileName = `${folder}/${nanoid()}.${fileExtension}`
-
-    // Upload to Vercel Blob
-    const { url } = await put(fileName, fileToUpload, {
-      access: "public",
-    })
-
-    return url
-  } catch (error) {
-    console.error("Error uploading to Vercel Blob:", error)
-    throw new Error("Failed to upload file")
-  }
-}
@@ -0,0 +1,78 @@
+import { getSlotCapacity } from "@/lib/booking-capacity"
+import { findAssistanceTypeById } from "@/lib/repositories/assistance-types"
+import { findWaitlistedBookings, updateBookingStatus } from "@/lib/repositories/bookings"
+import { insertComment } from "@/lib/repositories/comments"
+import { releaseScheduleSlots, reserveScheduleSlots } from "@/lib/repositories/schedule-slots"
+import { type Booking, WAITLIST_ACTOR } from "@/models/assistance"
+import { STAFF_AUTHOR_NAME } from "@/models/comment"
+
+const PROMOTION_REASON = "A slot opened up"
+
+const PROMOTION_COMMENT =
+  "Good news, a slot has opened up for your request and it has moved off the waitlist. " +
+  "It's now pending and our team will review it shortly."
+
+/**
+ * Moves waitlisted bookings of an assistance type to pending while they fit, in queue order.
+ * Each booking claims its slots before its status changes, so a promotion can't take slots a new booking
+ * or another promotion got first. A booking that doesn't fit keeps its place, and later ones that do fit
+ * can move ahead of it. Each promoted customer is told through the request's comment thread.
+ * Failures are logged but never fail the change that freed the slots.
+ * @returns The bookings that were promoted
+ */
+export async function promoteWaitlistedBookings(assistanceTypeId: string): Promise<Booking[]> {
+  const promoted: Booking[] = []
+
+  try {
+    const waitlisted = await findWaitlistedBookings(assistanceTypeId)
+    const assistanceType = waitlisted.length > 0 ? await findAssistanceTypeById(assistanceTypeId) : null
+    if (!assistanceType) return promoted
+
+    const capacity = getSlotCapacity(assistanceType)
+
+    for (const booking of waitlisted) {
+      if (!(await reserveScheduleSlots(booking, capacity))) continue
+
+      const updated = await updateBookingStatus(booking._id as string, {
+        from: "waitlisted",
+        to: "pending",
+        actorType: "system",
+        actor: WAITLIST_ACTOR,
+        reason: PROMOTION_REASON,
+      }).catch(async (error) => {
+        await releaseScheduleSlots(booking)
+        throw error
+      })
+
+      // Cancelled or moved by someone else in the meantime
+      if (!updated) {
+        await releaseScheduleSlots(booking)
+        continue
+      }
+
+      promoted.push(updated)
+
+      await insertComment({
+        requestId: booking._id as string,
+        content: PROMOTION_COMMENT,
+        createdAt: new Date(),
+        isAdmin: true,
+        authorName: STAFF_AUTHOR_NAME,
+        isRead: false,
+      })
+    }
+  } catch (error) {
+    console.error("Error promoting waitlisted bookings:", error)
+  }
+
+  return promoted
+}
+
+// Promotes from the waitlists of every assistance type the bookings belonged to, after they handed back their slots
+export async function promoteAfterRelease(bookings: Pick<Booking, "assistanceTypeId">[]): Promise<void> {
+  const typeIds = new Set(bookings.map((booking) => booking.assistanceTypeId))
+
+  for (const typeId of typeIds) {
+    await promoteWaitlistedBookings(typeId)
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { getToken } from "next-auth/jwt"
 import type { NextRequest } from "next/server"
+import { isStaffRole } from "@/lib/staff-roles"
 
 export async function middleware(req: NextRequest) {
   const token = await getToken({
@@ -12,7 +13,7 @@ export async function middleware(req: NextRequest) {
   const isAdminRoute = req.nextUrl.pathname.startsWith("/admin")
 
   // If it's an admin route and the user is not an admin, redirect to home
-  if (isAdminRoute && (!token || token.role !== "admin")) {
+  if (isAdminRoute && (!token || !isStaffRole(token.role))) {
     return NextResponse.redirect(new URL("/", req.url))
   }
 
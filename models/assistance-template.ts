@@ -1,10 +1,9 @@
-import type { ObjectId } from "mongodb"
-
 export interface AssistanceTemplate {
-  _id?: ObjectId | string
+  _id?: string
   title: string
   description: string
-  assistanceTypeId: string | ObjectId
+  assistanceTypeId: string
+  gameId?: string // Copied from the assistance type when the template is saved
   additionalInfo: string
   imageUrl?: string
   selectedDays?: string[]
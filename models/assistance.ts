@@ -1,7 +1,6 @@
-import type { ObjectId } from "mongodb"
-
 export interface AssistanceType {
-  _id?: ObjectId | string
+  _id?: string
+  gameId?: string // Game the type is offered for, see models/game.ts
   name: string
   description?: string
   icon?: string
@@ -9,14 +8,33 @@ export interface AssistanceType {
   listOrder: number // Added listOrder field
   allowPhotoUpload?: boolean // New flag to control photo upload visibility
   allowSchedule?: boolean // New flag to control schedule visibility
+  maxSlotsPerWindow?: number // Most slots bookable for one day and time range, 0 or unset for no limit
+}
+
+export type BookingStatus =
+  | "waitlisted"
+  | "pending"
+  | "confirmed"
+  | "in_progress"
+  | "on_hold"
+  | "completed"
+  | "cancelled"
+
+export interface BookingStatusChange {
+  from?: BookingStatus // Absent for the entry written when the booking is created
+  to: BookingStatus
+  actorType: "staff" | "customer" | "system"
+  actor: string // Staff email, the customer's account email or character ID, or WAITLIST_ACTOR
+  reason?: string
+  changedAt: Date
 }
 
 export interface Booking {
-  _id?: ObjectId | string
+  _id?: string
   requestNumber: string
   characterId: string
   contactInfo: string
-  assistanceTypeId: string | ObjectId
+  assistanceTypeId: string
   assistanceTypeName?: string
   additionalInfo: string
   photoUrls?: string[]
@@ -28,15 +46,36 @@ export interface Booking {
   endTime?: string
   slots: number
   willingToDonate: "yes" | "no"
+  timeZone?: string // Customer's IANA zone when they booked, the schedule itself is stored in game server time
 
-  // Legacy fields - keeping for backward compatibility
-  startDateTime: Date
-  endDateTime: Date
-
-  status: "pending" | "confirmed" | "completed" | "cancelled"
+  status: BookingStatus
+  statusHistory?: BookingStatusChange[] // Oldest first, bookings created before it was tracked start with no entries
+  editTokenHash?: string // SHA-256 of the customer's edit token, never sent to the browser
+  customerId?: string // Customer account the booking belongs to, set when booked or claimed while signed in
+  assignedTo?: string // Staff user handling the request, unset while it waits in the shared queue
+  version: number // Incremented on every write, edits send the version they started from to detect conflicts
   createdAt: Date
   updatedAt?: Date
 }
 
 export const ASSISTANCE_TYPES_COLLECTION = "assistanceTypes"
 export const BOOKINGS_COLLECTION = "bookings"
+
+// A character can only hold one booking in these statuses per assistance type, enforced by a unique index
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = [
+  "waitlisted",
+  "pending",
+  "confirmed",
+  "in_progress",
+  "on_hold",
+  "completed",
+]
+export const ACTIVE_BOOKING_INDEX = "activeBookingPerCharacterAndType"
+export const REQUEST_NUMBER_INDEX = "requestNumberUnique"
+
+// Recorded as the actor when a waitlisted booking is moved forward because a slot opened up
+export const WAITLIST_ACTOR = "Waitlist"
+
+// Assignee filter values for the admin pages besides a staff user id
+export const UNASSIGNED_FILTER = "unassigned"
+export const MY_QUEUE_FILTER = "me" // The signed-in staff member, resolved on the server
@@ -0,0 +1,35 @@
+import type { ObjectId } from "mongodb"
+
+export type AuditEntity =
+  | "booking"
+  | "assistanceType"
+  | "assistanceTemplate"
+  | "featuredToon"
+  | "staffUser"
+  | "storedFile"
+  | "game"
+  | "blackout"
+
+export interface AuditLogEntry {
+  _id?: ObjectId | string
+  actorEmail: string // Staff member who made the change
+  action: string // e.g. "booking.status_changed", "featuredToon.deleted"
+  entity: AuditEntity
+  targetId: string
+  before?: Record<string, unknown> | null // Snapshot before the change, null for creations
+  after?: Record<string, unknown> | null // Snapshot after the change, null for deletions
+  createdAt: Date
+}
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  booking: "Assistance Request",
+  assistanceType: "Assistance Type",
+  assistanceTemplate: "Assistance Template",
+  featuredToon: "Featured Toon",
+  staffUser: "Staff User",
+  storedFile: "Stored File",
+  game: "Game",
+  blackout: "Blackout",
+}
+
+export const AUDIT_LOG_COLLECTION = "auditLog"
@@ -0,0 +1,13 @@
+// A period bookings can't be scheduled in, such as game maintenance, a holiday or helper downtime
+export interface Blackout {
+  _id?: string
+  assistanceTypeId?: string // Only this assistance type is blocked, unset to block every type
+  startsAt: Date
+  endsAt: Date // Exclusive, bookings may start again at this moment
+  reason: string // Shown to customers whose schedule falls in the blackout
+  createdBy?: string // Email of the staff member who added it
+  createdAt: Date
+  updatedAt?: Date
+}
+
+export const BLACKOUTS_COLLECTION = "blackouts"
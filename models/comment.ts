@@ -1,8 +1,6 @@
-import type { ObjectId } from "mongodb"
-
 export interface Comment {
-  _id?: ObjectId | string
-  requestId: string | ObjectId
+  _id?: string
+  requestId: string
   content: string
   createdAt: Date
   isAdmin: boolean
@@ -11,3 +9,6 @@ export interface Comment {
 }
 
 export const COMMENTS_COLLECTION = "comments"
+
+// Staff replies without an assignee, or whose assignee has no display name, are signed with this
+export const STAFF_AUTHOR_NAME = "Customer Support"
@@ -0,0 +1,7 @@
+// A named sequence, incremented atomically to hand out numbers such as request numbers
+export interface Counter {
+  _id: string
+  seq: number
+}
+
+export const COUNTERS_COLLECTION = "counters"
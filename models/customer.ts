@@ -0,0 +1,33 @@
+import type { ObjectId } from "mongodb"
+
+// Account created by NextAuth the first time someone signs in with an email link (or Google for staff)
+export interface Customer {
+  _id?: ObjectId | string
+  email: string // Stored lowercase
+  name?: string | null
+  image?: string | null
+  emailVerified: Date | null
+  createdAt: Date
+}
+
+// OAuth account linked to a customer record
+export interface CustomerAccount {
+  _id?: ObjectId | string
+  userId: ObjectId
+  type: string
+  provider: string
+  providerAccountId: string
+  [key: string]: unknown // Token fields returned by the provider
+}
+
+// Single use token behind a magic sign-in link
+export interface VerificationToken {
+  _id?: ObjectId | string
+  identifier: string
+  token: string
+  expires: Date
+}
+
+export const CUSTOMERS_COLLECTION = "customers"
+export const CUSTOMER_ACCOUNTS_COLLECTION = "customerAccounts"
+export const VERIFICATION_TOKENS_COLLECTION = "verificationTokens"
@@ -1,7 +1,6 @@
-import type { ObjectId } from "mongodb"
-
 export interface FeaturedToon {
-  _id?: ObjectId | string
+  _id?: string
+  gameId?: string
   characterClass: string
   displayName: string
   imageUrl: string
@@ -0,0 +1,22 @@
+// A game customers can book assistance for, each one gets a page at /games/<slug>
+export interface Game {
+  _id?: string
+  slug: string // URL segment, lowercase letters, numbers and dashes
+  name: string
+  logo?: string // Image URL or path under /public
+  description?: string
+  isActive: boolean // Inactive games are hidden from the sidebar and their page returns 404
+  listOrder: number
+  createdAt: Date
+  updatedAt?: Date
+}
+
+export const GAMES_COLLECTION = "games"
+export const GAME_SLUG_INDEX = "gameSlugUnique"
+
+// Every game page is rendered by app/games/[slug], revalidate this to refresh all of them
+export const GAME_PAGE_ROUTE = "/games/[slug]"
+
+export function gamePath(slug: string): string {
+  return `/games/${slug}`
+}
@@ -0,0 +1,8 @@
+// One applied migration, keyed by its version number
+export interface MigrationRecord {
+  _id: number
+  name: string
+  appliedAt: Date
+}
+
+export const MIGRATIONS_COLLECTION = "migrations"
@@ -0,0 +1,12 @@
+// Slots taken in one day and time range of an assistance type by the bookings holding them,
+// kept in step with those bookings so capacity can be claimed with a single conditional update
+export interface ScheduleSlotCount {
+  _id: string // See scheduleSlotId
+  used: number
+}
+
+export const SCHEDULE_SLOTS_COLLECTION = "scheduleSlots"
+
+export function scheduleSlotId(assistanceTypeId: string, day: string, window: string): string {
+  return `${assistanceTypeId}:${day}:${window}`
+}
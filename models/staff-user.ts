@@ -0,0 +1,37 @@
+import type { ObjectId } from "mongodb"
+
+export type StaffRole = "owner" | "agent" | "viewer"
+
+export interface StaffUser {
+  _id?: ObjectId | string
+  email: string // Stored lowercase, matched against the OAuth account email
+  name?: string
+  role: StaffRole
+  invitedBy?: string // Email of the owner who added this staff member
+  invitedAt: Date
+  lastSignInAt?: Date // Unset until the invite has been accepted by signing in
+  passwordHash?: string // scrypt hash for the credentials sign-in, never sent to the browser
+  totpSecret?: string // Base32 secret for the optional one-time code, never sent to the browser
+  pendingTotpSecret?: string // Secret shown during setup, moved to totpSecret once a code is confirmed
+  totpLastStep?: number // Time step of the last one-time code accepted at sign-in, older and equal ones are refused
+  calendarFeedTokenHash?: string // SHA-256 of the token in their calendar feed link, never sent to the browser
+  updatedAt?: Date
+}
+
+// Staff user as sent to the admin pages, with credentials replaced by flags
+export interface StaffUserSummary
+  extends Omit<StaffUser, "passwordHash" | "totpSecret" | "pendingTotpSecret" | "calendarFeedTokenHash"> {
+  hasPassword: boolean
+  totpEnabled: boolean
+  hasCalendarFeed: boolean
+}
+
+// Error codes the credentials provider hands back to the login form
+export const CREDENTIALS_ERRORS = {
+  invalid: "invalid_credentials",
+  otpRequired: "otp_required",
+  invalidOtp: "invalid_otp",
+  rateLimited: "rate_limited",
+} as const
+
+export const STAFF_USERS_COLLECTION = "staffUsers"
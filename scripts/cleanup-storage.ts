@@ -0,0 +1,49 @@
+/**
+ * Finds uploaded images that no booking, template or featured toon refers to any more.
+ *
+ *   npm run cleanup-storage              dry run, list what would be deleted
+ *   npm run cleanup-storage -- --delete  delete the orphaned files
+ *
+ * Uploads from the last 7 days are always kept, see lib/storage/cleanup.ts.
+ */
+import { loadEnvConfig } from "@next/env"
+
+// Load .env.local the same way Next does, before anything reads MONGODB_URI or the storage settings
+loadEnvConfig(process.cwd())
+
+async function main() {
+  const shouldDelete = process.argv.slice(2).includes("--delete")
+  const { default: clientPromise } = await import("@/lib/mongodb")
+  const { deleteOrphanedFiles, findOrphanedFiles } = await import("@/lib/storage/cleanup")
+
+  const client = await clientPromise
+
+  try {
+    const report = await findOrphanedFiles()
+    console.log(
+      `Scanned ${report.scannedCount} file(s) in ${report.provider} storage: ${report.referencedCount} in use, ` +
+        `${report.recentCount} unused but within the grace period, ${report.orphans.length} orphaned`,
+    )
+    report.orphans.forEach((file) =>
+      console.log(`  ${file.pathname} (${file.size} bytes, uploaded ${file.uploadedAt.toISOString()})`),
+    )
+
+    if (!shouldDelete) {
+      if (report.orphans.length > 0) console.log("Dry run, pass --delete to remove these files")
+      return
+    }
+
+    const { deleted, failed } = await deleteOrphanedFiles(report)
+    console.log(`${deleted.length} file(s) deleted`)
+    if (failed.length > 0) {
+      throw new Error(`Could not delete ${failed.length} file(s): ${failed.join(", ")}`)
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
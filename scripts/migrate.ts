@@ -0,0 +1,87 @@
+/**
+ * Runs the data migrations in lib/migrations against the configured database.
+ *
+ *   npm run migrate                  apply every pending migration
+ *   npm run migrate -- up 2          apply pending migrations up to version 2
+ *   npm run migrate -- down 1        revert migrations after version 1
+ *   npm run migrate -- status        list migrations and when they were applied
+ *
+ * Once every migration is applied, the indexes in lib/repositories/indexes.ts are created so data fixed by a migration
+ * gets them. The app leaves index creation to this script while migrations are pending.
+ */
+import { loadEnvConfig } from "@next/env"
+
+// Load .env.local the same way Next does, before anything reads MONGODB_URI
+loadEnvConfig(process.cwd())
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+
+  const version = Number.parseInt(value, 10)
+  if (Number.isNaN(version) || version < 0) {
+    throw new Error(`Invalid migration version "${value}"`)
+  }
+  return version
+}
+
+async function main() {
+  const [command = "up", versionArg] = process.argv.slice(2)
+  const { default: clientPromise } = await import("@/lib/mongodb")
+  const { getMigrationStatus, hasPendingMigrations, migrateDown, migrateUp } = await import("@/lib/migrations/runner")
+  const { ensureIndexes } = await import("@/lib/repositories/indexes")
+
+  const client = await clientPromise
+  const db = client.db()
+
+  try {
+    switch (command) {
+      case "up": {
+        const applied = await migrateUp(db, parseVersion(versionArg))
+        applied.forEach((migration) => console.log(`Applied ${migration.version} ${migration.name}`))
+        console.log(applied.length > 0 ? `${applied.length} migration(s) applied` : "Database is up to date")
+
+        // Indexes built over data a later migration converts would miss duplicates across the old and new forms
+        if (await hasPendingMigrations(db)) {
+          console.log("Indexes are created once every migration has been applied")
+          break
+        }
+
+        const failedIndexes = await ensureIndexes(db)
+        if (failedIndexes.length > 0) {
+          throw new Error(`Could not create indexes: ${failedIndexes.join(", ")}, fix the conflicting data and run again`)
+        }
+        break
+      }
+      case "down": {
+        const targetVersion = parseVersion(versionArg)
+        if (targetVersion === undefined) {
+          throw new Error("Pass the version to return to, e.g. `npm run migrate -- down 0` to revert everything")
+        }
+
+        const reverted = await migrateDown(db, targetVersion)
+        reverted.forEach((migration) => console.log(`Reverted ${migration.version} ${migration.name}`))
+        console.log(`${reverted.length} migration(s) reverted`)
+        break
+      }
+      case "status": {
+        const status = await getMigrationStatus(db)
+        status.forEach((migration) =>
+          console.log(
+            `${migration.version.toString().padStart(3, "0")} ${migration.name}: ` +
+              (migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : "pending"),
+          ),
+        )
+        break
+      }
+      default:
+        throw new Error(`Unknown command "${command}", expected up, down or status`)
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
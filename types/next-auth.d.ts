@@ -1,5 +1,6 @@
 import "next-auth"
 import "next-auth/jwt"
+import type { StaffRole } from "@/models/staff-user"
 
 declare module "next-auth" {
   interface Session {
@@ -8,13 +9,14 @@ declare module "next-auth" {
       name?: string | null
       email?: string | null
       image?: string | null
-      role?: string
+      role?: StaffRole
     }
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
-    role?: string
+    role?: StaffRole
+    provider?: string // Provider used for the sign-in that issued this token
   }
 }